@@ -5,8 +5,15 @@ const envSchema = z.object({
   MCP_PORT: z.coerce.number().optional(),
   PORT: z.coerce.number().optional(),
   PORT2: z.coerce.number().optional(),
-  ELASTIC_ENDPOINT: z.string().url(),
-  ELASTIC_API_KEY: z.string(),
+  SEARCH_BACKEND: z.enum(["elasticsearch", "opensearch", "local"]).default("elasticsearch"),
+  LOCAL_INDEX_DIR: z.string().optional(),
+  ELASTIC_ENDPOINT: z.string().url().optional(),
+  ELASTIC_API_KEY: z.string().optional(),
+  OPENSEARCH_NODE: z.string().url().optional(),
+  OPENSEARCH_USERNAME: z.string().optional(),
+  OPENSEARCH_PASSWORD: z.string().optional(),
+  EMBEDDING_MODEL: z.string().optional(),
+  EMBEDDING_DIMENSIONS: z.coerce.number().int().positive().optional(),
   REDIS_URL: z.string().url().optional(),
   QUEUE_NAME: z.string().default("reindex"),
   API_TOKEN_SECRET: z.string().optional(),
@@ -14,6 +21,18 @@ const envSchema = z.object({
   VERTEX_AI_API_KEY: z.string().optional(),
   GEMINI_MODEL: z.string().optional(),
   CORS_ORIGINS: z.string().optional(),
+}).superRefine((env, ctx) => {
+  // Settings of the cluster SEARCH_BACKEND talks to; the local backend has none
+  const required = {
+    elasticsearch: ["ELASTIC_ENDPOINT", "ELASTIC_API_KEY"] as const,
+    opensearch: ["OPENSEARCH_NODE"] as const,
+    local: [] as const,
+  }[env.SEARCH_BACKEND];
+  for (const key of required) {
+    if (!env[key]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Required when SEARCH_BACKEND=${env.SEARCH_BACKEND}` });
+    }
+  }
 });
 
 export type AppConfig = ReturnType<typeof buildConfig>;
@@ -30,8 +49,15 @@ export function buildConfig() {
   return {
     nodeEnv: parsed.NODE_ENV,
     port,
+    searchBackend: parsed.SEARCH_BACKEND,
+    localIndexDir: parsed.LOCAL_INDEX_DIR,
     elasticEndpoint: parsed.ELASTIC_ENDPOINT,
     elasticApiKey: parsed.ELASTIC_API_KEY,
+    opensearchNode: parsed.OPENSEARCH_NODE,
+    opensearchUsername: parsed.OPENSEARCH_USERNAME,
+    opensearchPassword: parsed.OPENSEARCH_PASSWORD,
+    embeddingModel: parsed.EMBEDDING_MODEL,
+    embeddingDimensions: parsed.EMBEDDING_DIMENSIONS,
     redisUrl: parsed.REDIS_URL,
     queueName: parsed.QUEUE_NAME,
     apiTokenSecret: parsed.API_TOKEN_SECRET,
@@ -5,11 +5,11 @@ import { ZodTypeProvider } from "fastify-type-provider-zod";
 import { listResourcesResponse } from "@npm-intel/shared/mcp";
 
 import type { AppConfig } from "../config/env.js";
-import { getElasticClient, listPackages } from "../services/elastic.js";
+import { getSearchBackend, listPackages } from "../services/search.js";
 import { buildResourceId } from "./utils.js";
 
 export async function registerResourceRoutes(app: FastifyInstance, config: AppConfig) {
-  const client = getElasticClient(config);
+  const backend = getSearchBackend(config);
   const typed = app.withTypeProvider<ZodTypeProvider>();
 
   typed.post(
@@ -23,7 +23,7 @@ export async function registerResourceRoutes(app: FastifyInstance, config: AppCo
       },
     },
     async (_request, reply) => {
-      const packages = await listPackages(client);
+      const packages = await listPackages(backend);
 
       return reply.send({
         resources: packages.map((pkg) => ({
@@ -12,11 +12,12 @@ import {
 
 import type { AppConfig } from "../config/env.js";
 import { enqueueReindex, getJobState } from "../services/jobs.js";
-import { getElasticClient, searchPackageContent, PACKAGE_INDEX } from "../services/elastic.js";
+import { getSearchBackend, searchPackageContent } from "../services/search.js";
 import { parseResourceId } from "./utils.js";
 
 const searchRequestSchema = z.object({
   resourceId: packageResourceId,
+  version: z.string().min(1).optional(),
   query: z.string().min(1),
   limit: z.number().int().min(1).max(10).default(5),
 });
@@ -45,14 +46,17 @@ const jobStatusResponseSchema = z.object({
 
 const answerRequestSchema = z.object({
   resourceId: packageResourceId,
+  version: z.string().min(1).optional(),
   intent: z.string().min(1),
   searchQuery: z.string().optional(),
   maxSnippets: z.number().int().min(1).max(10).optional(),
+  entryPoint: z.string().optional(),
 });
 
 const answerResponseSchema = z.object({
   intent: z.string(),
   packageName: z.string(),
+  version: z.string().optional(),
   searchQuery: z.string(),
   code: z.string(),
   context: z.array(
@@ -63,13 +67,19 @@ const answerResponseSchema = z.object({
       jsdoc: z.string().optional(),
       signature: z.string().optional(),
       is_exported: z.boolean(),
+      entry_points: z.array(z.string()).optional(),
+      source_url: z.string().optional(),
+      parent: z.string().optional(),
+      inferred_signature: z.string().optional(),
+      examples: z.array(z.string()).optional(),
+      deprecated: z.boolean().optional(),
     }),
   ),
 });
 
 export async function registerToolRoutes(app: FastifyInstance, config: AppConfig) {
   const typed = app.withTypeProvider<ZodTypeProvider>();
-  const client = getElasticClient(config);
+  const backend = getSearchBackend(config);
   const generativeModels = (() => {
     if (!config.geminiApiKey) {
       return [] as GenerativeModel[];
@@ -97,11 +107,12 @@ export async function registerToolRoutes(app: FastifyInstance, config: AppConfig
   })();
 
   const answerService = createAnswerService({
-    esClient: client,
-    indexName: PACKAGE_INDEX,
+    backend,
     generativeModels,
     maxRetries: 2,
     allowUngroundedFallback: true,
+    // Offline, answers fall back to the grounded APIs when there's no Gemini key
+    allowExtractiveAnswers: config.searchBackend === "local",
   });
 
   typed.post(
@@ -117,7 +128,7 @@ export async function registerToolRoutes(app: FastifyInstance, config: AppConfig
     async (request, reply) => {
       const body = reindexRequest.parse(request.body);
       const packageName = parseResourceId(body.resourceId);
-      const job = await enqueueReindex(config, packageName);
+      const job = await enqueueReindex(config, packageName, body.version);
       return reply.send({
         jobId: job.jobId,
         status: job.status,
@@ -136,9 +147,9 @@ export async function registerToolRoutes(app: FastifyInstance, config: AppConfig
       },
     },
     async (request, reply) => {
-      const { resourceId, query, limit } = searchRequestSchema.parse(request.body);
+      const { resourceId, version, query, limit } = searchRequestSchema.parse(request.body);
       const packageName = parseResourceId(resourceId);
-      const results = await searchPackageContent(client, packageName, query, limit);
+      const results = await searchPackageContent(backend, packageName, query, limit, version);
       return reply.send({ results });
     },
   );
@@ -161,8 +172,10 @@ export async function registerToolRoutes(app: FastifyInstance, config: AppConfig
       const result = await answerService.generateAnswer({
         intent: body.intent,
         packageName,
+        version: body.version,
         searchQuery: body.searchQuery,
         maxSnippets: body.maxSnippets,
+        entryPoint: body.entryPoint,
       });
 
       if ("error" in result) {
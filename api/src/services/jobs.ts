@@ -52,9 +52,9 @@ function ensureQueue(config: AppConfig) {
   return { queue, events };
 }
 
-export async function enqueueReindex(config: AppConfig, packageName: string) {
+export async function enqueueReindex(config: AppConfig, packageName: string, version?: string) {
   const { queue } = ensureQueue(config);
-  const job = await queue.add("reindex-package", { packageName });
+  const job = await queue.add("reindex-package", { packageName, version });
   return {
     jobId: job.id as string,
     status: "queued" as const,
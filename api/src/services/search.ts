@@ -0,0 +1,128 @@
+import { Client } from "@elastic/elasticsearch";
+import { Client as OpenSearchClient } from "@opensearch-project/opensearch";
+
+import type { AppConfig } from "../config/env.js";
+import type { PackageMetadata } from "@npm-intel/shared/mcp";
+import {
+  createEmbedder,
+  createSearchBackend,
+  resolveStoredVersion,
+  type SearchBackend,
+} from "@npm-intel/shared/search";
+import { sortVersionsDesc } from "@npm-intel/shared/versions";
+
+let cachedBackend: SearchBackend | null = null;
+
+export function getSearchBackend(config: AppConfig): SearchBackend {
+  if (!cachedBackend) {
+    cachedBackend = createSearchBackend({
+      kind: config.searchBackend,
+      localDirectory: config.localIndexDir,
+      elasticsearch: () =>
+        new Client({
+          node: config.elasticEndpoint!,
+          auth: {
+            apiKey: config.elasticApiKey!,
+          },
+        }),
+      opensearch: () =>
+        new OpenSearchClient({
+          node: config.opensearchNode!,
+          ...(config.opensearchUsername
+            ? { auth: { username: config.opensearchUsername, password: config.opensearchPassword ?? "" } }
+            : {}),
+        }),
+      embedder: () =>
+        createEmbedder({
+          apiKey: config.geminiApiKey,
+          model: config.embeddingModel,
+          dimensions: config.embeddingDimensions,
+        }),
+    });
+  }
+  return cachedBackend;
+}
+
+export async function listPackages(backend: SearchBackend): Promise<PackageMetadata[]> {
+  const stored = await backend.listPackages(500);
+
+  // One resource per package: the newest indexed version, listing all the others
+  const byName = new Map<string, Array<(typeof stored)[number]["package"]>>();
+
+  for (const { package: doc } of stored) {
+    if (!doc.name || !doc.version) {
+      continue;
+    }
+
+    const docs = byName.get(doc.name) ?? [];
+    docs.push(doc);
+    byName.set(doc.name, docs);
+  }
+
+  const packages: PackageMetadata[] = [];
+
+  for (const [name, docs] of byName) {
+    const versions = sortVersionsDesc(docs.map((doc) => doc.version));
+    const latest = versions[0];
+    const doc = docs.find((candidate) => candidate.version === latest) ?? docs[0];
+
+    const totalSymbols = doc.total_symbols ?? 0;
+    const sourceStrategy = doc.source_strategy ?? undefined;
+    const lastIndexedAt = doc.updated_at ?? doc.indexed_at ?? new Date().toISOString();
+
+    packages.push({
+      name,
+      version: latest,
+      description: doc.description ?? undefined,
+      totalSymbols,
+      sourceStrategy,
+      lastIndexedAt,
+      versions,
+    });
+  }
+
+  return packages;
+}
+
+export async function fetchPackageDocument(backend: SearchBackend, packageName: string, version?: string) {
+  const resolvedVersion = await resolveStoredVersion(backend, packageName, version);
+  if (!resolvedVersion) {
+    return null;
+  }
+
+  return (await backend.getPackage(packageName, resolvedVersion))?.package ?? null;
+}
+
+export async function searchPackageContent(
+  backend: SearchBackend,
+  packageName: string,
+  query: string,
+  limit: number,
+  version?: string,
+) {
+  const resolvedVersion = await resolveStoredVersion(backend, packageName, version);
+  if (!resolvedVersion) {
+    return [];
+  }
+
+  const hits = await backend.searchPackages({
+    query,
+    size: limit,
+    name: packageName,
+    version: resolvedVersion,
+  });
+
+  const results: Array<{ id: string; score: number; snippet?: string }> = [];
+
+  for (const hit of hits) {
+    const codeExamples = typeof hit.package.code_examples === "string" ? hit.package.code_examples : undefined;
+    const snippet = hit.package.description ?? codeExamples?.slice(0, 280) ?? undefined;
+    results.push({
+      id: hit.id,
+      score: hit.score,
+      snippet,
+    });
+  }
+
+  return results;
+}
@@ -1,5 +1,6 @@
 import { Client } from "@elastic/elasticsearch";
 import * as dotenv from "dotenv";
+import { PACKAGE_INDEX_ALIAS, SYMBOL_INDEX_ALIAS } from "@npm-intel/shared/indices";
 
 dotenv.config();
 
@@ -38,7 +39,7 @@ const client = ELASTIC_CLOUD_ID
       auth: { apiKey: ELASTIC_API_KEY },
     });
 
-const INDEX_NAME = "npm-packages";
+const INDEX_ALIASES = [PACKAGE_INDEX_ALIAS, SYMBOL_INDEX_ALIAS];
 const INFERENCE_ID = "gemini-embeddings";
 
 async function cleanup() {
@@ -47,23 +48,28 @@ async function cleanup() {
     console.log("║         NPM Intel - Cleanup Script                       ║");
     console.log("╚═══════════════════════════════════════════════════════════╝");
     console.log("\n⚠️  This will delete:");
-    console.log(`   - Index: ${INDEX_NAME}`);
+    console.log(`   - Indices: ${INDEX_ALIASES.map((alias) => `${alias}-v*`).join(", ")} (every schema version)`);
     console.log(`   - Inference endpoint: ${INFERENCE_ID}`);
     console.log("\n🔄 Starting cleanup...\n");
 
-    // Step 1: Delete index if exists
+    // Step 1: Delete every versioned index (and any unversioned one from
+    // before aliases); their aliases go with them
     try {
-      const indexExists = await client.indices.exists({ index: INDEX_NAME });
+      const existing = await client.indices.get({
+        index: INDEX_ALIASES.flatMap((alias) => [alias, `${alias}-v*`]),
+        ignore_unavailable: true,
+      });
+      const indices = Object.keys(existing);
 
-      if (indexExists) {
-        console.log(`📦 Deleting index '${INDEX_NAME}'...`);
-        await client.indices.delete({ index: INDEX_NAME });
-        console.log(`   ✅ Index deleted successfully\n`);
+      if (indices.length > 0) {
+        console.log(`📦 Deleting indices ${indices.join(", ")}...`);
+        await client.indices.delete({ index: indices });
+        console.log(`   ✅ Indices deleted successfully\n`);
       } else {
-        console.log(`   ℹ️  Index '${INDEX_NAME}' does not exist\n`);
+        console.log(`   ℹ️  No indices to delete\n`);
       }
     } catch (error: any) {
-      console.log(`   ⚠️  Could not delete index: ${error.message}\n`);
+      console.log(`   ⚠️  Could not delete indices: ${error.message}\n`);
     }
 
     // Step 2: Delete inference endpoint if exists
@@ -0,0 +1,341 @@
+import { Client } from "@elastic/elasticsearch";
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import {
+  combineRelevance,
+  DEFAULT_SYMBOL_INDEX,
+  symbolTextQuery,
+  type PackageRecord,
+  type SymbolRecord,
+} from "@npm-intel/shared/search";
+import { PACKAGE_INDEX_ALIAS } from "@npm-intel/shared/indices";
+import type { FileDecision } from "../src/ingestion/file-classifier.js";
+import {
+  calculateRelevanceScore,
+  loadScoringProfiles,
+  type ScoredSymbol,
+  type ScoringProfile,
+} from "../src/ingestion/scoring.js";
+
+dotenv.config();
+
+const ELASTIC_CLOUD_ID = process.env.ELASTIC_CLOUD_ID;
+const ELASTIC_ENDPOINT = process.env.ELASTIC_ENDPOINT;
+const ELASTIC_API_KEY = process.env.ELASTIC_API_KEY;
+
+if (!ELASTIC_API_KEY) {
+  console.error("❌ Missing required environment variables");
+  console.error("   - ELASTIC_API_KEY");
+  process.exit(1);
+}
+
+if (!ELASTIC_CLOUD_ID && !ELASTIC_ENDPOINT) {
+  console.error(
+    "❌ You must provide either ELASTIC_CLOUD_ID or ELASTIC_ENDPOINT",
+  );
+  process.exit(1);
+}
+
+// Support both Cloud ID and direct endpoint URL
+const client = ELASTIC_CLOUD_ID
+  ? new Client({
+      cloud: { id: ELASTIC_CLOUD_ID },
+      auth: { apiKey: ELASTIC_API_KEY },
+    })
+  : new Client({
+      node: ELASTIC_ENDPOINT!,
+      auth: { apiKey: ELASTIC_API_KEY },
+    });
+
+const INDEX_NAME = PACKAGE_INDEX_ALIAS;
+const SYMBOL_INDEX_NAME = DEFAULT_SYMBOL_INDEX;
+
+/**
+ * One judged query: the symbols a good ranking puts first, as qualified
+ * names ("Ratelimit.limit") or symbol ids ("src/ratelimit.ts#Ratelimit.limit")
+ */
+interface Judgment {
+  query: string;
+  package: string;
+  /** Defaults to the most recently indexed version */
+  version?: string;
+  expected: string[];
+}
+
+/** Stored fields the harness reads beyond what the backends read back */
+interface PackageSource extends PackageRecord {
+  file_decisions?: FileDecision[];
+}
+
+interface SymbolSource extends SymbolRecord {
+  reachability?: ScoredSymbol["reachability"];
+}
+
+interface Candidate {
+  id: string;
+  qualifiedName: string;
+  textScore: number;
+  symbol: ScoredSymbol;
+}
+
+interface QueryResult {
+  judgment: Judgment;
+  /** Qualified names, best first, per profile */
+  rankings: Map<string, string[]>;
+  reciprocalRanks: Map<string, number>;
+  recalls: Map<string, number[]>;
+}
+
+function parseArgs(args: string[]) {
+  const options = {
+    judgments: "eval/judgments.json",
+    profiles: [] as string[],
+    ks: [1, 5, 10],
+    candidates: 50,
+    verbose: false,
+  };
+
+  for (let index = 0; index < args.length; index += 1) {
+    const [flag, inline] = args[index].split(/=(.*)/s, 2);
+    const value = () => inline ?? args[++index] ?? "";
+
+    if (flag === "--judgments") options.judgments = value();
+    else if (flag === "--profiles") options.profiles = value().split(",").filter(Boolean);
+    else if (flag === "--k") {
+      options.ks = value()
+        .split(",")
+        .map(Number)
+        .filter((k) => k > 0);
+    } else if (flag === "--candidates") options.candidates = Number(value()) || options.candidates;
+    else if (flag === "--verbose") options.verbose = true;
+  }
+
+  return options;
+}
+
+/**
+ * Text-matched symbols of the judged package, before any relevance boost.
+ * Chunks of one symbol count once, with their best score.
+ */
+async function fetchCandidates(judgment: Judgment, size: number): Promise<Candidate[]> {
+  const packageResponse = await client.search<PackageSource>({
+    index: INDEX_NAME,
+    size: 1,
+    query: {
+      bool: {
+        filter: [
+          { term: { name: judgment.package } },
+          ...(judgment.version ? [{ term: { version: judgment.version } }] : []),
+        ],
+      },
+    },
+    sort: judgment.version ? undefined : [{ indexed_at: "desc" }],
+    _source: ["file_decisions"],
+  });
+
+  const packageHit = packageResponse.hits.hits[0];
+  if (!packageHit?._id) return [];
+
+  // Symbols don't record their file's classification; the package does
+  const flagged = new Map(
+    (packageHit._source?.file_decisions ?? []).flatMap((decision) =>
+      decision.action === "downweighted" && decision.classification !== "minified"
+        ? [[decision.path, decision.classification] as const]
+        : [],
+    ),
+  );
+
+  const response = await client.search<SymbolSource>({
+    index: SYMBOL_INDEX_NAME,
+    size,
+    query: {
+      bool: {
+        filter: [{ term: { package_version: packageHit._id } }],
+        must: [symbolTextQuery(judgment.query)],
+      },
+    },
+    _source: [
+      "name",
+      "parent",
+      "file_path",
+      "symbol_id",
+      "implementation",
+      "is_exported",
+      "reachability",
+      "jsdoc",
+      "examples",
+      "deprecated",
+    ],
+  });
+
+  const candidates = new Map<string, Candidate>();
+  for (const hit of response.hits.hits) {
+    const symbol = hit._source;
+    if (!symbol) continue;
+    const qualifiedName = symbol.parent ? `${symbol.parent}.${symbol.name}` : symbol.name;
+    const id = symbol.symbol_id ?? `${symbol.file_path}#${qualifiedName}`;
+    const textScore = hit._score ?? 0;
+
+    if ((candidates.get(id)?.textScore ?? -Infinity) >= textScore) continue;
+    candidates.set(id, {
+      id,
+      qualifiedName,
+      textScore,
+      symbol: {
+        name: symbol.name ?? "",
+        implementation: symbol.implementation ?? "",
+        isExported: Boolean(symbol.is_exported),
+        reachability: symbol.reachability,
+        fileClassification: flagged.get(symbol.file_path),
+        jsdoc: symbol.jsdoc,
+        docs: { examples: symbol.examples, deprecated: symbol.deprecated },
+      },
+    });
+  }
+
+  return [...candidates.values()];
+}
+
+/**
+ * Order candidates the way the text half of the live symbol query would if
+ * they had been ingested with `profile`
+ */
+function rankCandidates(candidates: Candidate[], profile: ScoringProfile): Candidate[] {
+  const scored = candidates.map((candidate) => ({
+    candidate,
+    score: combineRelevance(
+      candidate.textScore,
+      calculateRelevanceScore(candidate.symbol, profile),
+    ),
+  }));
+  return scored
+    .sort((a, b) => b.score - a.score || b.candidate.textScore - a.candidate.textScore)
+    .map(({ candidate }) => candidate);
+}
+
+function isExpected(candidate: Candidate, expected: string): boolean {
+  return (
+    expected === candidate.id ||
+    expected === candidate.qualifiedName ||
+    expected === candidate.symbol.name
+  );
+}
+
+function evaluate(
+  judgment: Judgment,
+  candidates: Candidate[],
+  profiles: ScoringProfile[],
+  ks: number[],
+): QueryResult {
+  const result: QueryResult = {
+    judgment,
+    rankings: new Map(),
+    reciprocalRanks: new Map(),
+    recalls: new Map(),
+  };
+
+  for (const profile of profiles) {
+    const ranked = rankCandidates(candidates, profile);
+    const firstHit = ranked.findIndex((candidate) =>
+      judgment.expected.some((expected) => isExpected(candidate, expected)),
+    );
+
+    result.rankings.set(
+      profile.name,
+      ranked.map((candidate) => candidate.qualifiedName),
+    );
+    result.reciprocalRanks.set(profile.name, firstHit === -1 ? 0 : 1 / (firstHit + 1));
+    result.recalls.set(
+      profile.name,
+      ks.map((k) => {
+        const top = ranked.slice(0, k);
+        const found = judgment.expected.filter((expected) =>
+          top.some((candidate) => isExpected(candidate, expected)),
+        );
+        return found.length / judgment.expected.length;
+      }),
+    );
+  }
+
+  return result;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  const judgments: Judgment[] = JSON.parse(fs.readFileSync(options.judgments, "utf8"));
+  const available = loadScoringProfiles();
+  const names = options.profiles.length > 0 ? options.profiles : [...available.keys()];
+  const profiles = names.map((name) => {
+    const profile = available.get(name);
+    if (!profile) {
+      console.error(`❌ Unknown scoring profile "${name}" (available: ${[...available.keys()].join(", ")})`);
+      process.exit(1);
+    }
+    return profile;
+  });
+
+  console.log(`🧪 Evaluating ${profiles.length} scoring profiles on ${judgments.length} judged queries`);
+  console.log(`   Judgments: ${options.judgments}`);
+  console.log(`   Candidates per query: ${options.candidates}\n`);
+
+  const results: QueryResult[] = [];
+  for (const judgment of judgments) {
+    if (!judgment.query || !judgment.package || !judgment.expected?.length) {
+      console.log(`   ⚠️  Skipping incomplete judgment: ${JSON.stringify(judgment)}`);
+      continue;
+    }
+
+    try {
+      const candidates = await fetchCandidates(judgment, options.candidates);
+      if (candidates.length === 0) {
+        console.log(`   ⚠️  No symbols matched "${judgment.query}" in ${judgment.package}`);
+      }
+      const result = evaluate(judgment, candidates, profiles, options.ks);
+      results.push(result);
+
+      if (options.verbose) {
+        console.log(`   🔍 ${judgment.package}: "${judgment.query}" → ${judgment.expected.join(", ")}`);
+        for (const profile of profiles) {
+          const top = result.rankings.get(profile.name)!.slice(0, Math.max(...options.ks));
+          console.log(
+            `      ${profile.name.padEnd(12)} RR ${result.reciprocalRanks.get(profile.name)!.toFixed(2)}  ${top.join(", ")}`,
+          );
+        }
+      }
+    } catch (error: any) {
+      console.log(`   ❌ ${judgment.package}: "${judgment.query}" failed: ${error.message}`);
+    }
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log(`\n📊 Results over ${results.length} queries:\n`);
+  const header = ["profile".padEnd(12), "MRR".padStart(6), ...options.ks.map((k) => `R@${k}`.padStart(6))];
+  console.log(`   ${header.join("  ")}`);
+
+  for (const profile of profiles) {
+    const mrr = mean(results.map((result) => result.reciprocalRanks.get(profile.name)!));
+    const recalls = options.ks.map((_, index) =>
+      mean(results.map((result) => result.recalls.get(profile.name)![index])),
+    );
+    console.log(
+      `   ${[
+        profile.name.padEnd(12),
+        mrr.toFixed(3).padStart(6),
+        ...recalls.map((recall) => recall.toFixed(3).padStart(6)),
+      ].join("  ")}`,
+    );
+  }
+  console.log();
+
+  await client.close();
+}
+
+main().catch((error) => {
+  console.error("\n❌ Evaluation failed:", error.message);
+  process.exit(1);
+});
@@ -26,6 +26,19 @@ const MVP_PACKAGES = [
   "@effect/schema",
 ];
 
+/**
+ * `--profile utility` or `--profile=utility` picks a scoring profile from
+ * scoring-profiles.json (SCORING_PROFILE otherwise)
+ */
+function parseProfileArg(args: string[]): string | undefined {
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    if (arg === "--profile") return args[index + 1];
+    if (arg.startsWith("--profile=")) return arg.slice("--profile=".length);
+  }
+  return undefined;
+}
+
 async function main() {
   console.log("╔═══════════════════════════════════════════════════════════╗");
   console.log("║         NPM Intel - Package Ingestion Script             ║");
@@ -34,7 +47,9 @@ async function main() {
   console.log("╚═══════════════════════════════════════════════════════════╝");
 
   try {
-    await indexPackages(MVP_PACKAGES);
+    await indexPackages(MVP_PACKAGES, {
+      scoringProfile: parseProfileArg(process.argv.slice(2)),
+    });
 
     console.log("🎉 Test ingestion complete!\n");
     console.log("Next steps:");
@@ -0,0 +1,140 @@
+import { Client } from "@elastic/elasticsearch";
+import * as dotenv from "dotenv";
+import { searchBackendKind } from "@npm-intel/shared/search";
+import { closeClient, indexPackages } from "../src/ingestion/indexer.js";
+import {
+  describeIndices,
+  migrateIndices,
+  rollbackIndices,
+} from "../src/ingestion/index-migration.js";
+import { SCHEMA_VERSION } from "../src/ingestion/index-schema.js";
+
+dotenv.config();
+
+const ELASTIC_CLOUD_ID = process.env.ELASTIC_CLOUD_ID;
+const ELASTIC_ENDPOINT = process.env.ELASTIC_ENDPOINT;
+const ELASTIC_API_KEY = process.env.ELASTIC_API_KEY;
+
+// Aliases and versioned indices only exist in Elasticsearch
+if (searchBackendKind() !== "elasticsearch") {
+  console.error("❌ Index migrations apply to SEARCH_BACKEND=elasticsearch only");
+  process.exit(1);
+}
+
+if (!ELASTIC_API_KEY) {
+  console.error("❌ Missing required environment variables");
+  console.error("   - ELASTIC_API_KEY");
+  process.exit(1);
+}
+
+if (!ELASTIC_CLOUD_ID && !ELASTIC_ENDPOINT) {
+  console.error(
+    "❌ You must provide either ELASTIC_CLOUD_ID or ELASTIC_ENDPOINT",
+  );
+  process.exit(1);
+}
+
+// Support both Cloud ID and direct endpoint URL
+const client = ELASTIC_CLOUD_ID
+  ? new Client({
+      cloud: { id: ELASTIC_CLOUD_ID },
+      auth: { apiKey: ELASTIC_API_KEY },
+    })
+  : new Client({
+      node: ELASTIC_ENDPOINT!,
+      auth: { apiKey: ELASTIC_API_KEY },
+    });
+
+/**
+ * npm run migrate:index                      reindex into SCHEMA_VERSION and swap aliases
+ * npm run migrate:index -- --reingest        re-ingest every package from npm instead
+ * npm run migrate:index -- --rollback [--to N]
+ * npm run migrate:index -- --status
+ */
+function parseArgs(args: string[]) {
+  const options = {
+    reingest: false,
+    rollback: false,
+    status: false,
+    to: undefined as number | undefined,
+    profile: undefined as string | undefined,
+  };
+
+  for (let index = 0; index < args.length; index += 1) {
+    const [flag, inline] = args[index].split(/=(.*)/s, 2);
+    const value = () => inline ?? args[++index] ?? "";
+
+    if (flag === "--reingest") options.reingest = true;
+    else if (flag === "--rollback") options.rollback = true;
+    else if (flag === "--status") options.status = true;
+    else if (flag === "--to") options.to = Number(value());
+    else if (flag === "--profile") options.profile = value();
+  }
+
+  return options;
+}
+
+async function printStatus() {
+  console.log(`📋 Index aliases (this code writes schema v${SCHEMA_VERSION}):\n`);
+  for (const state of await describeIndices(client)) {
+    const read = state.readIndex ?? (state.legacy ? `${state.family.alias} (unversioned index)` : "none");
+    console.log(`   ${state.family.alias} → ${read}`);
+    console.log(`   ${state.family.writeAlias} → ${state.writeIndex ?? "none"}`);
+    console.log(
+      `   versions: ${state.versions.length > 0 ? state.versions.map((version) => `v${version}`).join(", ") : "none"}\n`,
+    );
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  try {
+    if (options.status) {
+      await printStatus();
+      return;
+    }
+
+    if (options.rollback) {
+      const rollback = await rollbackIndices(client, options.to);
+      console.log(`✅ Rolled back from v${rollback.fromVersion} to v${rollback.toVersion}\n`);
+      await printStatus();
+      return;
+    }
+
+    const result = await migrateIndices(client, {
+      mode: options.reingest ? "reingest" : "reindex",
+      reingest: (specs) => indexPackages(specs, { scoringProfile: options.profile }),
+    });
+
+    console.log("\n" + "=".repeat(60));
+    console.log(`\n🎉 Migrated to schema v${result.toVersion}`);
+    for (const index of result.indices) {
+      console.log(`   ${index.source} (${index.sourceCount}) → ${index.target} (${index.targetCount})`);
+    }
+    for (const removed of result.removedLegacyIndices) {
+      console.log(`   🗑️  Replaced unversioned index ${removed} with its alias`);
+    }
+    for (const created of result.createdEmptyIndices) {
+      console.log(`   🆕 Created ${created} empty; nothing to migrate into it`);
+    }
+    if (result.fromVersion !== undefined) {
+      console.log(`\n   v${result.fromVersion} indices are kept; undo with: npm run migrate:index -- --rollback`);
+    }
+    console.log();
+  } catch (error: any) {
+    console.error("\n❌ Migration failed:", error.message);
+
+    if (error.meta?.body?.error) {
+      console.error("\nElasticsearch error details:");
+      console.error(JSON.stringify(error.meta.body.error, null, 2));
+    }
+
+    process.exitCode = 1;
+  } finally {
+    await client.close();
+    await closeClient();
+  }
+}
+
+main();
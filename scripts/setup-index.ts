@@ -1,5 +1,14 @@
 import { Client } from "@elastic/elasticsearch";
 import * as dotenv from "dotenv";
+import {
+  PACKAGE_INDEX_ALIAS,
+  PACKAGE_WRITE_ALIAS,
+  SYMBOL_INDEX_ALIAS,
+  SYMBOL_WRITE_ALIAS,
+} from "@npm-intel/shared/indices";
+import { searchBackendKind } from "@npm-intel/shared/search";
+import { createIndices, describeIndices } from "../src/ingestion/index-migration.js";
+import { SCHEMA_VERSION } from "../src/ingestion/index-schema.js";
 
 dotenv.config();
 
@@ -7,6 +16,11 @@ const ELASTIC_CLOUD_ID = process.env.ELASTIC_CLOUD_ID;
 const ELASTIC_ENDPOINT = process.env.ELASTIC_ENDPOINT;
 const ELASTIC_API_KEY = process.env.ELASTIC_API_KEY;
 
+if (searchBackendKind() === "opensearch") {
+  console.error("❌ SEARCH_BACKEND=opensearch: run npm run setup:opensearch instead");
+  process.exit(1);
+}
+
 if (!ELASTIC_API_KEY) {
   console.error("❌ Missing required environment variables:");
   console.error("   - ELASTIC_API_KEY");
@@ -38,159 +52,52 @@ const client = ELASTIC_CLOUD_ID
       auth: { apiKey: ELASTIC_API_KEY },
     });
 
-const INDEX_NAME = "npm-packages";
-
 async function setupIndex() {
   try {
-    console.log(`🔧 Setting up Elasticsearch index: ${INDEX_NAME}\n`);
-
-    // Check if index already exists
-    const indexExists = await client.indices.exists({ index: INDEX_NAME });
-
-    if (indexExists) {
-      console.log(`⚠️  Index '${INDEX_NAME}' already exists.`);
-      console.log("   Deleting and recreating...\n");
-
-      await client.indices.delete({ index: INDEX_NAME });
-      console.log("✅ Deleted existing index.\n");
+    console.log(`🔧 Setting up Elasticsearch indices (schema v${SCHEMA_VERSION})\n`);
+
+    const states = await describeIndices(client);
+    if (states.some((state) => state.readIndex || state.legacy)) {
+      // Recreating would take search down; a migration swaps aliases instead
+      console.log("⚠️  Indices already exist:");
+      for (const state of states) {
+        console.log(`   ${state.family.alias} → ${state.readIndex ?? (state.legacy ? "unversioned index" : "none")}`);
+      }
+      console.log("\n   To apply mapping changes, run: npm run migrate:index\n");
+      return;
     }
 
-    // Create the index with mappings
-    await client.indices.create({
-      index: INDEX_NAME,
-      mappings: {
-        properties: {
-          name: {
-            type: "keyword",
-          },
-          version: {
-            type: "keyword",
-          },
-          description: {
-            type: "text",
-          },
-          readme_content: {
-            type: "semantic_text",
-            inference_id: "gemini-embeddings",
-          },
-          keywords: {
-            type: "keyword",
-          },
-
-          // Repository metadata
-          repository_url: {
-            type: "keyword",
-          },
-          source_strategy: {
-            type: "keyword",
-          },
-
-          // Legacy exports (from .d.ts)
-          exports: {
-            type: "nested",
-            properties: {
-              kind: {
-                type: "keyword",
-              },
-              name: {
-                type: "keyword",
-              },
-              signature: {
-                type: "text",
-              },
-              jsdoc: {
-                type: "text",
-              },
-            },
-          },
-
-          // NEW: Actual source code symbols with implementations!
-          symbols: {
-            type: "nested",
-            properties: {
-              kind: {
-                type: "keyword",
-              },
-              name: {
-                type: "keyword",
-              },
-              signature: {
-                type: "text",
-              },
-              implementation: {
-                type: "text",
-              },
-              jsdoc: {
-                type: "text",
-              },
-              file_path: {
-                type: "keyword",
-              },
-              start_line: {
-                type: "integer",
-              },
-              end_line: {
-                type: "integer",
-              },
-              is_exported: {
-                type: "boolean",
-              },
-              parameters: {
-                type: "text",
-              },
-              return_type: {
-                type: "text",
-              },
-              relevance_score: {
-                type: "integer",
-              },
-            },
-          },
-
-          // Concatenated source code for semantic search
-          source_code_content: {
-            type: "semantic_text",
-            inference_id: "gemini-embeddings",
-          },
-
-          code_examples: {
-            type: "text",
-          },
-
-          // Statistics
-          total_symbols: {
-            type: "integer",
-          },
-          total_source_files: {
-            type: "integer",
-          },
-          total_source_size: {
-            type: "integer",
-          },
-        },
-      },
-    });
+    const created = await createIndices(client);
 
-    console.log(`✅ Successfully created index '${INDEX_NAME}'!`);
-    console.log("\n📋 Index mapping:");
+    console.log(`✅ Successfully created ${created.join(", ")}`);
+    console.log(`   Read aliases: ${PACKAGE_INDEX_ALIAS}, ${SYMBOL_INDEX_ALIAS}`);
+    console.log(`   Write aliases: ${PACKAGE_WRITE_ALIAS}, ${SYMBOL_WRITE_ALIAS}`);
+    console.log(`\n📋 ${PACKAGE_INDEX_ALIAS} mapping:`);
     console.log("   - name (keyword)");
     console.log("   - version (keyword)");
     console.log("   - description (text)");
     console.log("   - readme_content (semantic_text) → Gemini embeddings");
     console.log("   - keywords (keyword[])");
     console.log("   - repository_url, source_strategy (keyword)");
-    console.log("   - exports (nested) - legacy from .d.ts");
+    console.log("   - source_ref, source_commit (keyword) - git provenance");
+    console.log("   - entry_points (keyword[]) - import specifiers like hono/cors");
+    console.log("   - exports (nested) - from every .d.ts entry point");
     console.log("   - symbols (nested) - 🆕 ACTUAL SOURCE CODE!");
     console.log("     - implementation (text), signature, jsdoc, file_path");
+    console.log("     - parent, visibility, is_static - class members (method, property, getter, constructor)");
     console.log(
       "   - source_code_content (semantic_text) → ALL implementations embedded!",
     );
     console.log("   - code_examples (text)");
+    console.log("   - file_decisions (stored only) - minified/bundled/generated files");
     console.log("   - total_symbols, total_source_files, total_source_size\n");
 
-    // Verify the index
-    const indexInfo = await client.indices.get({ index: INDEX_NAME });
-    console.log("✅ Index verified and ready for ingestion!\n");
+    console.log(`📋 ${SYMBOL_INDEX_ALIAS} mapping:`);
+    console.log(`   - package, version, package_version (keyword) - join to ${PACKAGE_INDEX_ALIAS}`);
+    console.log("   - the symbol fields above, one document per symbol (or chunk)");
+    console.log("   - search_text (semantic_text) → one embedding per symbol\n");
+
+    console.log("✅ Indices verified and ready for ingestion!\n");
 
     console.log("🎉 Setup complete! You can now run: npm run ingest\n");
   } catch (error: any) {
@@ -0,0 +1,73 @@
+import { Client } from "@opensearch-project/opensearch";
+import * as dotenv from "dotenv";
+import {
+  PACKAGE_INDEX_ALIAS,
+  PACKAGE_WRITE_ALIAS,
+  SYMBOL_INDEX_ALIAS,
+  SYMBOL_WRITE_ALIAS,
+} from "@npm-intel/shared/indices";
+import {
+  HASHED_EMBEDDING_MODEL,
+  PACKAGE_VECTOR_FIELD,
+  SYMBOL_VECTOR_FIELD,
+  embedderFromEnv,
+} from "@npm-intel/shared/search";
+import { SCHEMA_VERSION } from "../src/ingestion/index-schema.js";
+import { createOpenSearchIndices } from "../src/ingestion/opensearch-indices.js";
+
+dotenv.config();
+
+const OPENSEARCH_NODE = process.env.OPENSEARCH_NODE;
+const OPENSEARCH_USERNAME = process.env.OPENSEARCH_USERNAME;
+const OPENSEARCH_PASSWORD = process.env.OPENSEARCH_PASSWORD;
+
+if (!OPENSEARCH_NODE) {
+  console.error("❌ Missing required environment variables:");
+  console.error("   - OPENSEARCH_NODE (e.g. https://localhost:9200)");
+  process.exit(1);
+}
+
+const client = new Client({
+  node: OPENSEARCH_NODE,
+  ...(OPENSEARCH_USERNAME
+    ? { auth: { username: OPENSEARCH_USERNAME, password: OPENSEARCH_PASSWORD ?? "" } }
+    : {}),
+});
+
+async function setupOpenSearch() {
+  try {
+    const embedder = embedderFromEnv();
+    console.log(`🔧 Setting up OpenSearch indices (schema v${SCHEMA_VERSION})\n`);
+    console.log(`   Embeddings: ${embedder.model} (${embedder.dimensions} dimensions)`);
+    if (embedder.model === HASHED_EMBEDDING_MODEL) {
+      console.log("   ⚠️  No GEMINI_API_KEY: hashed vectors match shared words, not meaning");
+    }
+    console.log();
+
+    const created = await createOpenSearchIndices(client, embedder);
+
+    console.log(`✅ Successfully created ${created.join(", ")}`);
+    console.log(`   Read aliases: ${PACKAGE_INDEX_ALIAS}, ${SYMBOL_INDEX_ALIAS}`);
+    console.log(`   Write aliases: ${PACKAGE_WRITE_ALIAS}, ${SYMBOL_WRITE_ALIAS}`);
+    console.log("\n📋 Same fields as the Elasticsearch mappings, except:");
+    console.log("   - semantic_text fields (readme_content, source_code_content, search_text) are plain text");
+    console.log(`   - ${PACKAGE_INDEX_ALIAS}.${PACKAGE_VECTOR_FIELD} (knn_vector) → package metadata + README`);
+    console.log(`   - ${SYMBOL_INDEX_ALIAS}.${SYMBOL_VECTOR_FIELD} (knn_vector) → one embedding per symbol\n`);
+
+    console.log("🎉 Setup complete! You can now run: SEARCH_BACKEND=opensearch npm run ingest\n");
+  } catch (error: any) {
+    console.error("❌ Error setting up OpenSearch indices:");
+    console.error(error.message);
+
+    if (error.meta?.body?.error) {
+      console.error("\nOpenSearch error details:");
+      console.error(JSON.stringify(error.meta.body.error, null, 2));
+    }
+
+    process.exit(1);
+  } finally {
+    await client.close();
+  }
+}
+
+setupOpenSearch();
@@ -1,30 +1,26 @@
-import type { Client } from "@elastic/elasticsearch";
 import type { GenerativeModel } from "@google/generative-ai";
-
-type ElasticDoc = {
-  name: string;
-  version: string;
-  description?: string;
-  readme_content?: unknown;
-  code_examples?: unknown;
-  exports?: Array<{
-    kind: string;
-    name: string;
-    signature?: string;
-    jsdoc?: string;
-  }>;
-};
+import {
+  resolveStoredVersion,
+  type PackageRecord,
+  type SearchBackend,
+  type SymbolRecord,
+} from "./search-backend.js";
 
 export interface AnswerRequest {
   intent: string;
   packageName: string;
+  /** Exact version or semver range; defaults to the newest indexed version */
+  version?: string;
   searchQuery?: string;
   maxSnippets?: number;
+  /** Restrict grounding to symbols reachable from this import specifier ("hono/cors") */
+  entryPoint?: string;
 }
 
 export interface AnswerResponse {
   intent: string;
   packageName: string;
+  version?: string;
   searchQuery: string;
   code: string;
   context: Array<{
@@ -34,6 +30,12 @@ export interface AnswerResponse {
     jsdoc?: string;
     signature?: string;
     is_exported: boolean;
+    entry_points?: string[];
+    source_url?: string;
+    parent?: string;
+    inferred_signature?: string;
+    examples?: string[];
+    deprecated?: boolean;
   }>;
   grounded: boolean;
   note?: string;
@@ -49,15 +51,157 @@ export type SymbolMatch = {
   implementation?: string;
   jsdoc?: string;
   signature?: string;
+  entry_points?: string[];
+  source_url?: string;
+  /** Class a method or property belongs to */
+  parent?: string;
+  /** Names the symbol is exported under from the package entry points */
+  exported_names?: string[];
+  /** Signature with the types the checker inferred, when they add something */
+  inferred_signature?: string;
+  /** Code of the symbol's `@example` doc blocks */
+  examples?: string[];
+  deprecated?: boolean;
+  deprecation_reason?: string;
+  /** Position of a piece of a split implementation; pieces share `chunk_group` */
+  chunk_index?: number;
+  chunk_count?: number;
+  chunk_header?: string;
+  chunk_group?: string;
+  /** "file#Qualified.name", what the edge fields below point at */
+  symbol_id?: string;
+  calls?: string[];
+  called_by?: string[];
+  extends?: string[];
+  implements?: string[];
+  references_types?: string[];
+  /** Set on symbols pulled in as the neighbor of a match */
+  related?: { relation: SymbolRelation; from: string };
 };
 
+export type SymbolRelation = "calls" | "called_by" | "extends" | "implements" | "references_types";
+
+const MAX_IMPLEMENTATION_CHARS = 600;
+const MAX_CHUNKED_IMPLEMENTATION_CHARS = 1800;
+
+function toSymbolMatch(symbol: SymbolRecord): SymbolMatch {
+  return {
+    name: symbol.name,
+    kind: symbol.kind,
+    file_path: symbol.file_path,
+    snippet: (symbol.implementation || "").slice(0, 160),
+    is_exported: Boolean(symbol.is_exported),
+    relevance_score: symbol.relevance_score,
+    implementation: symbol.implementation,
+    jsdoc: symbol.jsdoc,
+    signature: symbol.signature,
+    entry_points: symbol.entry_points,
+    source_url: symbol.source_url,
+    parent: symbol.parent,
+    exported_names: symbol.exported_names,
+    inferred_signature: symbol.inferred_signature,
+    examples: symbol.examples,
+    deprecated: symbol.deprecated,
+    deprecation_reason: symbol.deprecation_reason,
+    chunk_index: symbol.chunk_index,
+    chunk_count: symbol.chunk_count,
+    chunk_header: symbol.chunk_header,
+    chunk_group: symbol.chunk_group,
+    symbol_id: symbol.symbol_id,
+    calls: symbol.calls,
+    called_by: symbol.called_by,
+    extends: symbol.extends,
+    implements: symbol.implements,
+    references_types: symbol.references_types,
+  };
+}
+
+/**
+ * Widen matched chunks of a split implementation to their neighbors and join
+ * them under the shared header. Several matches in one symbol become one.
+ */
+function joinChunks(matches: SymbolMatch[], pool: SymbolMatch[]): SymbolMatch[] {
+  const joined: SymbolMatch[] = [];
+  const seenGroups = new Set<string>();
+
+  for (const match of matches) {
+    const group = match.chunk_group;
+    if (!group || match.chunk_index === undefined || match.chunk_header === undefined) {
+      joined.push(match);
+      continue;
+    }
+    if (seenGroups.has(group)) continue;
+    seenGroups.add(group);
+
+    const matchedIndices = matches
+      .filter((other) => other.chunk_group === group)
+      .map((other) => other.chunk_index!);
+    const pieces = new Map<number, SymbolMatch>();
+    for (const chunk of [...pool, ...matches]) {
+      if (
+        chunk.chunk_group === group &&
+        matchedIndices.some((index) => Math.abs(index - chunk.chunk_index!) <= 1)
+      ) {
+        pieces.set(chunk.chunk_index!, chunk);
+      }
+    }
+
+    const header = match.chunk_header;
+    const ordered = [...pieces.values()].sort((a, b) => a.chunk_index! - b.chunk_index!);
+    const bodies: string[] = [];
+    ordered.forEach((piece, i) => {
+      // Mark the parts of the implementation left out
+      if (i === 0 ? piece.chunk_index! > 0 : piece.chunk_index! > ordered[i - 1].chunk_index! + 1) {
+        bodies.push("  // ...");
+      }
+      bodies.push((piece.implementation || "").slice(header.length + 1));
+    });
+    if (ordered[ordered.length - 1].chunk_index! < (match.chunk_count ?? 0) - 1) {
+      bodies.push("  // ...");
+    }
+
+    joined.push({
+      ...match,
+      // The doc comment travels with the first chunk
+      jsdoc: ordered.find((piece) => piece.jsdoc)?.jsdoc ?? match.jsdoc,
+      implementation: [header, ...bodies].join("\n"),
+    });
+  }
+
+  return joined;
+}
+
+/**
+ * Load the neighboring chunks of matched pieces from the backend
+ */
+async function withNeighborChunks(
+  backend: SearchBackend,
+  docId: string,
+  matches: SymbolMatch[],
+): Promise<SymbolMatch[]> {
+  const groups = [...new Set(matches.flatMap((match) => (match.chunk_group ? [match.chunk_group] : [])))];
+  if (groups.length === 0) return matches;
+
+  try {
+    const pool = (await backend.getSymbols({ docId, chunkGroups: groups })).map(toSymbolMatch);
+    return joinChunks(matches, pool);
+  } catch (error) {
+    console.warn("Neighbor chunk fetch failed:", (error as Error).message);
+    return joinChunks(matches, []);
+  }
+}
+
 export interface AnswerServiceOptions {
-  esClient: Client;
-  indexName: string;
+  backend: SearchBackend;
   generativeModel?: GenerativeModel | null;
   generativeModels?: GenerativeModel[];
   maxRetries?: number;
   allowUngroundedFallback?: boolean;
+  /**
+   * Without a model, answer with the grounded signatures and examples
+   * instead of an error (offline use)
+   */
+  allowExtractiveAnswers?: boolean;
 }
 
 export function extractTextField(value: unknown): string {
@@ -78,244 +222,191 @@ export function extractTextField(value: unknown): string {
   return "";
 }
 
+/**
+ * The symbols of one indexed package version that best match a query,
+ * with split implementations widened to their neighboring chunks
+ */
 export async function fetchSymbolContext({
-  esClient,
-  indexName,
+  backend,
   docId,
   query,
   maxSnippets,
+  entryPoint,
 }: {
-  esClient: Client;
-  indexName: string;
+  backend: SearchBackend;
+  /** Id of the package version ("zod@3.23.8") */
   docId: string;
   query: string;
   maxSnippets: number;
+  entryPoint?: string;
 }): Promise<SymbolMatch[]> {
-  const response = await esClient.search({
-    index: indexName,
-    size: 1,
-    query: {
-      bool: {
-        must: [
-          {
-            ids: {
-              values: [docId],
-            },
-          },
-        ],
-        should: [
-          {
-            nested: {
-              path: "symbols",
-              query: {
-                multi_match: {
-                  query,
-                  fields: [
-                    "symbols.name^3",
-                    "symbols.implementation^2",
-                    "symbols.signature",
-                    "symbols.jsdoc",
-                  ],
-                },
-              },
-              inner_hits: {
-                size: maxSnippets,
-                _source: [
-                  "symbols.name",
-                  "symbols.kind",
-                  "symbols.file_path",
-                  "symbols.implementation",
-                  "symbols.is_exported",
-                  "symbols.relevance_score",
-                  "symbols.jsdoc",
-                  "symbols.signature",
-                ],
-              },
-            },
-          },
-        ],
-      },
-    },
-    _source: false,
-  } as any);
-
-  const innerHits =
-    (response as any).hits.hits?.[0]?.inner_hits?.symbols?.hits?.hits ??
-    [];
-
-  if (innerHits.length > 0) {
-    return innerHits.map((symbol: any) => ({
-      name: symbol._source.name,
-      kind: symbol._source.kind,
-      file_path: symbol._source.file_path,
-      snippet: (symbol._source.implementation || "").slice(0, 160),
-      is_exported: symbol._source.is_exported,
-      relevance_score: symbol._source.relevance_score,
-      implementation: symbol._source.implementation,
-      jsdoc: symbol._source.jsdoc,
-      signature: symbol._source.signature,
-    }));
+  const matches = (await backend.searchSymbols({ docId, query, size: maxSnippets, entryPoint })).map(
+    toSymbolMatch,
+  );
+  if (matches.length > 0) {
+    return withNeighborChunks(backend, docId, matches);
   }
 
   try {
-    const doc = await esClient.get({
-      index: indexName,
-      id: docId,
-      _source_includes: ["symbols"],
-    });
-
-    const symbols = ((doc as any)?._source?.symbols || []) as any[];
-    return symbols
-      .slice(0, maxSnippets)
-      .map((symbol) => ({
-        name: symbol.name,
-        kind: symbol.kind,
-        file_path: symbol.file_path,
-        snippet: (symbol.implementation || "").slice(0, 160),
-        is_exported: symbol.is_exported,
-        relevance_score: symbol.relevance_score,
-        implementation: symbol.implementation,
-        jsdoc: symbol.jsdoc,
-        signature: symbol.signature,
-      }));
+    const top = (await backend.topSymbols({ docId, size: maxSnippets, entryPoint })).map(toSymbolMatch);
+    return withNeighborChunks(backend, docId, top);
   } catch {
     return [];
   }
 }
 
+// Delegated-to helpers first, then base types, then callers and mentioned types
+const RELATION_ORDER: SymbolRelation[] = ["calls", "extends", "implements", "called_by", "references_types"];
+const DEFAULT_NEIGHBORHOOD_TOKENS = 1200;
+
+const RELATION_PHRASES: Record<SymbolRelation, string> = {
+  calls: "calls",
+  called_by: "is called by",
+  extends: "extends",
+  implements: "implements",
+  references_types: "uses type",
+};
+
+/**
+ * Rough token count of what a symbol adds to a prompt
+ */
+function estimateSymbolTokens(symbol: SymbolMatch): number {
+  const text = [symbol.signature, symbol.jsdoc, symbol.implementation].filter(Boolean).join("\n");
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Expand matched symbols to their one-hop neighborhood in the call and type
+ * graph (what they call, extend or implement, who calls them, the types they
+ * mention), adding neighbors in that order while they fit in `tokenBudget`
+ */
+export async function fetchSymbolNeighborhood({
+  backend,
+  docId,
+  symbols,
+  tokenBudget = DEFAULT_NEIGHBORHOOD_TOKENS,
+}: {
+  backend: SearchBackend;
+  docId: string;
+  symbols: SymbolMatch[];
+  tokenBudget?: number;
+}): Promise<SymbolMatch[]> {
+  const seen = new Set(symbols.flatMap((symbol) => (symbol.symbol_id ? [symbol.symbol_id] : [])));
+  const candidates: Array<{ id: string; relation: SymbolRelation; from: string }> = [];
+  for (const relation of RELATION_ORDER) {
+    for (const symbol of symbols) {
+      for (const id of symbol[relation] ?? []) {
+        if (seen.has(id)) continue;
+        seen.add(id);
+        candidates.push({ id, relation, from: symbol.symbol_id!.split("#")[1] });
+      }
+    }
+  }
+  if (candidates.length === 0) return [];
+
+  let neighbors: SymbolMatch[];
+  try {
+    neighbors = (
+      await backend.getSymbols({ docId, symbolIds: candidates.map((candidate) => candidate.id) })
+    ).map(toSymbolMatch);
+  } catch (error) {
+    console.warn("Symbol neighborhood fetch failed:", (error as Error).message);
+    return [];
+  }
+
+  // A split neighbor is represented by its first chunk
+  const byId = new Map<string, SymbolMatch>();
+  for (const neighbor of neighbors) {
+    const current = byId.get(neighbor.symbol_id!);
+    if (!current || (neighbor.chunk_index ?? 0) < (current.chunk_index ?? 0)) {
+      byId.set(neighbor.symbol_id!, neighbor);
+    }
+  }
+
+  const expanded: SymbolMatch[] = [];
+  let remaining = tokenBudget;
+  for (const candidate of candidates) {
+    const neighbor = byId.get(candidate.id);
+    if (!neighbor) continue;
+    const cost = estimateSymbolTokens(neighbor);
+    if (cost > remaining) continue;
+    remaining -= cost;
+    expanded.push({ ...neighbor, related: { relation: candidate.relation, from: candidate.from } });
+  }
+
+  return expanded;
+}
+
 async function findRelevantCode(
-  esClient: Client,
-  indexName: string,
+  backend: SearchBackend,
   packageName: string,
   query: string,
   maxSnippets: number,
+  entryPoint?: string,
+  version?: string,
 ): Promise<
   | {
-      source: ElasticDoc;
+      source: PackageRecord;
       symbols: SymbolMatch[];
       readme: string;
       codeExamples: string;
-      exports: ElasticDoc["exports"];
+      exports: PackageRecord["exports"];
     }
   | null
 > {
-  const response = await esClient.search({
-    index: indexName,
-    size: 1,
-    query: {
-      bool: {
-        must: [
-          {
-            match: {
-              name: packageName,
-            },
-          },
-        ],
-        should: [
-          {
-            nested: {
-              path: "symbols",
-              query: {
-                multi_match: {
-                  query,
-                  fields: [
-                    "symbols.name^3",
-                    "symbols.implementation^2",
-                    "symbols.signature",
-                    "symbols.jsdoc",
-                  ],
-                },
-              },
-              inner_hits: {
-                size: maxSnippets,
-                _source: [
-                  "symbols.name",
-                  "symbols.kind",
-                  "symbols.file_path",
-                  "symbols.jsdoc",
-                  "symbols.signature",
-                  "symbols.implementation",
-                  "symbols.is_exported",
-                ],
-              },
-            },
-          },
-          {
-            semantic: {
-              field: "source_code_content",
-              query,
-            },
-          },
-        ],
-      },
-    },
-    _source: ["name", "version", "description", "readme_content", "code_examples", "exports"],
-  } as any);
+  const resolvedVersion = await resolveStoredVersion(backend, packageName, version);
+  if (!resolvedVersion) {
+    return null;
+  }
 
-  const hit = (response as any).hits.hits?.[0];
-  if (!hit) {
+  const stored = await backend.getPackage(packageName, resolvedVersion);
+  if (!stored) {
     return null;
   }
 
-  let symbols = (hit.inner_hits?.symbols?.hits?.hits ?? []).map((inner: any) => ({
-    name: inner._source.name,
-    kind: inner._source.kind,
-    file_path: inner._source.file_path,
-    snippet: (inner._source.implementation || "").slice(0, 160),
-    is_exported: inner._source.is_exported,
-    relevance_score: inner._source.relevance_score,
-    implementation: inner._source.implementation,
-    jsdoc: inner._source.jsdoc,
-    signature: inner._source.signature,
-  })) as SymbolMatch[];
-
-  let docSource: ElasticDoc = hit._source;
-
-  if (symbols.length === 0) {
+  const docSource = stored.package;
+  let symbols = (
+    await backend.searchSymbols({ docId: stored.id, query, size: maxSnippets, entryPoint })
+  ).map(toSymbolMatch);
+
+  if (symbols.length > 0) {
+    symbols = await withNeighborChunks(backend, stored.id, symbols);
+    // Helpers the matches delegate to, their base classes and public callers
+    symbols.push(...(await fetchSymbolNeighborhood({ backend, docId: stored.id, symbols })));
+  } else {
     try {
-      const doc = await esClient.get({
-        index: indexName,
-        id: hit._id,
-        _source_includes: ["symbols", "name", "version", "description", "readme_content", "code_examples", "exports"],
-      });
-
-      const docSourceFull = (doc as any)?._source ?? {};
-      docSource = docSourceFull;
-      const allSymbols = (docSourceFull?.symbols || []) as any[];
-      symbols = allSymbols
-        .filter((symbol) => typeof symbol?.implementation === "string" && symbol.implementation.length > 0)
-        .sort(
-          (a, b) =>
-            (b.relevance_score ?? 0) - (a.relevance_score ?? 0),
-        )
-        .slice(0, maxSnippets)
-        .map((symbol) => ({
-          name: symbol.name,
-          kind: symbol.kind,
-          file_path: symbol.file_path,
-          snippet: (symbol.implementation || "").slice(0, 160),
-          is_exported: symbol.is_exported,
-          relevance_score: symbol.relevance_score,
-          implementation: symbol.implementation,
-          jsdoc: symbol.jsdoc,
-          signature: symbol.signature,
-        }));
+      const top = (
+        await backend.topSymbols({ docId: stored.id, size: maxSnippets, entryPoint })
+      ).map(toSymbolMatch);
+      symbols = await withNeighborChunks(backend, stored.id, top);
     } catch (error) {
       console.warn("Fallback symbol fetch failed:", (error as Error).message);
     }
   }
 
+  const exports = docSource.exports ?? [];
+  const entryExports = entryPoint
+    ? exports.filter((exported) => exported.import_path === entryPoint)
+    : [];
+
   return {
     source: docSource,
     symbols,
     readme: extractTextField(docSource.readme_content),
     codeExamples: extractTextField(docSource.code_examples),
-    exports: docSource.exports ?? [],
+    exports: entryExports.length > 0 ? entryExports : exports,
   };
 }
 
 export function createAnswerService(options: AnswerServiceOptions) {
-  const { esClient, indexName, generativeModel, generativeModels, maxRetries = 1, allowUngroundedFallback = false } = options;
+  const {
+    backend,
+    generativeModel,
+    generativeModels,
+    maxRetries = 1,
+    allowUngroundedFallback = false,
+    allowExtractiveAnswers = false,
+  } = options;
 
   const models: GenerativeModel[] = [];
   if (generativeModels && generativeModels.length > 0) {
@@ -328,33 +419,99 @@ export function createAnswerService(options: AnswerServiceOptions) {
     async generateAnswer(
       payload: AnswerRequest,
     ): Promise<AnswerResponse | { error: string }> {
-      if (models.length === 0) {
+      if (models.length === 0 && !allowExtractiveAnswers) {
         return { error: "Gemini API key not configured" };
       }
 
       const searchQuery = payload.searchQuery?.trim() || payload.intent;
       const maxSnippets = payload.maxSnippets ?? 3;
-      const context = await findRelevantCode(esClient, indexName, payload.packageName, searchQuery, maxSnippets);
+      const context = await findRelevantCode(
+        backend,
+        payload.packageName,
+        searchQuery,
+        maxSnippets,
+        payload.entryPoint,
+        payload.version,
+      );
 
       const hasGroundedContext = Boolean(context && context.symbols.length > 0);
 
       if (!hasGroundedContext && !allowUngroundedFallback) {
         return {
-          error: `No relevant symbols found for ${payload.packageName} with query "${searchQuery}"`,
+          error: `No relevant symbols found for ${payload.packageName}${
+            payload.version ? `@${payload.version}` : ""
+          } with query "${searchQuery}"`,
         };
       }
 
       const groundedContext = hasGroundedContext && context ? context : null;
+      const responseContext: AnswerResponse["context"] = groundedContext
+        ? groundedContext.symbols.map((symbol) => ({
+            name: symbol.name,
+            kind: symbol.kind,
+            file_path: symbol.file_path,
+            jsdoc: symbol.jsdoc,
+            signature: symbol.signature,
+            is_exported: symbol.is_exported,
+            entry_points: symbol.entry_points,
+            source_url: symbol.source_url,
+            parent: symbol.parent,
+            inferred_signature: symbol.inferred_signature,
+            examples: symbol.examples,
+            deprecated: symbol.deprecated,
+          }))
+        : [];
+
+      if (models.length === 0) {
+        if (!groundedContext) {
+          return {
+            error: `No relevant symbols found for ${payload.packageName}${
+              payload.version ? `@${payload.version}` : ""
+            } with query "${searchQuery}", and no language model is configured`,
+          };
+        }
+        return {
+          intent: payload.intent,
+          packageName: payload.packageName,
+          version: groundedContext.source.version,
+          searchQuery,
+          code: extractiveAnswer(groundedContext.source, groundedContext.symbols),
+          context: responseContext,
+          grounded: true,
+          note: "No language model configured; these are the matching APIs and their documented examples.",
+        };
+      }
 
       const symbolsContext = groundedContext
         ? groundedContext.symbols
         .map((symbol) => {
-          const implementation = (symbol.implementation || "").slice(0, 600);
+          // Joined chunks carry up to three pieces of a large implementation
+          const implementation = (symbol.implementation || "").slice(
+            0,
+            symbol.chunk_group ? MAX_CHUNKED_IMPLEMENTATION_CHARS : MAX_IMPLEMENTATION_CHARS,
+          );
+          const qualifiedName = symbol.parent ? `${symbol.parent}.${symbol.name}` : symbol.name;
+          // Renamed or namespaced exports are what callers actually import
+          const exportedAs = symbol.exported_names?.some((name) => name !== qualifiedName)
+            ? ` (exported as ${symbol.exported_names.join(", ")})`
+            : "";
           return [
-            `// ${symbol.is_exported ? "Public API" : "Internal"} ${symbol.kind} ${symbol.name}`,
-            `// File: ${symbol.file_path}`,
+            `// ${symbol.is_exported ? "Public API" : "Internal"} ${symbol.kind} ${qualifiedName}${exportedAs}`,
+            symbol.deprecated
+              ? `// Deprecated${symbol.deprecation_reason ? `: ${symbol.deprecation_reason}` : ""}`
+              : "",
+            symbol.related
+              ? `// Related: ${symbol.related.from} ${RELATION_PHRASES[symbol.related.relation]} ${qualifiedName}`
+              : "",
+            `// File: ${symbol.source_url || symbol.file_path}`,
+            symbol.entry_points && symbol.entry_points.length > 0
+              ? `// Import from: ${symbol.entry_points.map((specifier) => `"${specifier}"`).join(" or ")}`
+              : "",
             symbol.jsdoc || "",
             symbol.signature || "",
+            symbol.inferred_signature && symbol.inferred_signature !== symbol.signature
+              ? `// Inferred: ${symbol.inferred_signature}`
+              : "",
             implementation,
           ]
             .filter(Boolean)
@@ -368,13 +525,30 @@ export function createAnswerService(options: AnswerServiceOptions) {
             .slice(0, 10)
             .map(
               (ex) =>
-                `${ex.kind} ${ex.name}${ex.signature ? ` — ${ex.signature}` : ""}${
+                `${ex.kind} ${ex.name}${ex.import_path ? ` (import from "${ex.import_path}")` : ""}${
+                  ex.signature ? ` — ${ex.signature}` : ""
+                }${
                   ex.jsdoc ? `\n${ex.jsdoc}` : ""
                 }`,
             )
             .join("\n\n")
         : "";
 
+      // Subpath specifiers the grounded symbols are imported from; only these warrant the subpath rule
+      const subpathSpecifiers = groundedContext
+        ? [
+            ...new Set(
+              groundedContext.symbols
+                .flatMap((symbol) => symbol.entry_points ?? [])
+                .filter((specifier) => specifier !== groundedContext.source.name),
+            ),
+          ]
+        : [];
+      const importInstruction =
+        subpathSpecifiers.length > 0
+          ? `\nImport each API from the module specifier listed next to it (for example "${subpathSpecifiers[0]}"); APIs listed under a subpath are not exported from the package root.`
+          : "";
+
       const readmeExcerpt = groundedContext && groundedContext.readme ? groundedContext.readme.slice(0, 2000) : "";
       const codeExamples = groundedContext && groundedContext.codeExamples ? groundedContext.codeExamples.slice(0, 1200) : "";
 
@@ -390,18 +564,21 @@ ${readmeExcerpt || "(no README data provided)"}
 CODE EXAMPLES:
 ${codeExamples || "(no code examples provided)"}
 
+ENTRY POINTS:
+${groundedContext.source.entry_points?.join(", ") || groundedContext.source.name}
+
 EXPORTED API SURVEY:
 ${exportsContext || "(no export metadata available)"}
 
 AVAILABLE IMPLEMENTATIONS:
 ${symbolsContext || "(no implementation snippets available)"}
 
-Write a concise explanation of the approach (2-3 sentences) followed by a TypeScript example that satisfies the intent using only the APIs shown above.
+Write a concise explanation of the approach (2-3 sentences) followed by a TypeScript example that satisfies the intent using only the APIs shown above.${importInstruction}
 If the context is insufficient, reply with "INSUFFICIENT_CONTEXT: reason".
 Include brief inline comments if it clarifies the flow.`
         : `You are a TypeScript assistant.
 
-PACKAGE: ${payload.packageName}
+PACKAGE: ${payload.packageName}${payload.version ? `@${payload.version}` : ""}
 INTENT: ${payload.intent}
 
 No grounded source snippets were available. Produce the best-effort TypeScript example based on your general knowledge.
@@ -420,18 +597,10 @@ No grounded source snippets were available. Produce the best-effort TypeScript e
             return {
               intent: payload.intent,
               packageName: payload.packageName,
+              version: context?.source.version,
               searchQuery,
               code: answer.trim(),
-              context: groundedContext
-                ? groundedContext.symbols.map((symbol) => ({
-                    name: symbol.name,
-                    kind: symbol.kind,
-                    file_path: symbol.file_path,
-                    jsdoc: symbol.jsdoc,
-                    signature: symbol.signature,
-                    is_exported: symbol.is_exported,
-                  }))
-                : [],
+              context: responseContext,
               grounded: hasGroundedContext,
               note: hasGroundedContext
                 ? undefined
@@ -458,6 +627,34 @@ No grounded source snippets were available. Produce the best-effort TypeScript e
   };
 }
 
+/**
+ * The matched symbols' signatures and doc examples as a code block, for
+ * answering without a model
+ */
+function extractiveAnswer(source: PackageRecord, symbols: SymbolMatch[]): string {
+  const blocks = symbols
+    .filter((symbol) => !symbol.related)
+    .map((symbol) => {
+      const qualifiedName = symbol.parent ? `${symbol.parent}.${symbol.name}` : symbol.name;
+      const importFrom = symbol.entry_points?.[0] ?? source.name;
+      return [
+        `// ${symbol.kind} ${qualifiedName} (import from "${importFrom}")${symbol.deprecated ? " — deprecated" : ""}`,
+        symbol.inferred_signature || symbol.signature || "",
+        ...(symbol.examples ?? []).slice(0, 1),
+      ]
+        .filter(Boolean)
+        .join("\n");
+    });
+
+  return [
+    `Closest APIs in ${source.name}@${source.version}:`,
+    "",
+    "```ts",
+    blocks.join("\n\n"),
+    "```",
+  ].join("\n");
+}
+
 function isRetryableGeminiError(error: unknown): boolean {
   if (!(error instanceof Error)) return false;
   const message = error.message.toLowerCase();
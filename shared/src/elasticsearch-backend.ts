@@ -0,0 +1,290 @@
+import type { Client, estypes } from "@elastic/elasticsearch";
+import {
+  PACKAGE_INDEX_ALIAS,
+  PACKAGE_WRITE_ALIAS,
+  SYMBOL_INDEX_ALIAS,
+  SYMBOL_WRITE_ALIAS,
+} from "./indices.js";
+import {
+  PACKAGE_FALLBACK_FIELDS,
+  PACKAGE_SOURCE_FIELDS,
+  PACKAGE_TEXT_FIELDS,
+  SYMBOL_SOURCE_FIELDS,
+  packageFilter,
+  packageSymbolsFilter,
+  symbolHits,
+  symbolKeywordQuery,
+  symbolLookupQuery,
+  topSymbolsQuery,
+} from "./query-dsl.js";
+import type {
+  PackageRecord,
+  PackageSearchHit,
+  SearchBackend,
+  StoredPackage,
+  SymbolRecord,
+  SymbolSearch,
+} from "./search-backend.js";
+import { listIndexedVersions } from "./versions.js";
+
+export interface ElasticsearchBackendOptions {
+  client: Client;
+  /** Read alias of the package index */
+  indexName?: string;
+  /** Read alias of the per-symbol index */
+  symbolIndexName?: string;
+  /** Write aliases; a missing alias fails the write instead of creating an index */
+  writeIndexName?: string;
+  symbolWriteIndexName?: string;
+}
+
+/** Index with one document per symbol, joined to its package by `package_version` (read alias) */
+export const DEFAULT_SYMBOL_INDEX = SYMBOL_INDEX_ALIAS;
+
+/**
+ * The package documents of a search response with their id and score;
+ * hits without `_source` are left out
+ */
+function packageHits(response: estypes.SearchResponse<PackageRecord>): PackageSearchHit[] {
+  return response.hits.hits.flatMap((hit) =>
+    hit._id && hit._source ? [{ id: hit._id, score: hit._score ?? 0, package: hit._source }] : [],
+  );
+}
+
+/**
+ * Packages and symbols in Elasticsearch: semantic_text fields embedded by the
+ * cluster's inference endpoint and RRF retrievers merging text and semantic
+ * matches
+ */
+export function createElasticsearchBackend(options: ElasticsearchBackendOptions): SearchBackend {
+  const {
+    client,
+    indexName = PACKAGE_INDEX_ALIAS,
+    symbolIndexName = DEFAULT_SYMBOL_INDEX,
+    writeIndexName = PACKAGE_WRITE_ALIAS,
+    symbolWriteIndexName = SYMBOL_WRITE_ALIAS,
+  } = options;
+
+  /**
+   * Replace the symbol documents of one package version, through the bulk
+   * helper
+   */
+  async function writeSymbols(docId: string, documents: SymbolRecord[], signal?: AbortSignal) {
+    // Symbols a re-index no longer finds must not linger
+    await client.deleteByQuery(
+      {
+        index: symbolWriteIndexName,
+        query: { term: { package_version: docId } },
+        conflicts: "proceed",
+        refresh: true,
+      },
+      { ignore: [404], signal },
+    );
+    if (documents.length === 0) return { symbolsWritten: 0, failedSymbols: [] };
+    signal?.throwIfAborted();
+
+    const dropped: string[] = [];
+    const stats = await client.helpers.bulk<SymbolRecord>({
+      datasource: documents,
+      // Chunks of a symbol share its id; the start line tells them apart
+      onDocument: (document) => ({
+        index: {
+          _index: symbolWriteIndexName,
+          _id: `${docId}#${document.symbol_id}:${document.start_line}`,
+          require_alias: true,
+        },
+      }),
+      onDrop: (drop) => {
+        dropped.push(`${drop.document.symbol_id}: ${drop.error?.reason ?? drop.status}`);
+      },
+      refreshOnCompletion: symbolWriteIndexName,
+    });
+
+    return { symbolsWritten: stats.successful, failedSymbols: dropped };
+  }
+
+  return {
+    kind: "elasticsearch",
+    location: `${writeIndexName}, ${symbolWriteIndexName}`,
+
+    async upsertPackage(id, document, symbols, signal) {
+      signal?.throwIfAborted();
+      const result = await writeSymbols(id, symbols, signal);
+      signal?.throwIfAborted();
+      await client.index(
+        {
+          index: writeIndexName,
+          id,
+          document,
+          require_alias: true,
+        },
+        { signal },
+      );
+      return result;
+    },
+
+    async getPackage(name, version) {
+      const response = await client.search<PackageRecord>({
+        index: indexName,
+        size: 1,
+        query: {
+          bool: {
+            filter: [{ term: { name } }, { term: { version } }],
+          },
+        },
+      });
+
+      const [hit] = packageHits(response);
+      return hit ? { id: hit.id, package: hit.package } : null;
+    },
+
+    async listPackages(size = 500) {
+      const response = await client.search<PackageRecord>({
+        index: indexName,
+        size,
+        query: { match_all: {} },
+        _source: PACKAGE_SOURCE_FIELDS,
+      });
+
+      return packageHits(response).map((hit): StoredPackage => ({ id: hit.id, package: hit.package }));
+    },
+
+    async listVersions(name) {
+      return listIndexedVersions(client, indexName, name);
+    },
+
+    async searchPackages(search) {
+      const filter = packageFilter(search);
+      let response: estypes.SearchResponse<PackageRecord>;
+      try {
+        response = await client.search<PackageRecord>({
+          index: indexName,
+          size: search.size,
+          retriever: {
+            rrf: {
+              retrievers: [
+                {
+                  standard: {
+                    query: {
+                      bool: {
+                        filter,
+                        must: [
+                          {
+                            multi_match: {
+                              query: search.query,
+                              fields: PACKAGE_TEXT_FIELDS,
+                            },
+                          },
+                        ],
+                      },
+                    },
+                  },
+                },
+                {
+                  standard: {
+                    query: {
+                      bool: {
+                        filter,
+                        must: [{ semantic: { field: "readme_content", query: search.query } }],
+                      },
+                    },
+                  },
+                },
+              ],
+              rank_window_size: Math.max(50, search.size),
+              rank_constant: 60,
+            },
+          },
+          _source: PACKAGE_SOURCE_FIELDS,
+        });
+      } catch (error) {
+        console.warn("Semantic retriever unavailable; falling back to BM25 search:", (error as Error).message);
+        response = await client.search<PackageRecord>({
+          index: indexName,
+          size: search.size,
+          query: {
+            bool: {
+              filter,
+              must: [
+                {
+                  multi_match: {
+                    query: search.query,
+                    fields: PACKAGE_FALLBACK_FIELDS,
+                  },
+                },
+              ],
+            },
+          },
+          _source: PACKAGE_SOURCE_FIELDS,
+        });
+      }
+
+      return packageHits(response);
+    },
+
+    async searchSymbols({ docId, query, size, entryPoint }: SymbolSearch) {
+      const filter = packageSymbolsFilter(docId, entryPoint);
+      const textQuery = symbolKeywordQuery(query, filter);
+
+      let response: estypes.SearchResponse<SymbolRecord>;
+      try {
+        response = await client.search<SymbolRecord>({
+          index: symbolIndexName,
+          size,
+          retriever: {
+            rrf: {
+              retrievers: [
+                { standard: { query: textQuery } },
+                {
+                  standard: {
+                    query: {
+                      bool: {
+                        filter,
+                        must: [{ semantic: { field: "search_text", query } }],
+                      },
+                    },
+                  },
+                },
+              ],
+              rank_window_size: Math.max(50, size),
+              rank_constant: 60,
+            },
+          },
+          _source: SYMBOL_SOURCE_FIELDS,
+        });
+      } catch (error) {
+        console.warn("Semantic symbol search failed; falling back to text match:", (error as Error).message);
+        response = await client.search<SymbolRecord>({
+          index: symbolIndexName,
+          size,
+          query: textQuery,
+          _source: SYMBOL_SOURCE_FIELDS,
+        });
+      }
+
+      return symbolHits(response);
+    },
+
+    async topSymbols({ docId, size, entryPoint }) {
+      const response = await client.search<SymbolRecord>({
+        index: symbolIndexName,
+        ...topSymbolsQuery(docId, size, entryPoint),
+      });
+
+      return symbolHits(response);
+    },
+
+    async getSymbols({ docId, symbolIds, chunkGroups }) {
+      const response = await client.search<SymbolRecord>({
+        index: symbolIndexName,
+        ...symbolLookupQuery(docId, symbolIds, chunkGroups),
+      });
+
+      return symbolHits(response);
+    },
+
+    async close() {
+      await client.close();
+    },
+  };
+}
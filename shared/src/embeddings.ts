@@ -0,0 +1,105 @@
+import { GoogleGenerativeAI, TaskType, type EmbedContentRequest } from "@google/generative-ai";
+import { HASHED_VECTOR_DIMENSIONS, hashedVector } from "./local-backend.js";
+
+/** Embedding model when EMBEDDING_MODEL isn't set */
+export const DEFAULT_EMBEDDING_MODEL = "gemini-embedding-001";
+/** Vector length when EMBEDDING_DIMENSIONS isn't set */
+export const DEFAULT_EMBEDDING_DIMENSIONS = 768;
+/** Model name recorded for hashed vectors, which need no API key */
+export const HASHED_EMBEDDING_MODEL = "hashed-bag-of-words";
+
+/** Texts per batchEmbedContents call (the API's limit) */
+const EMBED_BATCH_SIZE = 100;
+/** Characters of one text sent to the model */
+const MAX_EMBED_TEXT = 8000;
+
+/**
+ * Turns text into vectors on the client, for backends without an inference
+ * endpoint of their own
+ */
+export interface Embedder {
+  /** Recorded in the index so vectors from another model are caught */
+  readonly model: string;
+  readonly dimensions: number;
+  /** Documents and queries are embedded differently by retrieval models */
+  embed(texts: string[], purpose: "document" | "query"): Promise<number[][]>;
+}
+
+export interface EmbedderOptions {
+  /** Gemini API key; without one, texts are hashed instead */
+  apiKey?: string;
+  model?: string;
+  dimensions?: number;
+}
+
+/** `outputDimensionality` is accepted by the API but missing from the SDK's types */
+type SizedEmbedContentRequest = EmbedContentRequest & { outputDimensionality?: number };
+
+/**
+ * Gemini embeddings through the Generative Language API, truncated to
+ * `dimensions`
+ */
+export function createGeminiEmbedder(
+  apiKey: string,
+  model: string = DEFAULT_EMBEDDING_MODEL,
+  dimensions: number = DEFAULT_EMBEDDING_DIMENSIONS,
+): Embedder {
+  const embeddingModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+
+  return {
+    model,
+    dimensions,
+
+    async embed(texts, purpose) {
+      const vectors: number[][] = [];
+      for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+        const requests = texts.slice(start, start + EMBED_BATCH_SIZE).map(
+          (text): SizedEmbedContentRequest => ({
+            content: { role: "user", parts: [{ text: text.slice(0, MAX_EMBED_TEXT) || " " }] },
+            taskType: purpose === "query" ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT,
+            outputDimensionality: dimensions,
+          }),
+        );
+        const response = await embeddingModel.batchEmbedContents({ requests });
+        vectors.push(...response.embeddings.map((embedding) => embedding.values));
+      }
+      return vectors;
+    },
+  };
+}
+
+/**
+ * The local backend's hashed vectors behind the Embedder interface: shared
+ * words instead of meaning, but no API key or network
+ */
+export function createHashedEmbedder(dimensions: number = HASHED_VECTOR_DIMENSIONS): Embedder {
+  return {
+    model: HASHED_EMBEDDING_MODEL,
+    dimensions,
+    async embed(texts) {
+      return texts.map((text) => hashedVector(text, dimensions));
+    },
+  };
+}
+
+/**
+ * Gemini when an API key is given, hashed vectors otherwise
+ */
+export function createEmbedder(options: EmbedderOptions = {}): Embedder {
+  if (!options.apiKey) {
+    return createHashedEmbedder();
+  }
+  return createGeminiEmbedder(options.apiKey, options.model, options.dimensions);
+}
+
+/**
+ * The embedder GEMINI_API_KEY (or VERTEX_AI_API_KEY), EMBEDDING_MODEL and
+ * EMBEDDING_DIMENSIONS configure
+ */
+export function embedderFromEnv(env: NodeJS.ProcessEnv = process.env): Embedder {
+  return createEmbedder({
+    apiKey: env.GEMINI_API_KEY || env.VERTEX_AI_API_KEY,
+    model: env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL,
+    dimensions: Number(env.EMBEDDING_DIMENSIONS || DEFAULT_EMBEDDING_DIMENSIONS),
+  });
+}
@@ -1,2 +1,6 @@
 export * from "./mcp.js";
 export * from "./answer.js";
+export * from "./versions.js";
+export * from "./ingestion.js";
+export * from "./indices.js";
+export * from "./search.js";
@@ -0,0 +1,37 @@
+/**
+ * Every physical index is named by the schema version its mappings belong to
+ * ("npm-packages-v2") and reached through aliases. Readers query the read
+ * alias, ingestion writes through the write alias, and a migration builds the
+ * next version before swapping both.
+ */
+
+/** Read alias over the current package index */
+export const PACKAGE_INDEX_ALIAS = "npm-packages";
+
+/** Read alias over the current per-symbol index */
+export const SYMBOL_INDEX_ALIAS = "npm-symbols";
+
+/** Where ingestion writes package documents */
+export const PACKAGE_WRITE_ALIAS = `${PACKAGE_INDEX_ALIAS}-write`;
+
+/** Where ingestion writes symbol documents */
+export const SYMBOL_WRITE_ALIAS = `${SYMBOL_INDEX_ALIAS}-write`;
+
+/**
+ * Physical index holding schema `version` behind `alias`
+ */
+export function versionedIndexName(alias: string, version: number): string {
+  return `${alias}-v${version}`;
+}
+
+/**
+ * Schema version of a physical index behind `alias`, or undefined when the
+ * name doesn't follow the `<alias>-v<N>` pattern
+ */
+export function parseIndexVersion(alias: string, indexName: string): number | undefined {
+  const match = indexName.match(/-v(\d+)$/);
+  if (!match || indexName !== versionedIndexName(alias, Number(match[1]))) {
+    return undefined;
+  }
+  return Number(match[1]);
+}
@@ -0,0 +1,67 @@
+/** Phases of indexing one package, timed separately in the report */
+export type IndexStage = "fetch" | "parse" | "index";
+
+export type PackageIndexStatus = "indexed" | "failed" | "timed_out";
+
+/**
+ * A source file ingestion skipped (minified) or scored lower (bundled or
+ * generated), and the heuristics that said so
+ */
+export interface FileDecisionReport {
+  path: string;
+  classification: "minified" | "bundled" | "generated";
+  action: "skipped" | "downweighted";
+  signals: string[];
+}
+
+/**
+ * A source file left out of parsing by the file selection, and why
+ */
+export interface SkippedFileReport {
+  path: string;
+  reason: "too-large" | "budget" | "load-failed" | "unlisted";
+  /** Import hops from the nearest entry file, when the file is reachable */
+  depth?: number;
+}
+
+/**
+ * Outcome of indexing one package spec
+ */
+export interface PackageIndexResult {
+  /** As requested: "zod", "zod@^3" */
+  spec: string;
+  name: string;
+  /** Resolved version, once known */
+  version?: string;
+  status: PackageIndexStatus;
+  durationMs: number;
+  /** Milliseconds spent in each stage that ran */
+  stages: Partial<Record<IndexStage, number>>;
+  symbols?: {
+    total: number;
+    exported: number;
+    /** Large symbols split into several documents */
+    chunked: number;
+  };
+  sourceStrategy?: string;
+  sourceFiles?: number;
+  fileDecisions?: FileDecisionReport[];
+  skippedFiles?: SkippedFileReport[];
+  warnings: string[];
+  error?: string;
+}
+
+/**
+ * What an `indexPackages` run did, package by package
+ */
+export interface IndexReport {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  concurrency: number;
+  timeoutMs: number;
+  scoringProfile: string;
+  succeeded: number;
+  failed: number;
+  packages: PackageIndexResult[];
+}
@@ -0,0 +1,377 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  DEFAULT_LOCAL_INDEX_DIR,
+  combineRelevance,
+  packageEmbeddingText,
+  plainText,
+  reciprocalRankFusion,
+  symbolEmbeddingText,
+  type PackageRecord,
+  type SearchBackend,
+  type SymbolRecord,
+} from "./search-backend.js";
+import { sortVersionsDesc, type IndexedVersion } from "./versions.js";
+
+export interface LocalBackendOptions {
+  /** Holds one JSON file per package version (default .npm-intel/local-index) */
+  directory?: string;
+}
+
+/** Length of the hashed vectors standing in for embeddings */
+export const HASHED_VECTOR_DIMENSIONS = 512;
+/** Characters of a README that go into its vector */
+const MAX_VECTOR_TEXT = 20000;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const PACKAGE_FIELD_BOOSTS: Record<string, number> = {
+  name: 5,
+  description: 3,
+  keywords: 2,
+  readme: 1,
+  code_examples: 1,
+};
+
+const SYMBOL_FIELD_BOOSTS: Record<string, number> = {
+  name: 3,
+  implementation: 2,
+  signature: 1,
+  jsdoc: 1,
+  examples: 1,
+};
+
+/** One package version on disk */
+interface LocalEntry {
+  id: string;
+  package: PackageRecord;
+  symbols: SymbolRecord[];
+  packageVector: number[];
+  symbolVectors: number[][];
+}
+
+type FieldTerms = Map<string, { counts: Map<string, number>; length: number }>;
+
+interface LoadedEntry extends LocalEntry {
+  mtimeMs: number;
+  packageTerms: FieldTerms;
+  symbolTerms: FieldTerms[];
+}
+
+/**
+ * Lowercased words, with identifiers also split at camelCase and snake_case
+ * boundaries ("createClient" → createclient, create, client)
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.match(/[A-Za-z0-9_$]+/g) ?? []) {
+    const lowered = word.toLowerCase();
+    tokens.push(lowered);
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+      .split(/[\s_$]+/)
+      .filter(Boolean);
+    if (parts.length > 1) tokens.push(...parts.map((part) => part.toLowerCase()));
+  }
+  return tokens;
+}
+
+function hashToken(token: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i += 1) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Feature-hashed bag of words and word pairs, L2-normalized: a stand-in for
+ * an embedding that needs no model, so cosine similarity still rewards
+ * shared vocabulary that the keyword ranking weighs differently
+ */
+export function hashedVector(text: string, dimensions: number = HASHED_VECTOR_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = tokenize(text.slice(0, MAX_VECTOR_TEXT));
+  const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)];
+
+  const counts = new Map<string, number>();
+  for (const feature of features) counts.set(feature, (counts.get(feature) ?? 0) + 1);
+  for (const [feature, count] of counts) {
+    const hash = hashToken(feature);
+    // The top bit picks the sign, so collisions cancel out instead of piling up
+    vector[hash % dimensions] += (hash & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i += 1) dot += a[i] * b[i];
+  return dot;
+}
+
+function fieldTerms(fields: Record<string, string>): FieldTerms {
+  const terms: FieldTerms = new Map();
+  for (const [field, text] of Object.entries(fields)) {
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+    for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+    terms.set(field, { counts, length: tokens.length });
+  }
+  return terms;
+}
+
+function packageFields(record: PackageRecord): Record<string, string> {
+  return {
+    name: record.name,
+    description: record.description ?? "",
+    keywords: (record.keywords ?? []).join(" "),
+    readme: plainText(record.readme_content),
+    code_examples: plainText(record.code_examples),
+  };
+}
+
+function symbolFields(record: SymbolRecord): Record<string, string> {
+  return {
+    name: record.parent ? `${record.parent}.${record.name}` : record.name,
+    implementation: record.implementation ?? "",
+    signature: record.signature ?? "",
+    jsdoc: record.jsdoc ?? "",
+    examples: (record.examples ?? []).join("\n"),
+  };
+}
+
+/**
+ * BM25 of each document for `query`, taking its best boosted field the way
+ * a best_fields multi_match does
+ */
+function bm25Scores(query: string, documents: FieldTerms[], boosts: Record<string, number>): number[] {
+  const queryTokens = [...new Set(tokenize(query))];
+  const scores = new Array<number>(documents.length).fill(0);
+  if (queryTokens.length === 0 || documents.length === 0) return scores;
+
+  for (const [field, boost] of Object.entries(boosts)) {
+    const lengths = documents.map((terms) => terms.get(field)?.length ?? 0);
+    const averageLength = lengths.reduce((sum, length) => sum + length, 0) / documents.length || 1;
+    const documentFrequency = new Map<string, number>();
+    for (const token of queryTokens) {
+      documentFrequency.set(
+        token,
+        documents.filter((terms) => terms.get(field)?.counts.has(token)).length,
+      );
+    }
+
+    documents.forEach((terms, i) => {
+      const counts = terms.get(field)?.counts;
+      if (!counts) return;
+      let score = 0;
+      for (const token of queryTokens) {
+        const frequency = counts.get(token);
+        if (!frequency) continue;
+        const containing = documentFrequency.get(token)!;
+        const idf = Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5));
+        score +=
+          (idf * frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + (BM25_B * lengths[i]) / averageLength));
+      }
+      scores[i] = Math.max(scores[i], boost * score);
+    });
+  }
+
+  return scores;
+}
+
+/** Indices of the positive scores, best first, at most `size` */
+function rank(scores: number[], size: number): number[] {
+  return scores
+    .map((score, index) => ({ score, index }))
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, size)
+    .map((entry) => entry.index);
+}
+
+/**
+ * Packages and symbols in JSON files under one directory, searched in
+ * process: BM25 over the text fields and hashed vectors in place of
+ * embeddings, merged with RRF. Needs no network, for development and CI.
+ * Other processes' writes are picked up on the next read.
+ */
+export function createLocalBackend(options: LocalBackendOptions = {}): SearchBackend {
+  const directory = path.resolve(options.directory ?? DEFAULT_LOCAL_INDEX_DIR);
+  const cache = new Map<string, LoadedEntry>();
+
+  function fileFor(id: string): string {
+    return path.join(directory, `${encodeURIComponent(id)}.json`);
+  }
+
+  async function load(): Promise<LoadedEntry[]> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(directory)).filter((file) => file.endsWith(".json"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const present = new Set<string>();
+    for (const file of files) {
+      const fullPath = path.join(directory, file);
+      present.add(fullPath);
+      const { mtimeMs } = await fs.stat(fullPath);
+      if (cache.get(fullPath)?.mtimeMs === mtimeMs) continue;
+
+      const entry: LocalEntry = JSON.parse(await fs.readFile(fullPath, "utf8"));
+      cache.set(fullPath, {
+        ...entry,
+        mtimeMs,
+        packageTerms: fieldTerms(packageFields(entry.package)),
+        symbolTerms: entry.symbols.map((symbol) => fieldTerms(symbolFields(symbol))),
+      });
+    }
+    for (const file of cache.keys()) {
+      if (!present.has(file)) cache.delete(file);
+    }
+
+    return [...cache.values()];
+  }
+
+  async function loadEntry(id: string): Promise<LoadedEntry | undefined> {
+    return (await load()).find((entry) => entry.id === id);
+  }
+
+  function matchingSymbols(entry: LoadedEntry, entryPoint?: string): number[] {
+    return entry.symbols.flatMap((symbol, index) =>
+      !entryPoint || symbol.entry_points?.includes(entryPoint) ? [index] : [],
+    );
+  }
+
+  return {
+    kind: "local",
+    location: directory,
+
+    async upsertPackage(id, document, symbols, signal) {
+      const entry: LocalEntry = {
+        id,
+        package: document,
+        symbols,
+        packageVector: hashedVector(packageEmbeddingText(document)),
+        symbolVectors: symbols.map((symbol) => hashedVector(symbolEmbeddingText(symbol))),
+      };
+
+      // Write then rename, so readers never see half a file
+      await fs.mkdir(directory, { recursive: true });
+      const file = fileFor(id);
+      const temporary = `${file}.${process.pid}.tmp`;
+      signal?.throwIfAborted();
+      await fs.writeFile(temporary, JSON.stringify(entry));
+      await fs.rename(temporary, file);
+
+      return { symbolsWritten: symbols.length, failedSymbols: [] };
+    },
+
+    async getPackage(name, version) {
+      const entry = await loadEntry(`${name}@${version}`);
+      return entry ? { id: entry.id, package: entry.package } : null;
+    },
+
+    async listPackages(size = 500) {
+      const entries = await load();
+      return entries.slice(0, size).map((entry) => ({ id: entry.id, package: entry.package }));
+    },
+
+    async listVersions(name) {
+      const entries = (await load()).filter((entry) => entry.package.name === name);
+      const order = sortVersionsDesc(entries.map((entry) => entry.package.version));
+      return entries
+        .map(
+          (entry): IndexedVersion => ({
+            version: entry.package.version,
+            docId: entry.id,
+            totalSymbols: entry.package.total_symbols,
+            indexedAt: entry.package.indexed_at,
+          }),
+        )
+        .sort((a, b) => order.indexOf(a.version) - order.indexOf(b.version));
+    },
+
+    async searchPackages(search) {
+      const entries = (await load()).filter(
+        (entry) =>
+          (!search.name || entry.package.name === search.name) &&
+          (!search.version || entry.package.version === search.version),
+      );
+      const window = Math.max(50, search.size);
+
+      const textRanking = rank(
+        bm25Scores(search.query, entries.map((entry) => entry.packageTerms), PACKAGE_FIELD_BOOSTS),
+        window,
+      );
+      const queryVector = hashedVector(search.query);
+      const vectorRanking = rank(
+        entries.map((entry) => cosine(queryVector, entry.packageVector)),
+        window,
+      );
+
+      return reciprocalRankFusion([textRanking, vectorRanking], String)
+        .slice(0, search.size)
+        .map(({ item, score }) => ({
+          id: entries[item].id,
+          score,
+          package: entries[item].package,
+        }));
+    },
+
+    async searchSymbols({ docId, query, size, entryPoint }) {
+      const entry = await loadEntry(docId);
+      if (!entry) return [];
+      const candidates = matchingSymbols(entry, entryPoint);
+      const window = Math.max(50, size);
+
+      const textScores = bm25Scores(
+        query,
+        candidates.map((index) => entry.symbolTerms[index]),
+        SYMBOL_FIELD_BOOSTS,
+      ).map((score, i) =>
+        score > 0 ? combineRelevance(score, entry.symbols[candidates[i]].relevance_score) : 0,
+      );
+      const queryVector = hashedVector(query);
+      const vectorScores = candidates.map((index) => cosine(queryVector, entry.symbolVectors[index]));
+
+      return reciprocalRankFusion([rank(textScores, window), rank(vectorScores, window)], String)
+        .slice(0, size)
+        .map(({ item }) => entry.symbols[candidates[item]]);
+    },
+
+    async topSymbols({ docId, size, entryPoint }) {
+      const entry = await loadEntry(docId);
+      if (!entry) return [];
+      return matchingSymbols(entry, entryPoint)
+        .map((index) => entry.symbols[index])
+        .filter((symbol) => symbol.implementation)
+        .sort((a, b) => (b.relevance_score ?? -Infinity) - (a.relevance_score ?? -Infinity))
+        .slice(0, size);
+    },
+
+    async getSymbols({ docId, symbolIds, chunkGroups }) {
+      const entry = await loadEntry(docId);
+      if (!entry) return [];
+      return entry.symbols
+        .filter(
+          (symbol) =>
+            (!symbolIds || (symbol.symbol_id !== undefined && symbolIds.includes(symbol.symbol_id))) &&
+            (!chunkGroups || (symbol.chunk_group !== undefined && chunkGroups.includes(symbol.chunk_group))),
+        )
+        .slice(0, 100);
+    },
+
+    async close() {
+      cache.clear();
+    },
+  };
+}
@@ -9,6 +9,7 @@ export const packageMetadata = z.object({
   totalSymbols: z.number(),
   sourceStrategy: z.string().optional(),
   lastIndexedAt: z.string().datetime(),
+  versions: z.array(z.string()).optional(),
 });
 
 export const listResourcesResponse = z.object({
@@ -24,6 +25,7 @@ export const listResourcesResponse = z.object({
 
 export const reindexRequest = z.object({
   resourceId: packageResourceId,
+  version: z.string().min(1).optional(),
 });
 
 export const reindexResponse = z.object({
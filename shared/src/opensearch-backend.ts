@@ -0,0 +1,317 @@
+import type { estypes } from "@elastic/elasticsearch";
+import type { API, Client } from "@opensearch-project/opensearch";
+import type { Embedder } from "./embeddings.js";
+import {
+  PACKAGE_INDEX_ALIAS,
+  PACKAGE_WRITE_ALIAS,
+  SYMBOL_INDEX_ALIAS,
+  SYMBOL_WRITE_ALIAS,
+} from "./indices.js";
+import {
+  PACKAGE_SOURCE_FIELDS,
+  PACKAGE_TEXT_FIELDS,
+  SYMBOL_SOURCE_FIELDS,
+  packageFilter,
+  packageSymbolsFilter,
+  symbolKeywordQuery,
+  symbolLookupQuery,
+  topSymbolsQuery,
+} from "./query-dsl.js";
+import {
+  packageEmbeddingText,
+  reciprocalRankFusion,
+  symbolEmbeddingText,
+  type PackageRecord,
+  type SearchBackend,
+  type StoredPackage,
+  type SymbolRecord,
+} from "./search-backend.js";
+import { indexedVersionsQuery, toIndexedVersions, type VersionSource } from "./versions.js";
+
+/** k-NN field holding the embedding of a package's metadata and README */
+export const PACKAGE_VECTOR_FIELD = "readme_embedding";
+/** k-NN field holding the embedding of a symbol's search_text */
+export const SYMBOL_VECTOR_FIELD = "search_text_embedding";
+
+export interface OpenSearchBackendOptions {
+  client: Client;
+  /** Embeds documents at write time and queries at search time */
+  embedder: Embedder;
+  /** Read alias of the package index */
+  indexName?: string;
+  /** Read alias of the per-symbol index */
+  symbolIndexName?: string;
+  /** Write aliases; a missing alias fails the write instead of creating an index */
+  writeIndexName?: string;
+  symbolWriteIndexName?: string;
+}
+
+/** A search hit with the stored fields its query asked for */
+interface Hit<T> {
+  _id: string;
+  _source: T;
+}
+
+/**
+ * The shared query DSL as an OpenSearch search body. It's typed with
+ * Elasticsearch's request types; OpenSearch takes the same JSON for these
+ * queries but its generated types differ in detail, so they meet only here.
+ */
+function openSearchBody(request: estypes.SearchRequest): API.Search_RequestBody {
+  return request as API.Search_RequestBody;
+}
+
+/**
+ * Packages and symbols in OpenSearch, which has no semantic_text fields or
+ * RRF retriever: vectors come from the embedder and live in knn_vector
+ * fields, and the keyword and k-NN rankings are merged with RRF here
+ */
+export function createOpenSearchBackend(options: OpenSearchBackendOptions): SearchBackend {
+  const {
+    client,
+    embedder,
+    indexName = PACKAGE_INDEX_ALIAS,
+    symbolIndexName = SYMBOL_INDEX_ALIAS,
+    writeIndexName = PACKAGE_WRITE_ALIAS,
+    symbolWriteIndexName = SYMBOL_WRITE_ALIAS,
+  } = options;
+
+  let embeddingCheck: Promise<void> | undefined;
+
+  /**
+   * Fail early when the indices were created for another embedding model:
+   * k-NN would reject the vectors' length, or silently compare unrelated
+   * vector spaces
+   */
+  function checkEmbeddingModel(): Promise<void> {
+    embeddingCheck ??= (async () => {
+      const { body } = await client.indices.getMapping({ index: `${indexName},${symbolIndexName}` });
+      for (const [index, { mappings }] of Object.entries(body)) {
+        const meta = mappings?._meta ?? {};
+        if (meta.embedding_model !== embedder.model || meta.embedding_dimensions !== embedder.dimensions) {
+          throw new Error(
+            `${index} holds ${meta.embedding_model ?? "unknown"} vectors (${meta.embedding_dimensions ?? "?"} dimensions), ` +
+              `but this process embeds with ${embedder.model} (${embedder.dimensions}); ` +
+              "set EMBEDDING_MODEL, EMBEDDING_DIMENSIONS and GEMINI_API_KEY to match, or recreate the indices",
+          );
+        }
+      }
+    })();
+    // Let a failed check (cluster down) run again on the next call
+    embeddingCheck.catch(() => {
+      embeddingCheck = undefined;
+    });
+    return embeddingCheck;
+  }
+
+  async function searchHits<T>(index: string, body: API.Search_RequestBody): Promise<Array<Hit<T>>> {
+    const { body: response } = await client.search({ index, body });
+    return response.hits.hits.flatMap((hit) =>
+      hit._id && hit._source ? [{ _id: hit._id, _source: hit._source as T }] : [],
+    );
+  }
+
+  /**
+   * Nearest neighbours of the embedded query within `filter`; the lucene
+   * engine filters during the graph search, so k holds after filtering
+   */
+  async function knnHits<T>(
+    index: string,
+    field: string,
+    query: string,
+    filter: estypes.QueryDslQueryContainer[],
+    size: number,
+    source: string[],
+  ): Promise<Array<Hit<T>>> {
+    const [vector] = await embedder.embed([query], "query");
+    return searchHits<T>(index, {
+      size,
+      query: {
+        knn: {
+          [field]: {
+            vector,
+            k: size,
+            ...(filter.length > 0 ? { filter: openSearchBody({ query: { bool: { filter } } }).query } : {}),
+          },
+        },
+      },
+      _source: source,
+    });
+  }
+
+  /**
+   * The k-NN ranking, or none when the query can't be embedded or searched,
+   * so a search degrades to its keyword ranking
+   */
+  async function knnRanking<T>(...args: Parameters<typeof knnHits>): Promise<Array<Hit<T>>> {
+    try {
+      return await knnHits<T>(...args);
+    } catch (error) {
+      console.warn("Vector search unavailable; using the keyword ranking only:", (error as Error).message);
+      return [];
+    }
+  }
+
+  /**
+   * Replace the symbol documents of one package version, each with its
+   * embedding, through the bulk helper
+   */
+  async function writeSymbols(docId: string, documents: SymbolRecord[], vectors: number[][]) {
+    // Symbols a re-index no longer finds must not linger
+    await client.deleteByQuery(
+      {
+        index: symbolWriteIndexName,
+        body: { query: { term: { package_version: docId } } },
+        conflicts: "proceed",
+        refresh: true,
+      },
+      { ignore: [404] },
+    );
+    if (documents.length === 0) return { symbolsWritten: 0, failedSymbols: [] };
+
+    const dropped: string[] = [];
+    const stats = await client.helpers.bulk<SymbolRecord & { [SYMBOL_VECTOR_FIELD]: number[] }>({
+      datasource: documents.map((document, i) => ({ ...document, [SYMBOL_VECTOR_FIELD]: vectors[i] })),
+      // Chunks of a symbol share its id; the start line tells them apart
+      onDocument: (document) => ({
+        index: {
+          _index: symbolWriteIndexName,
+          _id: `${docId}#${document.symbol_id}:${document.start_line}`,
+          require_alias: true,
+        },
+      }),
+      onDrop: (drop) => {
+        dropped.push(`${drop.document.symbol_id}: ${drop.error?.reason ?? drop.status}`);
+      },
+      refreshOnCompletion: symbolWriteIndexName,
+    });
+
+    return { symbolsWritten: stats.successful, failedSymbols: dropped };
+  }
+
+  return {
+    kind: "opensearch",
+    location: `${writeIndexName}, ${symbolWriteIndexName}`,
+
+    async upsertPackage(id, document, symbols, signal) {
+      await checkEmbeddingModel();
+      // Embedded before anything is written, so a failing model leaves the old version in place
+      const [packageVector, ...symbolVectors] = await embedder.embed(
+        [packageEmbeddingText(document), ...symbols.map(symbolEmbeddingText)],
+        "document",
+      );
+      // The client takes no signal, so an abort is honoured between requests
+      signal?.throwIfAborted();
+      const result = await writeSymbols(id, symbols, symbolVectors);
+      signal?.throwIfAborted();
+      await client.index({
+        index: writeIndexName,
+        id,
+        body: { ...document, [PACKAGE_VECTOR_FIELD]: packageVector },
+        require_alias: true,
+      });
+      return result;
+    },
+
+    async getPackage(name, version) {
+      const [hit] = await searchHits<PackageRecord>(indexName, {
+        size: 1,
+        query: {
+          bool: {
+            filter: [{ term: { name } }, { term: { version } }],
+          },
+        },
+        _source: { excludes: [PACKAGE_VECTOR_FIELD] },
+      });
+      return hit ? { id: hit._id, package: hit._source } : null;
+    },
+
+    async listPackages(size = 500) {
+      const hits = await searchHits<PackageRecord>(indexName, {
+        size,
+        query: { match_all: {} },
+        _source: PACKAGE_SOURCE_FIELDS,
+      });
+      return hits.map((hit): StoredPackage => ({ id: hit._id, package: hit._source }));
+    },
+
+    async listVersions(name) {
+      return toIndexedVersions(
+        await searchHits<VersionSource>(indexName, openSearchBody(indexedVersionsQuery(name))),
+      );
+    },
+
+    async searchPackages(search) {
+      await checkEmbeddingModel();
+      const filter = packageFilter(search);
+      const window = Math.max(50, search.size);
+
+      const [textHits, vectorHits] = await Promise.all([
+        searchHits<PackageRecord>(
+          indexName,
+          openSearchBody({
+            size: window,
+            query: {
+              bool: {
+                filter,
+                must: [{ multi_match: { query: search.query, fields: PACKAGE_TEXT_FIELDS } }],
+              },
+            },
+            _source: PACKAGE_SOURCE_FIELDS,
+          }),
+        ),
+        knnRanking<PackageRecord>(indexName, PACKAGE_VECTOR_FIELD, search.query, filter, window, PACKAGE_SOURCE_FIELDS),
+      ]);
+
+      return reciprocalRankFusion([textHits, vectorHits], (hit) => hit._id)
+        .slice(0, search.size)
+        .map(({ item, score }) => ({
+          id: item._id,
+          score,
+          package: item._source,
+        }));
+    },
+
+    async searchSymbols({ docId, query, size, entryPoint }) {
+      await checkEmbeddingModel();
+      const filter = packageSymbolsFilter(docId, entryPoint);
+      const window = Math.max(50, size);
+
+      const [textHits, vectorHits] = await Promise.all([
+        searchHits<SymbolRecord>(
+          symbolIndexName,
+          openSearchBody({
+            size: window,
+            query: symbolKeywordQuery(query, filter),
+            _source: SYMBOL_SOURCE_FIELDS,
+          }),
+        ),
+        knnRanking<SymbolRecord>(symbolIndexName, SYMBOL_VECTOR_FIELD, query, filter, window, SYMBOL_SOURCE_FIELDS),
+      ]);
+
+      return reciprocalRankFusion([textHits, vectorHits], (hit) => hit._id)
+        .slice(0, size)
+        .map(({ item }) => item._source);
+    },
+
+    async topSymbols({ docId, size, entryPoint }) {
+      const hits = await searchHits<SymbolRecord>(
+        symbolIndexName,
+        openSearchBody(topSymbolsQuery(docId, size, entryPoint)),
+      );
+      return hits.map((hit) => hit._source);
+    },
+
+    async getSymbols({ docId, symbolIds, chunkGroups }) {
+      const hits = await searchHits<SymbolRecord>(
+        symbolIndexName,
+        openSearchBody(symbolLookupQuery(docId, symbolIds, chunkGroups)),
+      );
+      return hits.map((hit) => hit._source);
+    },
+
+    async close() {
+      await client.close();
+    },
+  };
+}
@@ -0,0 +1,165 @@
+import type { estypes } from "@elastic/elasticsearch";
+import { RELEVANCE_SCORE_WEIGHT, type PackageSearch, type SymbolRecord } from "./search-backend.js";
+
+// Query DSL both cluster backends send: Elasticsearch and OpenSearch differ
+// only in the semantic half of a search
+
+export const PACKAGE_SOURCE_FIELDS = [
+  "name",
+  "version",
+  "description",
+  "keywords",
+  "total_symbols",
+  "source_strategy",
+  "code_examples",
+  "indexed_at",
+  "updated_at",
+];
+
+export const SYMBOL_SOURCE_FIELDS = [
+  "package",
+  "version",
+  "package_version",
+  "name",
+  "kind",
+  "file_path",
+  "implementation",
+  "is_exported",
+  "relevance_score",
+  "jsdoc",
+  "signature",
+  "entry_points",
+  "source_url",
+  "parent",
+  "exported_names",
+  "inferred_signature",
+  "examples",
+  "deprecated",
+  "deprecation_reason",
+  "chunk_index",
+  "chunk_count",
+  "chunk_header",
+  "chunk_group",
+  "symbol_id",
+  "calls",
+  "called_by",
+  "extends",
+  "implements",
+  "references_types",
+];
+
+/** Package fields the keyword half of a package search matches */
+export const PACKAGE_TEXT_FIELDS = ["description^3", "readme_content", "keywords^2"];
+
+/** Package fields of the keyword-only search used when the semantic half fails */
+export const PACKAGE_FALLBACK_FIELDS = ["name^5", "description^3", "keywords^2", "code_examples"];
+
+/** `combineRelevance` computed inside the cluster */
+const COMBINE_RELEVANCE_SCRIPT = `
+  double relevance = doc['relevance_score'].size() == 0 ? 0 : doc['relevance_score'].value;
+  return _score + params.weight * Math.log1p(Math.max(0, relevance));
+`;
+
+/**
+ * Full-text match of a query against the symbol fields, without the
+ * relevance_score boost (the evaluation harness applies each profile's own)
+ */
+export function symbolTextQuery(query: string): estypes.QueryDslQueryContainer {
+  return {
+    multi_match: {
+      query,
+      fields: ["name^3", "implementation^2", "signature", "jsdoc", "examples"],
+    },
+  };
+}
+
+/**
+ * The keyword half of a symbol search: `symbolTextQuery` plus the symbol's
+ * relevance_score, within `filter`
+ */
+export function symbolKeywordQuery(
+  query: string,
+  filter: estypes.QueryDslQueryContainer[],
+): estypes.QueryDslQueryContainer {
+  return {
+    bool: {
+      filter,
+      must: [
+        {
+          function_score: {
+            query: symbolTextQuery(query),
+            functions: [
+              {
+                script_score: {
+                  script: {
+                    source: COMBINE_RELEVANCE_SCRIPT,
+                    params: { weight: RELEVANCE_SCORE_WEIGHT },
+                  },
+                },
+              },
+            ],
+            boost_mode: "replace",
+          },
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * Filters selecting the symbols of one package version, optionally only
+ * those reachable from one import specifier
+ */
+export function packageSymbolsFilter(docId: string, entryPoint?: string): estypes.QueryDslQueryContainer[] {
+  return [
+    { term: { package_version: docId } },
+    ...(entryPoint ? [{ term: { entry_points: entryPoint } }] : []),
+  ];
+}
+
+export function packageFilter(search: PackageSearch): estypes.QueryDslQueryContainer[] {
+  return [
+    ...(search.name ? [{ term: { name: search.name } }] : []),
+    ...(search.version ? [{ term: { version: search.version } }] : []),
+  ];
+}
+
+/** The implemented symbols of a package, highest relevance_score first */
+export function topSymbolsQuery(docId: string, size: number, entryPoint?: string): estypes.SearchRequest {
+  return {
+    size,
+    query: {
+      bool: {
+        filter: [...packageSymbolsFilter(docId, entryPoint), { exists: { field: "implementation" } }],
+      },
+    },
+    sort: [{ relevance_score: { order: "desc", missing: "_last" } }],
+    _source: SYMBOL_SOURCE_FIELDS,
+  };
+}
+
+/** Symbols of a package by symbol_id or chunk_group */
+export function symbolLookupQuery(
+  docId: string,
+  symbolIds?: string[],
+  chunkGroups?: string[],
+): estypes.SearchRequest {
+  return {
+    size: 100,
+    query: {
+      bool: {
+        filter: [
+          ...packageSymbolsFilter(docId),
+          ...(symbolIds ? [{ terms: { symbol_id: symbolIds } }] : []),
+          ...(chunkGroups ? [{ terms: { chunk_group: chunkGroups } }] : []),
+        ],
+      },
+    },
+    _source: SYMBOL_SOURCE_FIELDS,
+  };
+}
+
+/** The symbols of a search response; every query above fetches `_source` */
+export function symbolHits(response: estypes.SearchResponse<SymbolRecord>): SymbolRecord[] {
+  return response.hits.hits.flatMap((hit) => (hit._source ? [hit._source] : []));
+}
@@ -0,0 +1,234 @@
+import { selectIndexedVersion, type IndexedVersion } from "./versions.js";
+
+/** Where packages and symbols are stored and searched (SEARCH_BACKEND) */
+export type SearchBackendKind = "elasticsearch" | "opensearch" | "local";
+
+export const SEARCH_BACKEND_KINDS: SearchBackendKind[] = ["elasticsearch", "opensearch", "local"];
+
+/** Directory of the local backend when LOCAL_INDEX_DIR isn't set */
+export const DEFAULT_LOCAL_INDEX_DIR = ".npm-intel/local-index";
+
+/**
+ * One package version as the indexer stores it. Backends keep every field
+ * they are given; these are the ones read back.
+ */
+export interface PackageRecord {
+  name: string;
+  version: string;
+  description?: string;
+  keywords?: string[];
+  /** Plain text, or Elasticsearch's semantic_text object */
+  readme_content?: unknown;
+  code_examples?: unknown;
+  entry_points?: string[];
+  exports?: Array<{
+    kind: string;
+    name: string;
+    signature?: string;
+    jsdoc?: string;
+    import_path?: string;
+  }>;
+  total_symbols?: number;
+  source_strategy?: string;
+  indexed_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * One symbol (or chunk of a split symbol), joined to its package version by
+ * `package_version`
+ */
+export interface SymbolRecord {
+  package: string;
+  version: string;
+  /** "name@version", the id of the package */
+  package_version: string;
+  name: string;
+  kind: string;
+  file_path: string;
+  start_line?: number;
+  implementation?: string;
+  is_exported?: boolean;
+  relevance_score?: number;
+  jsdoc?: string;
+  signature?: string;
+  entry_points?: string[];
+  source_url?: string;
+  parent?: string;
+  exported_names?: string[];
+  inferred_signature?: string;
+  examples?: string[];
+  deprecated?: boolean;
+  deprecation_reason?: string;
+  chunk_index?: number;
+  chunk_count?: number;
+  chunk_header?: string;
+  chunk_group?: string;
+  symbol_id?: string;
+  calls?: string[];
+  called_by?: string[];
+  extends?: string[];
+  implements?: string[];
+  references_types?: string[];
+  /** Doc comment, signature and implementation: what gets embedded */
+  search_text?: string;
+  indexed_at?: string;
+}
+
+export interface StoredPackage {
+  /** "name@version" */
+  id: string;
+  package: PackageRecord;
+}
+
+export interface PackageSearchHit extends StoredPackage {
+  score: number;
+}
+
+export interface PackageSearch {
+  query: string;
+  size: number;
+  /** Only versions of this package */
+  name?: string;
+  /** Only this exact version */
+  version?: string;
+}
+
+export interface SymbolSearch {
+  /** Id of the package version ("zod@3.23.8") */
+  docId: string;
+  query: string;
+  size: number;
+  /** Only symbols reachable from this import specifier ("hono/cors") */
+  entryPoint?: string;
+}
+
+export interface SymbolLookup {
+  docId: string;
+  symbolIds?: string[];
+  chunkGroups?: string[];
+}
+
+export interface UpsertResult {
+  symbolsWritten: number;
+  /** Why each dropped symbol failed */
+  failedSymbols: string[];
+}
+
+/**
+ * Storage and retrieval behind ingestion, search and answers
+ */
+export interface SearchBackend {
+  readonly kind: SearchBackendKind;
+  /** Where documents go, for logs ("npm-packages-write", a directory) */
+  readonly location: string;
+  /**
+   * Replace a package version and all of its symbols. Symbols are written
+   * first, so a package never appears without them. An aborted `signal`
+   * stops the write before its next step.
+   */
+  upsertPackage(
+    id: string,
+    document: PackageRecord,
+    symbols: SymbolRecord[],
+    signal?: AbortSignal,
+  ): Promise<UpsertResult>;
+  getPackage(name: string, version: string): Promise<StoredPackage | null>;
+  /** Every stored package version, up to `size` */
+  listPackages(size?: number): Promise<StoredPackage[]>;
+  /** Stored versions of a package, newest first */
+  listVersions(name: string): Promise<IndexedVersion[]>;
+  /** Keyword and semantic match over package metadata and READMEs, merged with RRF */
+  searchPackages(search: PackageSearch): Promise<PackageSearchHit[]>;
+  /** Keyword (boosted by relevance_score) and semantic match over one package's symbols, merged with RRF */
+  searchSymbols(search: SymbolSearch): Promise<SymbolRecord[]>;
+  /** A package's highest relevance_score symbols, whatever the query */
+  topSymbols(search: Omit<SymbolSearch, "query">): Promise<SymbolRecord[]>;
+  /** Symbols of a package by symbol_id or chunk_group */
+  getSymbols(lookup: SymbolLookup): Promise<SymbolRecord[]>;
+  close(): Promise<void>;
+}
+
+/** How much a symbol's ingest-time relevance_score adds to its text score */
+export const RELEVANCE_SCORE_WEIGHT = 1;
+
+/**
+ * Text match score plus the symbol's relevance_score on a log scale, so the
+ * text match still decides between unrelated symbols. Every backend ranks
+ * the keyword half of a symbol search with this.
+ */
+export function combineRelevance(textScore: number, relevanceScore: number = 0): number {
+  return textScore + RELEVANCE_SCORE_WEIGHT * Math.log1p(Math.max(0, relevanceScore));
+}
+
+/**
+ * Text of a field that is plain text in one backend and an object with a
+ * `text` property (semantic_text) in another
+ */
+export function plainText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.map(plainText).join("\n");
+  if (value && typeof value === "object" && typeof (value as { text?: unknown }).text === "string") {
+    return (value as { text: string }).text;
+  }
+  return "";
+}
+
+/** What a backend that embeds on its own side embeds for a package */
+export function packageEmbeddingText(record: PackageRecord): string {
+  return [record.name, record.description, (record.keywords ?? []).join(" "), plainText(record.readme_content)]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/** What a backend that embeds on its own side embeds for a symbol */
+export function symbolEmbeddingText(record: SymbolRecord): string {
+  return record.search_text || [record.signature, record.jsdoc, record.implementation].filter(Boolean).join("\n");
+}
+
+/**
+ * The backend named by `value` (SEARCH_BACKEND), "elasticsearch" when unset
+ */
+export function searchBackendKind(value: string | undefined = process.env.SEARCH_BACKEND): SearchBackendKind {
+  const kind = (value || "elasticsearch").trim().toLowerCase();
+  if (!SEARCH_BACKEND_KINDS.includes(kind as SearchBackendKind)) {
+    throw new Error(`Unknown SEARCH_BACKEND "${value}" (expected one of ${SEARCH_BACKEND_KINDS.join(", ")})`);
+  }
+  return kind as SearchBackendKind;
+}
+
+/**
+ * Resolve a requested version or range against the versions a backend holds
+ */
+export async function resolveStoredVersion(
+  backend: SearchBackend,
+  packageName: string,
+  range?: string,
+): Promise<string | null> {
+  const versions = await backend.listVersions(packageName);
+  return selectIndexedVersion(
+    versions.map((entry) => entry.version),
+    range,
+  );
+}
+
+/**
+ * Merge rankings with reciprocal rank fusion, best first, for backends
+ * without a server-side RRF retriever
+ */
+export function reciprocalRankFusion<T>(
+  rankings: T[][],
+  key: (item: T) => string,
+  rankConstant: number = 60,
+): Array<{ item: T; score: number }> {
+  const fused = new Map<string, { item: T; score: number }>();
+  for (const ranking of rankings) {
+    ranking.forEach((item, rank) => {
+      const id = key(item);
+      const entry = fused.get(id) ?? { item, score: 0 };
+      entry.score += 1 / (rankConstant + rank + 1);
+      fused.set(id, entry);
+    });
+  }
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
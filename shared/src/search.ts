@@ -0,0 +1,68 @@
+import type { Client } from "@elastic/elasticsearch";
+import type { Client as OpenSearchClient } from "@opensearch-project/opensearch";
+import { createElasticsearchBackend, type ElasticsearchBackendOptions } from "./elasticsearch-backend.js";
+import { embedderFromEnv, type Embedder } from "./embeddings.js";
+import { createLocalBackend } from "./local-backend.js";
+import { createOpenSearchBackend, type OpenSearchBackendOptions } from "./opensearch-backend.js";
+import {
+  DEFAULT_LOCAL_INDEX_DIR,
+  searchBackendKind,
+  type SearchBackend,
+  type SearchBackendKind,
+} from "./search-backend.js";
+
+export * from "./search-backend.js";
+export { symbolTextQuery } from "./query-dsl.js";
+export { createElasticsearchBackend, DEFAULT_SYMBOL_INDEX } from "./elasticsearch-backend.js";
+export type { ElasticsearchBackendOptions } from "./elasticsearch-backend.js";
+export { createLocalBackend, HASHED_VECTOR_DIMENSIONS, hashedVector, tokenize } from "./local-backend.js";
+export type { LocalBackendOptions } from "./local-backend.js";
+export { createOpenSearchBackend, PACKAGE_VECTOR_FIELD, SYMBOL_VECTOR_FIELD } from "./opensearch-backend.js";
+export type { OpenSearchBackendOptions } from "./opensearch-backend.js";
+export * from "./embeddings.js";
+
+export interface SearchBackendConfig {
+  /** Default: SEARCH_BACKEND, else "elasticsearch" */
+  kind?: SearchBackendKind;
+  /** Builds the Elasticsearch client; only called for that backend */
+  elasticsearch?: () => Client;
+  /** Index and alias overrides for the Elasticsearch backend */
+  elasticsearchOptions?: Omit<ElasticsearchBackendOptions, "client">;
+  /** Builds the OpenSearch client; only called for that backend */
+  opensearch?: () => OpenSearchClient;
+  /** Index and alias overrides for the OpenSearch backend */
+  opensearchOptions?: Omit<OpenSearchBackendOptions, "client" | "embedder">;
+  /** Default: Gemini per GEMINI_API_KEY and EMBEDDING_MODEL, else hashed vectors (OpenSearch only) */
+  embedder?: () => Embedder;
+  /** Default: LOCAL_INDEX_DIR, else .npm-intel/local-index */
+  localDirectory?: string;
+}
+
+/**
+ * The backend the config (or SEARCH_BACKEND) selects
+ */
+export function createSearchBackend(config: SearchBackendConfig = {}): SearchBackend {
+  const kind = config.kind ?? searchBackendKind();
+
+  if (kind === "local") {
+    return createLocalBackend({
+      directory: config.localDirectory ?? (process.env.LOCAL_INDEX_DIR || DEFAULT_LOCAL_INDEX_DIR),
+    });
+  }
+
+  if (kind === "opensearch") {
+    if (!config.opensearch) {
+      throw new Error("The opensearch search backend needs an OpenSearch client");
+    }
+    return createOpenSearchBackend({
+      ...config.opensearchOptions,
+      client: config.opensearch(),
+      embedder: (config.embedder ?? embedderFromEnv)(),
+    });
+  }
+
+  if (!config.elasticsearch) {
+    throw new Error("The elasticsearch search backend needs an Elasticsearch client");
+  }
+  return createElasticsearchBackend({ ...config.elasticsearchOptions, client: config.elasticsearch() });
+}
@@ -0,0 +1,129 @@
+import type { Client, estypes } from "@elastic/elasticsearch";
+import semver from "semver";
+
+export interface IndexedVersion {
+  version: string;
+  docId: string;
+  totalSymbols?: number;
+  indexedAt?: string;
+}
+
+/**
+ * Compare two versions newest first, falling back to string order for non-semver values
+ */
+function compareVersionsDesc(a: string, b: string): number {
+  const validA = semver.valid(a);
+  const validB = semver.valid(b);
+  if (validA && validB) return semver.rcompare(validA, validB);
+  if (validA) return -1;
+  if (validB) return 1;
+  return b.localeCompare(a);
+}
+
+/**
+ * Sort versions newest first
+ */
+export function sortVersionsDesc(versions: string[]): string[] {
+  return [...versions].sort(compareVersionsDesc);
+}
+
+/** Search for the package documents of every version of a package */
+export function indexedVersionsQuery(packageName: string): estypes.SearchRequest {
+  return {
+    size: 100,
+    query: {
+      term: {
+        name: packageName,
+      },
+    },
+    _source: ["version", "total_symbols", "indexed_at"],
+  };
+}
+
+/** Package document fields `indexedVersionsQuery` fetches */
+export interface VersionSource {
+  version?: string;
+  total_symbols?: number;
+  indexed_at?: string;
+}
+
+/**
+ * The versions among package document hits, newest first
+ */
+export function toIndexedVersions(
+  hits: Array<{ _id?: string | null; _source?: VersionSource }>,
+): IndexedVersion[] {
+  return hits
+    .flatMap(({ _id, _source }) =>
+      _id && _source?.version
+        ? [
+            {
+              version: _source.version,
+              docId: _id,
+              totalSymbols: _source.total_symbols,
+              indexedAt: _source.indexed_at,
+            },
+          ]
+        : [],
+    )
+    .sort((a, b) => compareVersionsDesc(a.version, b.version));
+}
+
+/**
+ * List every indexed version of a package, newest first
+ */
+export async function listIndexedVersions(
+  esClient: Client,
+  indexName: string,
+  packageName: string,
+): Promise<IndexedVersion[]> {
+  const response = await esClient.search<VersionSource>({
+    index: indexName,
+    ...indexedVersionsQuery(packageName),
+  });
+
+  return toIndexedVersions(response.hits.hits);
+}
+
+/**
+ * Pick the indexed version that best satisfies a version or range.
+ * Without a range (or with "latest") the newest indexed version wins.
+ */
+export function selectIndexedVersion(versions: string[], range?: string): string | null {
+  const sorted = sortVersionsDesc(versions);
+  if (!range || range === "latest") return sorted[0] ?? null;
+
+  if (sorted.includes(range)) return range;
+
+  const exact = semver.valid(range.replace(/^v/, ""));
+  if (exact) return sorted.includes(exact) ? exact : null;
+
+  if (!semver.validRange(range)) return null;
+  return sorted.find((version) => semver.satisfies(version, range)) ?? null;
+}
+
+/**
+ * Resolve a requested version or range against what is actually indexed
+ */
+export async function resolveIndexedVersion(
+  esClient: Client,
+  indexName: string,
+  packageName: string,
+  range?: string,
+): Promise<string | null> {
+  const versions = await listIndexedVersions(esClient, indexName, packageName);
+  return selectIndexedVersion(
+    versions.map((entry) => entry.version),
+    range,
+  );
+}
+
+/**
+ * Whether an indexed version satisfies an optional version or range filter
+ */
+export function matchesVersion(version: string, range?: string): boolean {
+  if (!range || range === "latest") return true;
+  if (version === range) return true;
+  if (!semver.valid(version) || !semver.validRange(range)) return false;
+  return semver.satisfies(version, range);
+}
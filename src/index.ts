@@ -2,6 +2,7 @@ import http from "http";
 import { URL } from "url";
 import * as dotenv from "dotenv";
 import { Client } from "@elastic/elasticsearch";
+import { Client as OpenSearchClient } from "@opensearch-project/opensearch";
 import { GoogleGenerativeAI, type GenerativeModel } from "@google/generative-ai";
 import { indexPackages } from "./ingestion/indexer.js";
 import {
@@ -10,37 +11,67 @@ import {
   type SymbolMatch,
 } from "@npm-intel/shared/answer";
 import type { AnswerRequest, AnswerResponse } from "@npm-intel/shared/answer";
+import {
+  createSearchBackend,
+  resolveStoredVersion,
+  searchBackendKind,
+  type PackageSearchHit,
+} from "@npm-intel/shared/search";
 
 dotenv.config();
 
 const PORT = Number(process.env.PORT || 3000);
-const INDEX_NAME = "npm-packages";
+const SEARCH_BACKEND = searchBackendKind();
 
 const ELASTIC_CLOUD_ID = process.env.ELASTIC_CLOUD_ID;
 const ELASTIC_ENDPOINT = process.env.ELASTIC_ENDPOINT;
 const ELASTIC_API_KEY = process.env.ELASTIC_API_KEY;
+const OPENSEARCH_NODE = process.env.OPENSEARCH_NODE;
+const OPENSEARCH_USERNAME = process.env.OPENSEARCH_USERNAME;
+const OPENSEARCH_PASSWORD = process.env.OPENSEARCH_PASSWORD;
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.VERTEX_AI_API_KEY;
 const GEMINI_MODEL = process.env.GEMINI_MODEL || "gemini-flash-latest";
+/** Package hits ranked to find candidate names when a version range is given */
+const VERSION_SEARCH_WINDOW = 50;
+
+// The local backend runs without any cluster
+if (SEARCH_BACKEND === "elasticsearch") {
+  if (!ELASTIC_API_KEY) {
+    console.error("❌ Missing ELASTIC_API_KEY");
+    process.exit(1);
+  }
 
-if (!ELASTIC_API_KEY) {
-  console.error("❌ Missing ELASTIC_API_KEY");
-  process.exit(1);
+  if (!ELASTIC_CLOUD_ID && !ELASTIC_ENDPOINT) {
+    console.error("❌ Provide either ELASTIC_CLOUD_ID or ELASTIC_ENDPOINT");
+    process.exit(1);
+  }
 }
 
-if (!ELASTIC_CLOUD_ID && !ELASTIC_ENDPOINT) {
-  console.error("❌ Provide either ELASTIC_CLOUD_ID or ELASTIC_ENDPOINT");
+if (SEARCH_BACKEND === "opensearch" && !OPENSEARCH_NODE) {
+  console.error("❌ Missing OPENSEARCH_NODE");
   process.exit(1);
 }
 
-const esClient = ELASTIC_CLOUD_ID
-  ? new Client({
-      cloud: { id: ELASTIC_CLOUD_ID },
-      auth: { apiKey: ELASTIC_API_KEY },
-    })
-  : new Client({
-      node: ELASTIC_ENDPOINT!,
-      auth: { apiKey: ELASTIC_API_KEY },
-    });
+const backend = createSearchBackend({
+  kind: SEARCH_BACKEND,
+  elasticsearch: () =>
+    ELASTIC_CLOUD_ID
+      ? new Client({
+          cloud: { id: ELASTIC_CLOUD_ID },
+          auth: { apiKey: ELASTIC_API_KEY! },
+        })
+      : new Client({
+          node: ELASTIC_ENDPOINT!,
+          auth: { apiKey: ELASTIC_API_KEY! },
+        }),
+  opensearch: () =>
+    new OpenSearchClient({
+      node: OPENSEARCH_NODE!,
+      ...(OPENSEARCH_USERNAME
+        ? { auth: { username: OPENSEARCH_USERNAME, password: OPENSEARCH_PASSWORD ?? "" } }
+        : {}),
+    }),
+});
 
 const genAI = GEMINI_API_KEY ? new GoogleGenerativeAI(GEMINI_API_KEY) : null;
 const FALLBACK_MODEL = "gemini-flash-lite-latest";
@@ -65,11 +96,12 @@ const generativeModels = (() => {
   return models;
 })();
 const answerService = createAnswerService({
-  esClient,
-  indexName: INDEX_NAME,
+  backend,
   generativeModels,
   maxRetries: 2,
   allowUngroundedFallback: true,
+  // Offline, answers fall back to the grounded APIs when there's no Gemini key
+  allowExtractiveAnswers: SEARCH_BACKEND === "local",
 });
 
 interface SearchResult {
@@ -87,6 +119,8 @@ interface SearchResult {
     snippet: string;
     is_exported: boolean;
     relevance_score?: number;
+    entry_points?: string[];
+    parent?: string;
   }>;
 }
 
@@ -96,80 +130,50 @@ function sendJSON(res: http.ServerResponse, status: number, payload: unknown): v
   res.end(JSON.stringify(payload, null, 2));
 }
 
-async function performSearch(query: string, limit: number): Promise<SearchResult[]> {
-  async function runHybridSearch() {
-    return esClient.search({
-      index: INDEX_NAME,
-      size: limit,
-      retriever: {
-        rrf: {
-          retrievers: [
-            {
-              standard: {
-                query: {
-                  multi_match: {
-                    query,
-                    fields: ["description^3", "readme_content", "keywords^2"],
-                  },
-                },
-              },
-            },
-            {
-              semantic: {
-                field: "readme_content",
-                query,
-              },
-            },
-          ],
-          rank_window_size: 50,
-          rank_constant: 60,
-        },
-      },
-      _source: ["name", "version", "description", "keywords", "total_symbols"],
-    } as any);
+/**
+ * Rank packages by name, then resolve the range against each one's stored
+ * versions: the best match may be a version the query ranked too low to
+ * fetch. Hits keep the score of their package's best-ranked version.
+ */
+async function searchVersionRange(
+  query: string,
+  limit: number,
+  range: string,
+): Promise<PackageSearchHit[]> {
+  const ranked = await backend.searchPackages({ query, size: VERSION_SEARCH_WINDOW });
+  const scores = new Map<string, number>();
+  for (const hit of ranked) {
+    if (!scores.has(hit.package.name)) scores.set(hit.package.name, hit.score);
   }
 
-  async function runBm25Fallback() {
-    return esClient.search({
-      index: INDEX_NAME,
-      size: limit,
-      query: {
-        multi_match: {
-          query,
-          fields: ["name^5", "description^3", "keywords^2", "code_examples"],
-        },
-      },
-      _source: ["name", "version", "description", "keywords", "total_symbols"],
-    });
-  }
-
-  let response;
-  try {
-    response = await runHybridSearch();
-  } catch (error: any) {
-    const reason = error?.meta?.body?.error?.root_cause?.[0]?.reason || "";
-    if (reason.includes("unknown field [semantic]")) {
-      console.warn("Semantic retriever unavailable; falling back to BM25 search.");
-      response = await runBm25Fallback();
-    } else {
-      throw error;
-    }
+  const hits: PackageSearchHit[] = [];
+  for (const [name, score] of scores) {
+    if (hits.length >= limit) break;
+    const resolved = await resolveStoredVersion(backend, name, range);
+    const stored = resolved ? await backend.getPackage(name, resolved) : null;
+    if (stored) hits.push({ ...stored, score });
   }
+  return hits;
+}
 
-  const hits = (response as any).hits.hits as Array<{
-    _id: string;
-    _score: number;
-    _source: any;
-  }>;
+async function performSearch(
+  query: string,
+  limit: number,
+  entryPoint?: string,
+  version?: string,
+): Promise<SearchResult[]> {
+  const hits = version
+    ? await searchVersionRange(query, limit, version)
+    : await backend.searchPackages({ query, size: limit });
 
   const results = await Promise.all(
     hits.map(async (hit) => {
       const symbolContext = await fetchAnswerSymbolContext({
-        esClient,
-        indexName: INDEX_NAME,
-        docId: hit._id,
+        backend,
+        docId: hit.id,
         query,
         maxSnippets: 3,
+        entryPoint,
       });
 
       const context = symbolContext.map((symbol: SymbolMatch) => ({
@@ -179,16 +183,18 @@ async function performSearch(query: string, limit: number): Promise<SearchResult
         snippet: symbol.snippet,
         is_exported: symbol.is_exported,
         relevance_score: symbol.relevance_score,
+        entry_points: symbol.entry_points,
+        parent: symbol.parent,
       }));
 
       return {
-        id: hit._id,
-        score: hit._score,
-        name: hit._source.name,
-        version: hit._source.version,
-        description: hit._source.description,
-        keywords: hit._source.keywords,
-        total_symbols: hit._source.total_symbols,
+        id: hit.id,
+        score: hit.score,
+        name: hit.package.name,
+        version: hit.package.version,
+        description: hit.package.description,
+        keywords: hit.package.keywords,
+        total_symbols: hit.package.total_symbols,
         context,
       };
     }),
@@ -206,16 +212,50 @@ async function handleSearchRequest(url: URL, res: http.ServerResponse) {
 
   const limitParam = url.searchParams.get("limit");
   const limit = limitParam ? Math.min(Math.max(Number(limitParam), 1), 25) : 5;
+  const entryPoint = url.searchParams.get("entryPoint") || undefined;
+  const version = url.searchParams.get("version") || undefined;
 
   try {
-    const results = await performSearch(query, limit);
-    sendJSON(res, 200, { query, count: results.length, results });
+    const results = await performSearch(query, limit, entryPoint, version);
+    sendJSON(res, 200, { query, version, count: results.length, results });
   } catch (error: any) {
     console.error("Search error:", error);
     sendJSON(res, 500, { error: error.message || "Search failed" });
   }
 }
 
+async function handleVersionsRequest(url: URL, res: http.ServerResponse) {
+  const packageName = url.searchParams.get("package");
+  if (!packageName) {
+    sendJSON(res, 400, { error: "Missing query parameter 'package'" });
+    return;
+  }
+
+  try {
+    const versions = await backend.listVersions(packageName);
+    sendJSON(res, 200, { packageName, count: versions.length, versions });
+  } catch (error: any) {
+    console.error("Versions error:", error);
+    sendJSON(res, 500, { error: error.message || "Failed to list versions" });
+  }
+}
+
+async function handlePackagesRequest(res: http.ServerResponse) {
+  try {
+    const packages = (await backend.listPackages()).map((stored) => ({
+      id: stored.id,
+      name: stored.package.name,
+      version: stored.package.version,
+      description: stored.package.description,
+      total_symbols: stored.package.total_symbols,
+    }));
+    sendJSON(res, 200, { backend: SEARCH_BACKEND, count: packages.length, packages });
+  } catch (error: any) {
+    console.error("Packages error:", error);
+    sendJSON(res, 500, { error: error.message || "Failed to list packages" });
+  }
+}
+
 async function handleAnswerRequest(req: http.IncomingMessage, res: http.ServerResponse) {
   let body = "";
   for await (const chunk of req) {
@@ -264,7 +304,7 @@ async function handleIndexRequest(req: http.IncomingMessage, res: http.ServerRes
     return;
   }
 
-  let payload: { packageName: string };
+  let payload: { packageName: string; version?: string };
   try {
     payload = JSON.parse(body);
   } catch {
@@ -284,21 +324,40 @@ async function handleIndexRequest(req: http.IncomingMessage, res: http.ServerRes
   return;
   }
 
+  if (payload.version !== undefined && (typeof payload.version !== "string" || !payload.version.trim())) {
+    sendJSON(res, 400, { error: "Field 'version' must be a non-empty string" });
+    return;
+  }
+
+  const spec = payload.version ? `${payload.packageName}@${payload.version.trim()}` : payload.packageName;
+
   try {
-  console.log(`📦 Backend: Starting actual indexing for package: ${payload.packageName}`);
+    console.log(`📦 Backend: Starting actual indexing for package: ${spec}`);
+
+    // Actually index the package (this will take some time)
+    const report = await indexPackages([spec]);
+    const result = report.packages[0];
 
-  // Actually index the package (this will take some time)
-  await indexPackages([payload.packageName]);
+    if (result.status !== "indexed") {
+      console.error(`📦 Backend: Indexing ${result.status === "timed_out" ? "timed out" : "failed"} for ${spec}: ${result.error}`);
+      sendJSON(res, result.status === "timed_out" ? 504 : 500, {
+        error: result.error || "Failed to index package",
+        report,
+      });
+      return;
+    }
 
-    console.log(`📦 Backend: Successfully indexed package: ${payload.packageName}`);
+    console.log(`📦 Backend: Successfully indexed package: ${spec}`);
 
     // Return success response
-  sendJSON(res, 200, {
-    success: true,
-  message: `${payload.packageName} successfully indexed`,
-  packageName: payload.packageName,
-  note: "Package is now available for chatting"
-  });
+    sendJSON(res, 200, {
+      success: true,
+      message: `${spec} successfully indexed`,
+      packageName: payload.packageName,
+      version: result.version ?? payload.version,
+      note: "Package is now available for chatting",
+      report,
+    });
   } catch (error: any) {
     console.error(`📦 Backend: Indexing failed for ${payload.packageName}:`, error);
   sendJSON(res, 500, { error: error.message || "Failed to index package" });
@@ -323,6 +382,16 @@ async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse
     return;
   }
 
+  if (req.method === "GET" && url.pathname === "/versions") {
+    await handleVersionsRequest(url, res);
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname === "/packages") {
+    await handlePackagesRequest(res);
+    return;
+  }
+
   if (req.method === "POST" && url.pathname === "/answer") {
   await handleAnswerRequest(req, res);
   return;
@@ -345,17 +414,19 @@ const server = http.createServer((req, res) => {
 });
 
 server.listen(PORT, () => {
-console.log(`🚀 NPM Intel API ready on http://localhost:${PORT}`);
+console.log(`🚀 NPM Intel API ready on http://localhost:${PORT} (${SEARCH_BACKEND} backend: ${backend.location})`);
 console.log("   • GET  /health");
-console.log("   • GET  /search?q=your+query");
-console.log("   • POST /answer { intent, packageName, searchQuery? }");
-  console.log("   • POST /index { packageName }");
+console.log("   • GET  /search?q=your+query&entryPoint=pkg/subpath&version=^3");
+console.log("   • GET  /versions?package=zod");
+console.log("   • GET  /packages");
+console.log("   • POST /answer { intent, packageName, version?, searchQuery?, entryPoint? }");
+  console.log("   • POST /index { packageName, version? }");
 });
 
 async function shutdown() {
   console.log("\nShutting down...");
   server.close();
-  await esClient.close();
+  await backend.close();
   process.exit(0);
 }
 
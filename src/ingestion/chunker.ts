@@ -0,0 +1,188 @@
+import * as path from "path";
+import * as ts from "typescript";
+import type { ParsedSymbol } from "./code-parser.js";
+
+/** Implementations longer than this are split into chunks (SYMBOL_CHUNK_SIZE) */
+export const DEFAULT_CHUNK_SIZE = Number(process.env.SYMBOL_CHUNK_SIZE || 4000);
+
+/**
+ * Position of one piece of a split symbol. Every chunk starts with `header`
+ * (the declaration up to its body), so it reads on its own; the rest of its
+ * implementation continues where the previous chunk stopped.
+ */
+export interface SymbolChunk {
+  index: number;
+  count: number;
+  header: string;
+  /** Shared by all chunks of one symbol ("src/client.ts#Client.request:120") */
+  group: string;
+}
+
+/** Symbol kinds whose implementation is a class member, not a statement */
+const MEMBER_KINDS = new Set<ParsedSymbol["kind"]>(["method", "constructor", "getter", "property"]);
+/** Members parse inside a class; positions are shifted back by its length */
+const MEMBER_WRAPPER = "class __Chunk {";
+
+/**
+ * Statement, member or property lists a declaration can be split between
+ */
+function boundaryList(node: ts.Node): readonly ts.Node[] | undefined {
+  if (ts.isBlock(node) || ts.isModuleBlock(node)) return node.statements;
+  if (ts.isClassLike(node) || ts.isInterfaceDeclaration(node) || ts.isEnumDeclaration(node)) {
+    return node.members;
+  }
+  if (ts.isTypeLiteralNode(node)) return node.members;
+  if (ts.isObjectLiteralExpression(node)) return node.properties;
+  if (ts.isArrayLiteralExpression(node)) return node.elements;
+  if (ts.isCaseBlock(node)) return node.clauses;
+  return undefined;
+}
+
+/**
+ * The widest splittable list in the declaration: a function's body rather
+ * than an object literal among its default parameters. `wrapper`'s own list
+ * doesn't count.
+ */
+function widestBoundaryList(
+  root: ts.Node,
+  sourceFile: ts.SourceFile,
+  wrapper?: ts.Node,
+): readonly ts.Node[] | undefined {
+  let widest: readonly ts.Node[] | undefined;
+  let widestSpan = 0;
+
+  const walk = (node: ts.Node) => {
+    const list = node === wrapper ? undefined : boundaryList(node);
+    if (list && list.length >= 2) {
+      const span = list[list.length - 1].end - list[0].getStart(sourceFile);
+      if (span > widestSpan) {
+        widest = list;
+        widestSpan = span;
+      }
+    }
+    ts.forEachChild(node, walk);
+  };
+  walk(root);
+
+  return widest;
+}
+
+/**
+ * Split text longer than `maxSize` between lines
+ */
+function splitLines(text: string, maxSize: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  // Each line keeps its leading newline, so the pieces concatenate back exactly
+  for (const line of text.split(/(?=\n)/)) {
+    if (current && current.length + line.length > maxSize) {
+      pieces.push(current);
+      current = "";
+    }
+    current += line;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Split an implementation into a header plus bodies of at most `maxSize`
+ * characters, cutting only between statements, members or properties.
+ * `header` followed by all the bodies is the original implementation. A
+ * `member` implementation (a method, accessor or constructor) is parsed
+ * inside a class, where it is valid syntax.
+ */
+export function splitImplementation(
+  implementation: string,
+  filePath: string,
+  maxSize: number = DEFAULT_CHUNK_SIZE,
+  member: boolean = false,
+): { header: string; bodies: string[] } | null {
+  if (implementation.length <= maxSize) return null;
+
+  const offset = member ? MEMBER_WRAPPER.length : 0;
+  const sourceFile = ts.createSourceFile(
+    path.basename(filePath),
+    member ? `${MEMBER_WRAPPER}${implementation}\n}` : implementation,
+    ts.ScriptTarget.Latest,
+    true,
+  );
+  // Overload signatures are members of the wrapper too; split the body instead
+  const wrapper = member ? sourceFile.statements.find(ts.isClassDeclaration) : undefined;
+  const found = widestBoundaryList(sourceFile, sourceFile, wrapper);
+  if (!found) return null;
+  const list = found.map((item) => item.pos - offset);
+
+  const header = implementation.slice(0, list[0]);
+  const budget = Math.max(maxSize - header.length, maxSize / 2);
+
+  // Each item runs to the next one's leading trivia, taking separating commas
+  // with it; the last one also takes the closing text of the declaration
+  const items = list.map((pos, i) =>
+    implementation.slice(pos, i === list.length - 1 ? implementation.length : list[i + 1]),
+  );
+
+  const bodies: string[] = [];
+  let current = "";
+  for (const item of items) {
+    if (current && current.length + item.length > budget) {
+      bodies.push(current);
+      current = "";
+    }
+    if (item.length > budget) {
+      // One statement bigger than a chunk: fall back to line boundaries inside it
+      bodies.push(...splitLines(item, budget));
+      continue;
+    }
+    current += item;
+  }
+  if (current) bodies.push(current);
+
+  return bodies.length > 1 ? { header, bodies } : null;
+}
+
+/**
+ * Split a symbol whose implementation is too large into linked chunks; other
+ * symbols come back unchanged
+ */
+export function chunkSymbol(
+  symbol: ParsedSymbol,
+  maxSize: number = DEFAULT_CHUNK_SIZE,
+): ParsedSymbol[] {
+  const split = splitImplementation(
+    symbol.implementation,
+    symbol.filePath,
+    maxSize,
+    MEMBER_KINDS.has(symbol.kind),
+  );
+  if (!split) return [symbol];
+
+  const { header, bodies } = split;
+  const qualifiedName = symbol.parent ? `${symbol.parent}.${symbol.name}` : symbol.name;
+  const group = `${symbol.filePath}#${qualifiedName}:${symbol.startLine}`;
+
+  let offset = header.length;
+  return bodies.map((body, index) => {
+    // Line range of this chunk's body within the file (without leading blank lines)
+    const leading = body.length - body.trimStart().length;
+    const startLine =
+      symbol.startLine + countLines(symbol.implementation.slice(0, offset + leading));
+    offset += body.length;
+    const endLine = symbol.startLine + countLines(symbol.implementation.slice(0, offset).trimEnd());
+
+    return {
+      ...symbol,
+      implementation: `${header.trimEnd()}\n${body.replace(/^\s*\n/, "")}`,
+      startLine: index === 0 ? symbol.startLine : startLine,
+      endLine,
+      // The doc comment describes the whole symbol; keep it on the first chunk
+      jsdoc: index === 0 ? symbol.jsdoc : undefined,
+      docs: index === 0 ? symbol.docs : undefined,
+      chunk: { index, count: bodies.length, header: header.trimEnd(), group },
+    };
+  });
+}
+
+function countLines(text: string): number {
+  return text.split("\n").length - 1;
+}
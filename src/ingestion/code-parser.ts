@@ -1,17 +1,70 @@
 import * as ts from "typescript";
+import { chunkSymbol, type SymbolChunk } from "./chunker.js";
+import type { FileClassification } from "./file-classifier.js";
+import { extractJSDoc, type SymbolDocs } from "./jsdoc.js";
+import { collectRelations, type SymbolRelations } from "./symbol-graph.js";
+import { createInMemoryHost, toVirtualPath } from "./virtual-program.js";
+
+export type SymbolVisibility = "public" | "private" | "protected";
+
+/**
+ * How a symbol relates to the package entry files: exported from one,
+ * in a file they import, or not loaded by them at all
+ */
+export type SymbolReachability = "public" | "internal" | "unreachable";
 
 export interface ParsedSymbol {
-  kind: "function" | "class" | "interface" | "type" | "const" | "variable";
+  kind:
+    | "function"
+    | "class"
+    | "interface"
+    | "type"
+    | "const"
+    | "variable"
+    | "method"
+    | "property"
+    | "getter"
+    | "constructor"
+    | "enum"
+    | "namespace";
   name: string;
   signature: string;
   implementation: string;
   jsdoc?: string;
+  /** Tags of the doc comment (@param, @returns, @example, @deprecated, ...) */
+  docs?: SymbolDocs;
   startLine: number;
   endLine: number;
   filePath: string;
   isExported: boolean;
+  /** Parameters and return type as written in the source */
   parameters?: string[];
   returnType?: string;
+  /** Signature with parameter and return types inferred by the type checker */
+  inferredSignature?: string;
+  inferredParameters?: string[];
+  inferredReturnType?: string;
+  /** Import specifiers that expose this symbol ("hono", "hono/cors") */
+  entryPoints?: string[];
+  /** Signatures of an overloaded function or method, in declaration order */
+  overloads?: string[];
+  /** Enclosing class or namespace of a member symbol */
+  parent?: string;
+  visibility?: SymbolVisibility;
+  isStatic?: boolean;
+  /** Member names of a class, enum or namespace, in declaration order */
+  members?: string[];
+  /** Set when the symbol comes from bundler output or generated code */
+  fileClassification?: Exclude<FileClassification, "source" | "minified">;
+  /** Other files with a copy of this symbol (compiled esm/cjs/dist builds) */
+  alternatePaths?: string[];
+  /** Names the symbol is exported under from the entry files ("Ratelimit", "utils.merge") */
+  exportedNames?: string[];
+  reachability?: SymbolReachability;
+  /** Set on the pieces of an implementation too large to index whole */
+  chunk?: SymbolChunk;
+  /** Calls, inheritance and type references to other symbols of the package */
+  relations?: SymbolRelations;
 }
 
 export interface ParseResult {
@@ -20,29 +73,6 @@ export interface ParseResult {
   filePath: string;
 }
 
-/**
- * Extract JSDoc comment if present
- */
-function extractJSDoc(
-  node: ts.Node,
-  sourceFile: ts.SourceFile,
-): string | undefined {
-  const fullText = sourceFile.getFullText();
-  const nodeStart = node.getFullStart();
-  const textBefore = fullText.substring(
-    Math.max(0, nodeStart - 500),
-    nodeStart,
-  );
-
-  // Match JSDoc comment
-  const jsdocMatch = textBefore.match(/\/\*\*([\s\S]*?)\*\/\s*$/);
-  if (jsdocMatch) {
-    return jsdocMatch[0].trim();
-  }
-
-  return undefined;
-}
-
 /**
  * Check if node is exported
  */
@@ -60,26 +90,104 @@ function isExported(node: ts.Node): boolean {
 /**
  * Extract function parameters
  */
-function extractParameters(
-  node: ts.FunctionDeclaration | ts.MethodDeclaration,
-): string[] {
+function extractParameters(node: ts.FunctionLikeDeclaration): string[] {
   return node.parameters.map((param) => {
     const name = param.name.getText();
-    const type = param.type ? param.type.getText() : "any";
-    return `${name}: ${type}`;
+    return param.type ? `${name}: ${param.type.getText()}` : name;
   });
 }
 
 /**
  * Extract return type
  */
-function extractReturnType(
-  node: ts.FunctionDeclaration | ts.MethodDeclaration,
-): string {
-  if (node.type) {
-    return node.type.getText();
+function extractReturnType(node: ts.FunctionLikeDeclaration): string | undefined {
+  return node.type?.getText();
+}
+
+// Type aliases are printed by name; expansions of long inferred types are cut here
+const TYPE_FORMAT = ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope;
+const MAX_EXPANDED_TYPE_LENGTH = 1000;
+
+type InferredSignature = Pick<
+  ParsedSymbol,
+  "inferredSignature" | "inferredParameters" | "inferredReturnType"
+>;
+
+/**
+ * Ask the type checker for the parameter and return types of a function-like
+ * declaration, including the ones left to inference
+ */
+function inferSignature(
+  checker: ts.TypeChecker | undefined,
+  node: ts.SignatureDeclaration,
+  label: string,
+): InferredSignature {
+  if (!checker) return {};
+  try {
+    const signature = checker.getSignatureFromDeclaration(node);
+    if (!signature) return {};
+
+    const inferredParameters = signature.getParameters().map((parameter) => {
+      const declaration = parameter.valueDeclaration;
+      const isParameter = declaration !== undefined && ts.isParameter(declaration);
+      const name = isParameter ? declaration.name.getText() : parameter.getName();
+      const rest = isParameter && declaration.dotDotDotToken ? "..." : "";
+      const optional =
+        isParameter && (declaration.questionToken || declaration.initializer) ? "?" : "";
+      const type = checker.getTypeOfSymbolAtLocation(parameter, node);
+      return `${rest}${name}${optional}: ${checker.typeToString(type, node, TYPE_FORMAT)}`;
+    });
+    const inferredReturnType = checker.typeToString(signature.getReturnType(), node, TYPE_FORMAT);
+
+    return {
+      inferredSignature: `${label}(${inferredParameters.join(", ")}): ${inferredReturnType}`,
+      inferredParameters,
+      inferredReturnType,
+    };
+  } catch {
+    // The checker can throw on code it can't make sense of; keep the declared signature
+    return {};
+  }
+}
+
+/**
+ * Inferred type of a variable or property, as "<label>: <type>"
+ */
+function inferValueType(
+  checker: ts.TypeChecker | undefined,
+  node: ts.VariableDeclaration | ts.PropertyDeclaration,
+  label: string,
+): InferredSignature {
+  if (!checker) return {};
+  try {
+    const type = checker.typeToString(checker.getTypeAtLocation(node.name), node, TYPE_FORMAT);
+    return { inferredSignature: `${label}: ${type}` };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * The structure a type alias resolves to ("type Options = { retries: number; ... }")
+ */
+function resolveTypeAlias(
+  checker: ts.TypeChecker | undefined,
+  node: ts.TypeAliasDeclaration,
+): InferredSignature {
+  if (!checker) return {};
+  try {
+    const expanded = checker.typeToString(
+      checker.getTypeAtLocation(node.name),
+      node,
+      ts.TypeFormatFlags.InTypeAlias | ts.TypeFormatFlags.NoTruncation,
+    );
+    if (expanded.length > MAX_EXPANDED_TYPE_LENGTH || expanded === node.type.getText()) {
+      return {};
+    }
+    return { inferredSignature: `type ${node.name.getText()} = ${expanded}` };
+  } catch {
+    return {};
   }
-  return "any";
 }
 
 /**
@@ -99,25 +207,83 @@ function getLineNumbers(
 }
 
 /**
- * Parse function declaration
+ * Declarations sharing a function's or method's name in the same scope. Overload
+ * signatures fold into the implementation, or into the first signature when
+ * there is none (ambient code); `primary` is false for the folded ones.
+ */
+function overloadGroup<T extends ts.FunctionDeclaration | ts.MethodDeclaration>(
+  node: T,
+  siblings: readonly ts.Node[],
+): { primary: boolean; declarations: T[]; overloads: T[] } {
+  const name = node.name?.getText();
+  const declarations = siblings.filter(
+    (sibling): sibling is T =>
+      sibling.kind === node.kind &&
+      (sibling as T).name?.getText() === name &&
+      (!ts.isMethodDeclaration(node) || isStaticMember(sibling as ts.MethodDeclaration) === isStaticMember(node)),
+  );
+  if (declarations.length <= 1) return { primary: true, declarations: [node], overloads: [] };
+
+  const implementation = declarations.find((declaration) => declaration.body);
+  return {
+    primary: node === (implementation ?? declarations[0]),
+    declarations,
+    overloads: implementation
+      ? declarations.filter((declaration) => !declaration.body)
+      : declarations,
+  };
+}
+
+/**
+ * Statements of the block, module or file a declaration sits in
+ */
+function siblingStatements(node: ts.Node): readonly ts.Node[] {
+  const parent = node.parent;
+  if (parent && (ts.isSourceFile(parent) || ts.isBlock(parent) || ts.isModuleBlock(parent))) {
+    return parent.statements;
+  }
+  return [node];
+}
+
+/**
+ * Parameter list and return annotation as written ("(a: string): number")
+ */
+function writtenSignature(node: ts.SignatureDeclaration): string {
+  const params = node.parameters.map((p) => p.getText()).join(", ");
+  return `(${params})${node.type ? `: ${node.type.getText()}` : ""}`;
+}
+
+/**
+ * Parse function declaration; overloads are grouped under one symbol
  */
 function parseFunction(
   node: ts.FunctionDeclaration,
   sourceFile: ts.SourceFile,
   filePath: string,
+  checker?: ts.TypeChecker,
 ): ParsedSymbol | null {
   if (!node.name) return null;
 
+  const { primary, declarations, overloads } = overloadGroup(node, siblingStatements(node));
+  if (!primary) return null;
+
   const name = node.name.getText();
-  const implementation = node.getText();
-  const lines = getLineNumbers(node, sourceFile);
-  const jsdoc = extractJSDoc(node, sourceFile);
+  const first = declarations[0];
+  const implementation = sourceFile.text.slice(first.getStart(sourceFile), node.end);
+  const lines = {
+    start: getLineNumbers(first, sourceFile).start,
+    end: getLineNumbers(node, sourceFile).end,
+  };
+  const { jsdoc, docs } = extractJSDoc(first, sourceFile);
   const parameters = extractParameters(node);
   const returnType = extractReturnType(node);
 
-  // Create signature
-  const params = node.parameters.map((p) => p.getText()).join(", ");
-  const signature = `function ${name}(${params})${node.type ? `: ${node.type.getText()}` : ""}`;
+  // Create signature; callers see the overloads, not the implementation's
+  const overloadSignatures = overloads.map((overload) => `function ${name}${writtenSignature(overload)}`);
+  const signature =
+    overloadSignatures.length > 0
+      ? overloadSignatures.join("\n")
+      : `function ${name}${writtenSignature(node)}`;
 
   return {
     kind: "function",
@@ -125,29 +291,203 @@ function parseFunction(
     signature,
     implementation,
     jsdoc,
+    docs,
     startLine: lines.start,
     endLine: lines.end,
     filePath,
     isExported: isExported(node),
     parameters,
     returnType,
+    ...(overloadSignatures.length > 0
+      ? { overloads: overloadSignatures }
+      : inferSignature(checker, node, `function ${name}`)),
+    relations: collectRelations(node, { checker }),
   };
 }
 
 /**
- * Parse class declaration
+ * Visibility of a class member; `#private` names count as private
+ */
+function memberVisibility(member: ts.ClassElement): SymbolVisibility {
+  if (member.name && ts.isPrivateIdentifier(member.name)) return "private";
+  const modifiers = ts.canHaveModifiers(member) ? ts.getModifiers(member) ?? [] : [];
+  if (modifiers.some((modifier) => modifier.kind === ts.SyntaxKind.PrivateKeyword)) {
+    return "private";
+  }
+  if (modifiers.some((modifier) => modifier.kind === ts.SyntaxKind.ProtectedKeyword)) {
+    return "protected";
+  }
+  return "public";
+}
+
+function isStaticMember(member: ts.ClassElement): boolean {
+  const modifiers = ts.canHaveModifiers(member) ? ts.getModifiers(member) ?? [] : [];
+  return modifiers.some((modifier) => modifier.kind === ts.SyntaxKind.StaticKeyword);
+}
+
+/**
+ * Modifier keywords worth showing in a member signature ("static async ")
+ */
+function memberModifierPrefix(member: ts.ClassElement): string {
+  const shown = new Set([
+    ts.SyntaxKind.PrivateKeyword,
+    ts.SyntaxKind.ProtectedKeyword,
+    ts.SyntaxKind.StaticKeyword,
+    ts.SyntaxKind.AbstractKeyword,
+    ts.SyntaxKind.AsyncKeyword,
+    ts.SyntaxKind.ReadonlyKeyword,
+  ]);
+  const modifiers = ts.canHaveModifiers(member) ? ts.getModifiers(member) ?? [] : [];
+  return modifiers
+    .filter((modifier) => shown.has(modifier.kind))
+    .map((modifier) => `${modifier.getText()} `)
+    .join("");
+}
+
+/**
+ * One line of the class outline: the member without its body or initializer
+ */
+function outlineMember(member: ts.ClassElement, sourceFile: ts.SourceFile): string | null {
+  if (ts.isClassStaticBlockDeclaration(member) || ts.isSemicolonClassElement(member)) {
+    return null;
+  }
+  if (
+    (ts.isMethodDeclaration(member) ||
+      ts.isConstructorDeclaration(member) ||
+      ts.isAccessor(member)) &&
+    member.body
+  ) {
+    return `${sourceFile.text.slice(member.getStart(), member.body.getStart()).trim()};`;
+  }
+  if (ts.isPropertyDeclaration(member)) {
+    const modifiers = (ts.getModifiers(member) ?? []).map((modifier) => `${modifier.getText()} `);
+    const optional = member.questionToken ? "?" : "";
+    const type = member.type ? `: ${member.type.getText()}` : "";
+    return `${modifiers.join("")}${member.name.getText()}${optional}${type};`;
+  }
+  return member.getText();
+}
+
+/**
+ * Parse the constructor, methods, properties and accessors of a class
+ */
+function parseClassMembers(
+  node: ts.ClassDeclaration,
+  className: string,
+  classExported: boolean,
+  sourceFile: ts.SourceFile,
+  filePath: string,
+  checker?: ts.TypeChecker,
+): ParsedSymbol[] {
+  const symbols: ParsedSymbol[] = [];
+  const getterNames = new Set(
+    node.members
+      .filter(ts.isGetAccessorDeclaration)
+      .map((member) => member.name.getText()),
+  );
+
+  for (const member of node.members) {
+    let kind: ParsedSymbol["kind"];
+    let name: string;
+    let signature: string;
+    let parameters: string[] | undefined;
+    let returnType: string | undefined;
+    let inferred: InferredSignature & Pick<ParsedSymbol, "overloads">;
+    // Overloaded methods span from their first signature
+    let start: ts.ClassElement = member;
+
+    const prefix = memberModifierPrefix(member);
+
+    if (ts.isConstructorDeclaration(member)) {
+      kind = "constructor";
+      name = "constructor";
+      parameters = extractParameters(member);
+      const params = member.parameters.map((p) => p.getText()).join(", ");
+      signature = `new ${className}(${params})`;
+      inferred = inferSignature(checker, member, `new ${className}`);
+    } else if (ts.isMethodDeclaration(member)) {
+      const { primary, declarations, overloads } = overloadGroup(member, node.members);
+      if (!primary) continue;
+
+      kind = "method";
+      name = member.name.getText();
+      parameters = extractParameters(member);
+      returnType = extractReturnType(member);
+      signature = `${prefix}${className}.${name}${writtenSignature(member)}`;
+      inferred = inferSignature(checker, member, `${prefix}${className}.${name}`);
+      if (overloads.length > 0) {
+        const overloadSignatures = overloads.map(
+          (overload) => `${memberModifierPrefix(overload)}${className}.${name}${writtenSignature(overload)}`,
+        );
+        signature = overloadSignatures.join("\n");
+        inferred = { overloads: overloadSignatures };
+        start = declarations[0];
+      }
+    } else if (ts.isGetAccessorDeclaration(member)) {
+      kind = "getter";
+      name = member.name.getText();
+      returnType = extractReturnType(member);
+      signature = `${prefix}get ${className}.${name}()${member.type ? `: ${member.type.getText()}` : ""}`;
+      inferred = inferSignature(checker, member, `${prefix}get ${className}.${name}`);
+    } else if (ts.isSetAccessorDeclaration(member)) {
+      name = member.name.getText();
+      // The getter already documents the property
+      if (getterNames.has(name)) continue;
+      kind = "property";
+      parameters = extractParameters(member);
+      const params = member.parameters.map((p) => p.getText()).join(", ");
+      signature = `${prefix}set ${className}.${name}(${params})`;
+      inferred = inferSignature(checker, member, `${prefix}set ${className}.${name}`);
+    } else if (ts.isPropertyDeclaration(member)) {
+      kind = "property";
+      name = member.name.getText();
+      const optional = member.questionToken ? "?" : "";
+      signature = `${prefix}${className}.${name}${optional}${member.type ? `: ${member.type.getText()}` : ""}`;
+      inferred = inferValueType(checker, member, `${prefix}${className}.${name}${optional}`);
+    } else {
+      continue;
+    }
+
+    const visibility = memberVisibility(member);
+
+    symbols.push({
+      kind,
+      name,
+      signature,
+      implementation: sourceFile.text.slice(start.getStart(sourceFile), member.end),
+      ...extractJSDoc(start, sourceFile),
+      startLine: getLineNumbers(start, sourceFile).start,
+      endLine: getLineNumbers(member, sourceFile).end,
+      filePath,
+      isExported: classExported && visibility === "public",
+      parameters,
+      returnType,
+      ...inferred,
+      parent: className,
+      visibility,
+      isStatic: isStaticMember(member),
+      relations: collectRelations(member, { checker }),
+    });
+  }
+
+  return symbols;
+}
+
+/**
+ * Parse class declaration into a class outline plus one symbol per member
  */
 function parseClass(
   node: ts.ClassDeclaration,
   sourceFile: ts.SourceFile,
   filePath: string,
-): ParsedSymbol | null {
-  if (!node.name) return null;
+  checker?: ts.TypeChecker,
+): ParsedSymbol[] {
+  if (!node.name) return [];
 
   const name = node.name.getText();
-  const implementation = node.getText();
   const lines = getLineNumbers(node, sourceFile);
-  const jsdoc = extractJSDoc(node, sourceFile);
+  const { jsdoc, docs } = extractJSDoc(node, sourceFile);
+  const exported = isExported(node);
 
   // Extract class signature (without full implementation)
   const heritage = node.heritageClauses
@@ -155,17 +495,32 @@ function parseClass(
     .join(" ");
   const signature = `class ${name}${heritage ? ` ${heritage}` : ""}`;
 
-  return {
-    kind: "class",
-    name,
-    signature,
-    implementation,
-    jsdoc,
-    startLine: lines.start,
-    endLine: lines.end,
-    filePath,
-    isExported: isExported(node),
-  };
+  // Members are indexed on their own, so the class keeps only their outline
+  const outline = node.members
+    .map((member) => outlineMember(member, sourceFile))
+    .filter((line): line is string => line !== null)
+    .map((line) => `  ${line}`);
+  const implementation = [`${signature} {`, ...outline, "}"].join("\n");
+
+  const members = parseClassMembers(node, name, exported, sourceFile, filePath, checker);
+
+  return [
+    {
+      kind: "class",
+      name,
+      signature,
+      implementation,
+      jsdoc,
+      docs,
+      startLine: lines.start,
+      endLine: lines.end,
+      filePath,
+      isExported: exported,
+      members: [...new Set(members.map((member) => member.name))],
+      relations: collectRelations(node, { checker, heritageOnly: true }),
+    },
+    ...members,
+  ];
 }
 
 /**
@@ -175,11 +530,12 @@ function parseInterface(
   node: ts.InterfaceDeclaration,
   sourceFile: ts.SourceFile,
   filePath: string,
+  checker?: ts.TypeChecker,
 ): ParsedSymbol | null {
   const name = node.name.getText();
   const implementation = node.getText();
   const lines = getLineNumbers(node, sourceFile);
-  const jsdoc = extractJSDoc(node, sourceFile);
+  const { jsdoc, docs } = extractJSDoc(node, sourceFile);
 
   const signature = `interface ${name}`;
 
@@ -189,10 +545,12 @@ function parseInterface(
     signature,
     implementation,
     jsdoc,
+    docs,
     startLine: lines.start,
     endLine: lines.end,
     filePath,
     isExported: isExported(node),
+    relations: collectRelations(node, { checker }),
   };
 }
 
@@ -203,11 +561,12 @@ function parseTypeAlias(
   node: ts.TypeAliasDeclaration,
   sourceFile: ts.SourceFile,
   filePath: string,
+  checker?: ts.TypeChecker,
 ): ParsedSymbol | null {
   const name = node.name.getText();
   const implementation = node.getText();
   const lines = getLineNumbers(node, sourceFile);
-  const jsdoc = extractJSDoc(node, sourceFile);
+  const { jsdoc, docs } = extractJSDoc(node, sourceFile);
 
   const signature = `type ${name}`;
 
@@ -217,20 +576,45 @@ function parseTypeAlias(
     signature,
     implementation,
     jsdoc,
+    docs,
     startLine: lines.start,
     endLine: lines.end,
     filePath,
     isExported: isExported(node),
+    ...resolveTypeAlias(checker, node),
+    relations: collectRelations(node, { checker }),
   };
 }
 
 /**
- * Parse variable/const declaration
+ * The arrow function or function expression a variable is initialized with,
+ * looking through parentheses and `as`/`satisfies`
+ */
+function functionInitializer(
+  initializer: ts.Expression | undefined,
+): ts.ArrowFunction | ts.FunctionExpression | undefined {
+  let expression = initializer;
+  while (
+    expression &&
+    (ts.isParenthesizedExpression(expression) ||
+      ts.isAsExpression(expression) ||
+      ts.isSatisfiesExpression(expression))
+  ) {
+    expression = expression.expression;
+  }
+  return expression && (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression))
+    ? expression
+    : undefined;
+}
+
+/**
+ * Parse variable/const declaration; function-valued ones become functions
  */
 function parseVariable(
   node: ts.VariableStatement,
   sourceFile: ts.SourceFile,
   filePath: string,
+  checker?: ts.TypeChecker,
 ): ParsedSymbol[] {
   const symbols: ParsedSymbol[] = [];
 
@@ -238,28 +622,157 @@ function parseVariable(
     const name = declaration.name.getText();
     const implementation = node.getText();
     const lines = getLineNumbers(node, sourceFile);
-    const jsdoc = extractJSDoc(node, sourceFile);
+    const { jsdoc, docs } = extractJSDoc(node, sourceFile);
 
     const kind =
       node.declarationList.flags & ts.NodeFlags.Const ? "const" : "variable";
-    const signature = `${kind} ${name}${declaration.type ? `: ${declaration.type.getText()}` : ""}`;
+    const declaredType = declaration.type ? `: ${declaration.type.getText()}` : "";
+    const fn = functionInitializer(declaration.initializer);
+
+    if (fn) {
+      // const createClient = async (opts: Options): Promise<Client> => ...
+      const isAsync = (ts.getModifiers(fn) ?? []).some(
+        (modifier) => modifier.kind === ts.SyntaxKind.AsyncKeyword,
+      );
+      const value = ts.isArrowFunction(fn)
+        ? `${isAsync ? "async " : ""}${writtenSignature(fn)} =>`
+        : `${isAsync ? "async " : ""}function${fn.asteriskToken ? "*" : ""}${writtenSignature(fn)}`;
+
+      symbols.push({
+        kind: "function",
+        name,
+        signature: `${kind} ${name}${declaredType} = ${value}`,
+        implementation,
+        jsdoc,
+        docs,
+        startLine: lines.start,
+        endLine: lines.end,
+        filePath,
+        isExported: isExported(node),
+        parameters: extractParameters(fn),
+        returnType: extractReturnType(fn),
+        ...inferSignature(checker, fn, `function ${name}`),
+        relations: collectRelations(declaration, { checker }),
+      });
+      continue;
+    }
 
     symbols.push({
       kind,
       name,
-      signature,
+      signature: `${kind} ${name}${declaredType}`,
       implementation,
       jsdoc,
+      docs,
       startLine: lines.start,
       endLine: lines.end,
       filePath,
       isExported: isExported(node),
+      ...inferValueType(checker, declaration, `${kind} ${name}`),
+      relations: collectRelations(declaration, { checker }),
     });
   }
 
   return symbols;
 }
 
+/**
+ * Parse enum declaration, with member values resolved by the checker
+ */
+function parseEnum(
+  node: ts.EnumDeclaration,
+  sourceFile: ts.SourceFile,
+  filePath: string,
+  checker?: ts.TypeChecker,
+): ParsedSymbol {
+  const name = node.name.getText();
+  const lines = getLineNumbers(node, sourceFile);
+  const { jsdoc, docs } = extractJSDoc(node, sourceFile);
+  const isConst = (ts.getModifiers(node) ?? []).some(
+    (modifier) => modifier.kind === ts.SyntaxKind.ConstKeyword,
+  );
+  const signature = `${isConst ? "const " : ""}enum ${name}`;
+
+  // Implicit and computed member values are only known to the checker
+  let inferredSignature: string | undefined;
+  if (checker && node.members.some((member) => !member.initializer || !ts.isLiteralExpression(member.initializer))) {
+    const values = node.members.map((member) => {
+      const value = checker.getConstantValue(member);
+      return `${member.name.getText()}${value === undefined ? "" : ` = ${JSON.stringify(value)}`}`;
+    });
+    const resolved = `${signature} { ${values.join(", ")} }`;
+    if (resolved.length <= MAX_EXPANDED_TYPE_LENGTH) inferredSignature = resolved;
+  }
+
+  return {
+    kind: "enum",
+    name,
+    signature,
+    implementation: node.getText(),
+    jsdoc,
+    docs,
+    startLine: lines.start,
+    endLine: lines.end,
+    filePath,
+    isExported: isExported(node),
+    members: node.members.map((member) => member.name.getText()),
+    inferredSignature,
+  };
+}
+
+/**
+ * Parse a namespace (or `declare module`) into an outline plus its
+ * declarations, which are linked to it as members
+ */
+function parseNamespace(
+  node: ts.ModuleDeclaration,
+  sourceFile: ts.SourceFile,
+  filePath: string,
+  checker?: ts.TypeChecker,
+): ParsedSymbol[] {
+  const name = node.name.getText();
+  const lines = getLineNumbers(node, sourceFile);
+  const { jsdoc, docs } = extractJSDoc(node, sourceFile);
+  // The inner part of a dotted `namespace A.B` is implicitly exported from A
+  const exported = isExported(node) || ts.isModuleDeclaration(node.parent);
+  const signature =
+    node.flags & ts.NodeFlags.GlobalAugmentation
+      ? "declare global"
+      : `${node.flags & ts.NodeFlags.Namespace ? "namespace" : "module"} ${name}`;
+
+  const inner: ParsedSymbol[] = [];
+  if (node.body) visit(node.body, sourceFile, filePath, inner, checker);
+
+  // Class members and nested namespace members already have their own parent
+  const members = inner.filter((symbol) => !symbol.parent);
+  for (const member of members) {
+    member.parent = name;
+    member.visibility = member.isExported ? "public" : "private";
+    member.isExported = exported && member.isExported;
+  }
+  // Nothing inside a namespace that isn't exported is reachable from outside
+  if (!exported) inner.forEach((symbol) => (symbol.isExported = false));
+
+  const outline = members.map((member) => `  ${member.signature.split("\n")[0]};`);
+
+  return [
+    {
+      kind: "namespace",
+      name,
+      signature,
+      implementation: [`${signature} {`, ...outline, "}"].join("\n"),
+      jsdoc,
+      docs,
+      startLine: lines.start,
+      endLine: lines.end,
+      filePath,
+      isExported: exported,
+      members: [...new Set(members.map((member) => member.name))],
+    },
+    ...inner,
+  ];
+}
+
 /**
  * Visit AST nodes and extract symbols
  */
@@ -268,50 +781,96 @@ function visit(
   sourceFile: ts.SourceFile,
   filePath: string,
   symbols: ParsedSymbol[],
+  checker?: ts.TypeChecker,
 ): void {
   // Index ALL symbols (exported and internal) for complete coverage
   // We'll track export status and filter by quality, not by export status
 
   if (ts.isFunctionDeclaration(node)) {
-    const symbol = parseFunction(node, sourceFile, filePath);
+    const symbol = parseFunction(node, sourceFile, filePath, checker);
     if (symbol) symbols.push(symbol);
   } else if (ts.isClassDeclaration(node)) {
-    const symbol = parseClass(node, sourceFile, filePath);
-    if (symbol) symbols.push(symbol);
+    symbols.push(...parseClass(node, sourceFile, filePath, checker));
   } else if (ts.isInterfaceDeclaration(node)) {
-    const symbol = parseInterface(node, sourceFile, filePath);
+    const symbol = parseInterface(node, sourceFile, filePath, checker);
     if (symbol) symbols.push(symbol);
   } else if (ts.isTypeAliasDeclaration(node)) {
-    const symbol = parseTypeAlias(node, sourceFile, filePath);
+    const symbol = parseTypeAlias(node, sourceFile, filePath, checker);
     if (symbol) symbols.push(symbol);
   } else if (ts.isVariableStatement(node)) {
-    const variableSymbols = parseVariable(node, sourceFile, filePath);
+    const variableSymbols = parseVariable(node, sourceFile, filePath, checker);
     symbols.push(...variableSymbols);
+  } else if (ts.isEnumDeclaration(node)) {
+    symbols.push(parseEnum(node, sourceFile, filePath, checker));
+  } else if (ts.isModuleDeclaration(node)) {
+    // The namespace visits its own body to link the declarations inside it
+    symbols.push(...parseNamespace(node, sourceFile, filePath, checker));
+    return;
   }
 
   // Continue traversing
-  ts.forEachChild(node, (child) => visit(child, sourceFile, filePath, symbols));
+  ts.forEachChild(node, (child) => visit(child, sourceFile, filePath, symbols, checker));
+}
+
+const PROGRAM_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  lib: ["lib.es2022.d.ts", "lib.dom.d.ts"],
+  types: [],
+  allowJs: true,
+  checkJs: false,
+  strict: true,
+  skipLibCheck: true,
+  noEmit: true,
+};
+
+/**
+ * Build one program over the fetched sources plus the package's shipped
+ * declaration files, so the checker can follow imports between them
+ */
+function createSourceProgram(
+  files: Array<{ path: string; content: string }>,
+  declarationFiles: Record<string, string>,
+): ts.Program | null {
+  const programFiles: Record<string, string> = { ...declarationFiles };
+  files.forEach((file) => (programFiles[file.path] = file.content));
+
+  try {
+    return ts.createProgram({
+      rootNames: files.map((file) => toVirtualPath(file.path)),
+      options: PROGRAM_OPTIONS,
+      host: createInMemoryHost(programFiles, { withLib: true }),
+    });
+  } catch (error: any) {
+    console.log(`     ⚠️  Type checker unavailable, using declared types only: ${error.message}`);
+    return null;
+  }
 }
 
 /**
- * Parse a TypeScript or JavaScript file
+ * Parse a TypeScript or JavaScript file. With a type checker (and the file's
+ * node from the same program), signatures include inferred types.
  */
 export function parseSourceFile(
   filePath: string,
   content: string,
+  typed?: { sourceFile: ts.SourceFile; checker: ts.TypeChecker },
 ): ParseResult {
   // Create source file
-  const sourceFile = ts.createSourceFile(
-    filePath,
-    content,
-    ts.ScriptTarget.Latest,
-    true, // setParentNodes
-  );
+  const sourceFile =
+    typed?.sourceFile ??
+    ts.createSourceFile(
+      filePath,
+      content,
+      ts.ScriptTarget.Latest,
+      true, // setParentNodes
+    );
 
   const symbols: ParsedSymbol[] = [];
 
   // Visit all nodes
-  visit(sourceFile, sourceFile, filePath, symbols);
+  visit(sourceFile, sourceFile, filePath, symbols, typed?.checker);
 
   return {
     symbols,
@@ -321,16 +880,24 @@ export function parseSourceFile(
 }
 
 /**
- * Parse multiple source files
+ * Parse multiple source files, inferring types across them with one program
  */
 export function parseSourceFiles(
   files: Array<{ path: string; content: string }>,
+  declarationFiles: Record<string, string> = {},
 ): ParsedSymbol[] {
   const allSymbols: ParsedSymbol[] = [];
+  const program = createSourceProgram(files, declarationFiles);
+  const checker = program?.getTypeChecker();
 
   for (const file of files) {
     try {
-      const result = parseSourceFile(file.path, file.content);
+      const sourceFile = program?.getSourceFile(toVirtualPath(file.path));
+      const result = parseSourceFile(
+        file.path,
+        file.content,
+        sourceFile && checker ? { sourceFile, checker } : undefined,
+      );
       allSymbols.push(...result.symbols);
     } catch (error: any) {
       console.log(`     ⚠️  Failed to parse ${file.path}: ${error.message}`);
@@ -342,15 +909,21 @@ export function parseSourceFiles(
 
 /**
  * Filter symbols by quality (not by export status)
- * Index ALL functions/classes but filter out noise
+ * Index ALL functions/classes but filter out noise; large implementations
+ * are split into chunks rather than dropped
  */
 export function filterRelevantSymbols(symbols: ParsedSymbol[]): ParsedSymbol[] {
-  return symbols.filter((symbol) => {
-    // Skip trivial implementations (getters, setters, simple constants)
-    if (symbol.implementation.length < 50) return false;
-
-    // Skip extremely large implementations (might be generated code or test data)
-    if (symbol.implementation.length > 10000) return false;
+  const relevant = symbols.filter((symbol) => {
+    // Skip trivial internal implementations (getters, setters, simple constants).
+    // Public ones stay however small, as do documented class members - their
+    // JSDoc is what people search for
+    if (
+      symbol.implementation.length < 50 &&
+      !symbol.isExported &&
+      !(symbol.parent && symbol.jsdoc)
+    ) {
+      return false;
+    }
 
     // Skip test files (should already be filtered at fetch level, but double-check)
     if (
@@ -372,67 +945,8 @@ export function filterRelevantSymbols(symbols: ParsedSymbol[]): ParsedSymbol[] {
 
     return true;
   });
-}
-
-/**
- * Calculate relevance score for a symbol
- * Higher score = more important for search results
- */
-export function calculateRelevanceScore(symbol: ParsedSymbol): number {
-  let score = 0;
-
-  // Exported symbols are most relevant
-  if (symbol.isExported) score += 10;
-
-  // Has JSDoc documentation
-  if (symbol.jsdoc && symbol.jsdoc.length > 20) score += 5;
-
-  // Public name (not prefixed with _ or __)
-  if (!symbol.name.startsWith("_")) score += 3;
-
-  // Reasonable size (not too small, not too large)
-  if (
-    symbol.implementation.length > 100 &&
-    symbol.implementation.length < 2000
-  ) {
-    score += 2;
-  }
-
-  // Contains important async patterns
-  if (
-    symbol.implementation.includes("async") ||
-    symbol.implementation.includes("await")
-  ) {
-    score += 2;
-  }
-
-  // Contains error handling
-  if (
-    symbol.implementation.includes("try") ||
-    symbol.implementation.includes("catch") ||
-    symbol.implementation.includes("throw")
-  ) {
-    score += 1;
-  }
-
-  // Contains important operations
-  const importantKeywords = [
-    "fetch",
-    "request",
-    "http",
-    "api",
-    "execute",
-    "call",
-  ];
-  if (
-    importantKeywords.some((keyword) =>
-      symbol.implementation.toLowerCase().includes(keyword),
-    )
-  ) {
-    score += 2;
-  }
 
-  return score;
+  return relevant.flatMap((symbol) => chunkSymbol(symbol));
 }
 
 /**
@@ -456,12 +970,43 @@ export function createSymbolSearchText(symbol: ParsedSymbol): string {
   parts.push(`File: ${symbol.filePath}`);
   parts.push(`Type: ${symbol.kind}`);
 
-  if (symbol.parameters && symbol.parameters.length > 0) {
-    parts.push(`Parameters: ${symbol.parameters.join(", ")}`);
+  if (symbol.chunk) {
+    parts.push(`Part ${symbol.chunk.index + 1} of ${symbol.chunk.count}`);
+  }
+
+  if (symbol.parent) {
+    const modifiers = [symbol.visibility, symbol.isStatic ? "static" : ""].filter(Boolean);
+    parts.push(`Member of: ${symbol.parent} (${modifiers.join(" ")})`);
+  }
+
+  if (symbol.members && symbol.members.length > 0) {
+    parts.push(`Members: ${symbol.members.join(", ")}`);
+  }
+
+  if (symbol.docs?.deprecated) {
+    parts.push(`Deprecated${symbol.docs.deprecationReason ? `: ${symbol.docs.deprecationReason}` : ""}`);
+  }
+
+  if (symbol.inferredSignature && symbol.inferredSignature !== symbol.signature) {
+    parts.push(`Inferred: ${symbol.inferredSignature}`);
+  }
+
+  const parameters = symbol.inferredParameters ?? symbol.parameters;
+  if (parameters && parameters.length > 0) {
+    parts.push(`Parameters: ${parameters.join(", ")}`);
+  }
+
+  const returnType = symbol.inferredReturnType ?? symbol.returnType;
+  if (returnType) {
+    parts.push(`Returns: ${returnType}`);
+  }
+
+  if (symbol.exportedNames && symbol.exportedNames.length > 0) {
+    parts.push(`Exported as: ${symbol.exportedNames.join(", ")}`);
   }
 
-  if (symbol.returnType) {
-    parts.push(`Returns: ${symbol.returnType}`);
+  if (symbol.entryPoints && symbol.entryPoints.length > 0) {
+    parts.push(`Import from: ${symbol.entryPoints.join(", ")}`);
   }
 
   return parts.join("\n\n");
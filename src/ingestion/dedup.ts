@@ -0,0 +1,190 @@
+import * as ts from "typescript";
+import type { ParsedSymbol, SymbolReachability } from "./code-parser.js";
+import { toModuleStem } from "./entry-points.js";
+import { sourcePreference } from "./file-selector.js";
+import { symbolId } from "./symbol-graph.js";
+
+export interface DedupResult {
+  symbols: ParsedSymbol[];
+  /** Symbols folded into another copy of themselves */
+  collapsed: number;
+}
+
+const REACHABILITY_RANK: Record<SymbolReachability, number> = {
+  public: 0,
+  internal: 1,
+  unreachable: 2,
+};
+
+/**
+ * Body without comments, whitespace, semicolons and export keywords, so the
+ * ESM and CommonJS builds of one function compare equal
+ */
+function normalizeBody(implementation: string): string {
+  return implementation
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(/(^|[^:])\/\/.*$/gm, "$1")
+    .replace(/\bexport\s+(default\s+)?/g, "")
+    .replace(/[\s;]+/g, "");
+}
+
+/**
+ * What a compiled copy keeps of a declaration: parameter names for callables,
+ * the base class for classes. Null for kinds where only the name would be left.
+ */
+function signatureKey(symbol: ParsedSymbol): string | null {
+  if (symbol.kind === "function" || symbol.kind === "method" || symbol.kind === "constructor") {
+    const names = (symbol.parameters ?? []).map((parameter) =>
+      parameter.replace(/^\.\.\./, "").split(/[?:=]/)[0].replace(/\s+/g, ""),
+    );
+    return `(${names.join(",")})`;
+  }
+  if (symbol.kind === "class") {
+    return symbol.signature.match(/\bextends\s+([\w.$]+)/)?.[1] ?? "";
+  }
+  return null;
+}
+
+const COMPILED_OUTPUT = 2;
+
+/** Kinds whose implementation is a class member, parsed inside a class */
+const MEMBER_KINDS = new Set<ParsedSymbol["kind"]>(["method", "constructor"]);
+
+/** Transpiled bodies, as clustering compares each symbol several times */
+const strippedBodies = new WeakMap<ParsedSymbol, string>();
+
+/**
+ * `normalizeBody` of the implementation with its types stripped, so a
+ * TypeScript source compares with the JavaScript emitted for it
+ */
+function strippedBody(symbol: ParsedSymbol): string {
+  let body = strippedBodies.get(symbol);
+  if (body === undefined) {
+    body = transpiledBody(symbol);
+    strippedBodies.set(symbol, body);
+  }
+  return body;
+}
+
+function transpiledBody(symbol: ParsedSymbol): string {
+  const member = MEMBER_KINDS.has(symbol.kind);
+  const code = member ? `class __Dedup {\n${symbol.implementation}\n}` : symbol.implementation;
+  try {
+    const { outputText } = ts.transpileModule(code, {
+      compilerOptions: { target: ts.ScriptTarget.ESNext, module: ts.ModuleKind.ESNext },
+      reportDiagnostics: false,
+    });
+    return normalizeBody(outputText);
+  } catch {
+    return normalizeBody(code);
+  }
+}
+
+/**
+ * Whether two same-named symbols are copies of one declaration: the same
+ * module in another build folder, the same code, or - when one of them is
+ * compiled output - the same call signature and the same code once types are
+ * stripped. The signature alone would merge unrelated functions from two
+ * modules of a JavaScript package.
+ */
+function isSameDeclaration(a: ParsedSymbol, b: ParsedSymbol): boolean {
+  if (toModuleStem(a.filePath) === toModuleStem(b.filePath)) return true;
+  if (normalizeBody(a.implementation) === normalizeBody(b.implementation)) return true;
+
+  const compiled =
+    sourcePreference(a.filePath) === COMPILED_OUTPUT || sourcePreference(b.filePath) === COMPILED_OUTPUT;
+  const signature = signatureKey(a);
+  if (!compiled || signature === null || signature !== signatureKey(b)) return false;
+  return strippedBody(a) === strippedBody(b);
+}
+
+/**
+ * TypeScript sources over compiled output, then documented copies
+ */
+function preferredCopy(a: ParsedSymbol, b: ParsedSymbol): number {
+  return (
+    sourcePreference(a.filePath) - sourcePreference(b.filePath) ||
+    Number(Boolean(b.jsdoc)) - Number(Boolean(a.jsdoc)) ||
+    a.filePath.length - b.filePath.length
+  );
+}
+
+/**
+ * Collapse copies of one symbol from src, esm, cjs and dist builds into the
+ * preferred copy, which lists the other files in `alternatePaths` and keeps
+ * the widest export status among them. Call graph references to a dropped
+ * copy are pointed at the one that stays.
+ */
+export function dedupeSymbols(symbols: ParsedSymbol[]): DedupResult {
+  const buckets = new Map<string, ParsedSymbol[]>();
+  for (const symbol of symbols) {
+    const key = `${symbol.kind}:${symbol.parent ?? ""}.${symbol.name}`;
+    const bucket = buckets.get(key) ?? [];
+    bucket.push(symbol);
+    buckets.set(key, bucket);
+  }
+
+  const dropped = new Set<ParsedSymbol>();
+  const replacedIds = new Map<string, string>();
+
+  for (const bucket of buckets.values()) {
+    if (bucket.length < 2) continue;
+
+    const clusters: ParsedSymbol[][] = [];
+    for (const symbol of bucket) {
+      const cluster = clusters.find((members) =>
+        members.some((member) => member.filePath !== symbol.filePath && isSameDeclaration(member, symbol)),
+      );
+      if (cluster) cluster.push(symbol);
+      else clusters.push([symbol]);
+    }
+
+    for (const cluster of clusters) {
+      if (cluster.length < 2) continue;
+
+      const [kept, ...copies] = [...cluster].sort(preferredCopy);
+      const keptId = symbolId(kept);
+      const alternatePaths = new Set(kept.alternatePaths ?? []);
+
+      for (const copy of copies) {
+        dropped.add(copy);
+        if (copy.filePath !== kept.filePath) alternatePaths.add(copy.filePath);
+        if (symbolId(copy) !== keptId) replacedIds.set(symbolId(copy), keptId);
+
+        // A compiled copy may be the one the entry files export
+        if (copy.exportedNames) {
+          kept.exportedNames = [...new Set([...(kept.exportedNames ?? []), ...copy.exportedNames])].sort();
+        }
+        if (
+          copy.reachability &&
+          (!kept.reachability || REACHABILITY_RANK[copy.reachability] < REACHABILITY_RANK[kept.reachability])
+        ) {
+          kept.reachability = copy.reachability;
+        }
+        kept.isExported = kept.isExported || copy.isExported;
+        kept.jsdoc ??= copy.jsdoc;
+        kept.docs ??= copy.docs;
+      }
+
+      kept.alternatePaths = alternatePaths.size > 0 ? [...alternatePaths].sort() : undefined;
+    }
+  }
+
+  const remaining = symbols.filter((symbol) => !dropped.has(symbol));
+
+  if (replacedIds.size > 0) {
+    const redirect = (ids: string[]) => ids.map((id) => replacedIds.get(id) ?? id);
+    for (const symbol of remaining) {
+      if (!symbol.relations) continue;
+      symbol.relations = {
+        calls: redirect(symbol.relations.calls),
+        calledBy: redirect(symbol.relations.calledBy),
+        extends: redirect(symbol.relations.extends),
+        implements: redirect(symbol.relations.implements),
+        referencesTypes: redirect(symbol.relations.referencesTypes),
+      };
+    }
+  }
+
+  return { symbols: remaining, collapsed: dropped.size };
+}
@@ -0,0 +1,137 @@
+import * as ts from "typescript";
+import type { ExportInfo, TypeEntry } from "./fetcher.js";
+import { createInMemoryHost, fromVirtualPath, toVirtualPath } from "./virtual-program.js";
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.Latest,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  noLib: true,
+  types: [],
+  skipLibCheck: true,
+  noEmit: true,
+};
+
+/**
+ * Map a declaration node to the export kind we index
+ */
+function declarationKind(declaration: ts.Declaration): string | null {
+  if (ts.isFunctionDeclaration(declaration)) return "function";
+  if (ts.isClassDeclaration(declaration)) return "class";
+  if (ts.isInterfaceDeclaration(declaration)) return "interface";
+  if (ts.isTypeAliasDeclaration(declaration)) return "type";
+  if (ts.isEnumDeclaration(declaration)) return "enum";
+  if (ts.isModuleDeclaration(declaration)) return "namespace";
+  if (ts.isExportAssignment(declaration)) return "default";
+  if (ts.isVariableDeclaration(declaration)) {
+    const flags = declaration.parent.flags;
+    if (flags & ts.NodeFlags.Const) return "const";
+    if (flags & ts.NodeFlags.Let) return "let";
+    return "var";
+  }
+  return null;
+}
+
+/**
+ * Text of a single declaration, bounded to the declaration itself
+ */
+function declarationText(declaration: ts.Declaration): string {
+  if (ts.isVariableDeclaration(declaration)) {
+    // Render one declarator even when the statement declares several
+    const keyword = declarationKind(declaration);
+    return `declare ${keyword} ${declaration.getText()};`;
+  }
+  return declaration.getText();
+}
+
+function extractDeclarationJSDoc(declaration: ts.Declaration): string | undefined {
+  const docs = ts.getJSDocCommentsAndTags(declaration).filter(ts.isJSDoc);
+  return docs.length > 0 ? docs[docs.length - 1].getText() : undefined;
+}
+
+/**
+ * Build an ExportInfo for one public name of an entry point
+ */
+function describeExport(
+  checker: ts.TypeChecker,
+  exported: ts.Symbol,
+  entry: string,
+): ExportInfo {
+  const name = exported.getName();
+  const target =
+    exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+  const declarations = (target.declarations ?? []).filter(
+    (declaration) => declarationKind(declaration) !== null,
+  );
+
+  if (declarations.length === 0) {
+    // `export * as ns from "./x"` or a re-export from another package - keep the public name
+    const specifier = exported.declarations?.[0];
+    const statement = specifier
+      ? ts.findAncestor(specifier, ts.isExportDeclaration) ?? specifier
+      : undefined;
+    const isNamespace = (target.declarations ?? []).some(ts.isSourceFile);
+    return {
+      kind: isNamespace ? "namespace" : "reexport",
+      name,
+      signature: statement ? statement.getText() : name,
+      entry,
+    };
+  }
+
+  const primary = declarations[0];
+  // Overloads and declaration merging produce several declarations for one name
+  const signature = declarations.map(declarationText).join("\n");
+  const originalName = target.getName();
+
+  return {
+    kind: declarationKind(primary)!,
+    name,
+    signature,
+    jsdoc: declarations.map(extractDeclarationJSDoc).find(Boolean),
+    entry,
+    original_name: originalName !== name && originalName !== "default" ? originalName : undefined,
+    file_path: fromVirtualPath(primary.getSourceFile().fileName),
+  };
+}
+
+/**
+ * Extract the public exports of every type entry point using the TypeScript
+ * compiler, following `export *` barrels and renamed re-exports to their
+ * declarations.
+ */
+export function extractDeclarationExports(
+  declarationFiles: Record<string, string>,
+  typeEntries: TypeEntry[],
+): ExportInfo[] {
+  if (typeEntries.length === 0) return [];
+
+  const program = ts.createProgram({
+    rootNames: typeEntries.map((entry) => toVirtualPath(entry.path)),
+    options: COMPILER_OPTIONS,
+    host: createInMemoryHost(declarationFiles),
+  });
+  const checker = program.getTypeChecker();
+
+  const exports: ExportInfo[] = [];
+
+  for (const typeEntry of typeEntries) {
+    const sourceFile = program.getSourceFile(toVirtualPath(typeEntry.path));
+    if (!sourceFile) continue;
+
+    const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+    if (!moduleSymbol) continue; // Global script declarations have no module exports
+
+    for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+      try {
+        exports.push(describeExport(checker, exported, typeEntry.entry));
+      } catch (error: any) {
+        console.log(
+          `     ⚠️  Failed to describe export ${exported.getName()} of ${typeEntry.path}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  return exports;
+}
@@ -0,0 +1,150 @@
+import type { ExportInfo, PackageJson } from "./fetcher.js";
+import type { ParsedSymbol } from "./code-parser.js";
+
+// Build output folders that mirror the source layout (dist/esm/cors.js ↔ src/cors.ts)
+const BUILD_PREFIX = /^(?:(?:dist|lib|build|src|esm|cjs|es|mjs|types|module)\/)+/;
+const SOURCE_EXTENSION = /(?:\.d)?\.[cm]?[jt]sx?$/;
+
+/**
+ * Turn an exports-map subpath into the specifier users import ("./cors" → "hono/cors")
+ */
+export function toImportSpecifier(packageName: string, entry: string): string {
+  if (entry === "." || entry === "") return packageName;
+  return `${packageName}/${entry.replace(/^\.\//, "")}`;
+}
+
+/**
+ * Strip build folders and extensions so compiled and source paths compare equal
+ */
+export function toModuleStem(filePath: string): string {
+  const stem = filePath
+    .replace(/^\.?\//, "")
+    .replace(BUILD_PREFIX, "")
+    .replace(SOURCE_EXTENSION, "");
+  return stem.replace(/\/index$/, "") || "index";
+}
+
+function collectTargets(value: unknown, targets: string[]): void {
+  if (!value) return;
+  if (typeof value === "string") {
+    targets.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectTargets(item, targets));
+  } else if (typeof value === "object") {
+    for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+      if (!key.startsWith(".")) collectTargets(nested, targets);
+    }
+  }
+}
+
+/**
+ * Map each runtime entry subpath to the module stems its targets point at
+ */
+export function resolveRuntimeEntryPoints(pkgJson: PackageJson): Map<string, Set<string>> {
+  const entries = new Map<string, Set<string>>();
+
+  const addTargets = (entry: string, value: unknown) => {
+    const targets: string[] = [];
+    collectTargets(value, targets);
+    const stems = entries.get(entry) ?? new Set<string>();
+    targets.forEach((target) => stems.add(toModuleStem(target)));
+    entries.set(entry, stems);
+  };
+
+  const exportsField = pkgJson.exports;
+  if (
+    exportsField &&
+    typeof exportsField === "object" &&
+    !Array.isArray(exportsField) &&
+    Object.keys(exportsField).some((key) => key.startsWith("."))
+  ) {
+    for (const [subpath, value] of Object.entries(exportsField)) {
+      if (!subpath.startsWith(".") || subpath.includes("*")) continue;
+      addTargets(subpath, value);
+    }
+  } else if (exportsField) {
+    addTargets(".", exportsField);
+  }
+
+  addTargets(".", [pkgJson.module, pkgJson.main, pkgJson.types, pkgJson.typings].filter(Boolean));
+  return entries;
+}
+
+/** One entry point's export of a name, and the module declaring it */
+interface ExportSite {
+  specifier: string;
+  /** Module stem of the declaration file; undefined for re-exports of other packages */
+  stem?: string;
+}
+
+/**
+ * Tag every symbol with the import specifiers that expose it.
+ *
+ * Exported symbols are matched by name and declaring module against the
+ * declaration exports of each entry point, so two modules' `Options` each get
+ * their own subpaths. A name declared in only one module (such as a bundled
+ * .d.ts) matches by name alone. Any symbol whose file is an entry point target
+ * is tagged too.
+ */
+export function tagSymbolEntryPoints(
+  symbols: ParsedSymbol[],
+  exports: ExportInfo[],
+  pkgJson: PackageJson,
+): void {
+  const packageName = pkgJson.name;
+
+  const sitesByName = new Map<string, ExportSite[]>();
+  for (const exported of exports) {
+    if (!exported.entry) continue;
+    const site: ExportSite = {
+      specifier: toImportSpecifier(packageName, exported.entry),
+      stem: exported.file_path ? toModuleStem(exported.file_path) : undefined,
+    };
+    for (const name of [exported.name, exported.original_name]) {
+      if (!name) continue;
+      const sites = sitesByName.get(name) ?? [];
+      sites.push(site);
+      sitesByName.set(name, sites);
+    }
+  }
+
+  const specifiersByStem = new Map<string, Set<string>>();
+  for (const [entry, stems] of resolveRuntimeEntryPoints(pkgJson)) {
+    const specifier = toImportSpecifier(packageName, entry);
+    for (const stem of stems) {
+      const specifiers = specifiersByStem.get(stem) ?? new Set<string>();
+      specifiers.add(specifier);
+      specifiersByStem.set(stem, specifiers);
+    }
+  }
+
+  for (const symbol of symbols) {
+    const entryPoints = new Set<string>();
+    if (symbol.isExported) {
+      // Build copies folded into this symbol declare it too
+      const stems = new Set([symbol.filePath, ...(symbol.alternatePaths ?? [])].map(toModuleStem));
+      // Class members are reachable wherever their class is exported
+      for (const name of [symbol.parent ?? symbol.name, ...(symbol.exportedNames ?? [])]) {
+        const sites = sitesByName.get(name) ?? [];
+        const declaredIn = new Set(sites.map((site) => site.stem));
+        const matching = sites.filter((site) => site.stem !== undefined && stems.has(site.stem));
+        const chosen = matching.length > 0 ? matching : declaredIn.size === 1 ? sites : [];
+        chosen.forEach((site) => entryPoints.add(site.specifier));
+      }
+      stems.forEach((stem) => specifiersByStem.get(stem)?.forEach((specifier) => entryPoints.add(specifier)));
+    }
+    if (entryPoints.size > 0) {
+      symbol.entryPoints = [...entryPoints].sort();
+    }
+  }
+}
+
+/**
+ * All import specifiers a package exposes, root first
+ */
+export function listImportSpecifiers(exports: ExportInfo[], pkgJson: PackageJson): string[] {
+  const entries = new Set<string>(["."]);
+  exports.forEach((exported) => exported.entry && entries.add(exported.entry));
+  resolveRuntimeEntryPoints(pkgJson).forEach((_stems, entry) => entries.add(entry));
+  return [...entries].map((entry) => toImportSpecifier(pkgJson.name, entry));
+}
@@ -0,0 +1,397 @@
+import * as ts from "typescript";
+import type { ParsedSymbol } from "./code-parser.js";
+import { resolveImport } from "./file-selector.js";
+import type { SourceFile } from "./source-fetcher.js";
+
+/**
+ * Where an export name of a module points
+ */
+type ExportTarget =
+  | { kind: "local"; name: string }
+  | { kind: "from"; file: string; name: string }
+  | { kind: "namespace"; file: string };
+
+/**
+ * An export resolved through re-exports to the file that declares it
+ */
+type ResolvedExport = { file: string; name: string } | { namespace: string };
+
+interface ModuleInfo {
+  /** Export name → what it refers to */
+  named: Map<string, ExportTarget>;
+  /** Modules re-exported wholesale with `export *` */
+  stars: string[];
+}
+
+export interface ExportGraph {
+  /** "file#localName" → public names it is exported under from the entry files */
+  publicNames: Map<string, Set<string>>;
+  /** Files imported, directly or transitively, from an entry file */
+  reachableFiles: Set<string>;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((m) => m.kind === kind);
+}
+
+function bindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap((element) =>
+    ts.isOmittedExpression(element) ? [] : bindingNames(element.name),
+  );
+}
+
+/**
+ * `require("./x")` → "./x"
+ */
+function requireSpecifier(node: ts.Node | undefined): string | null {
+  if (
+    node &&
+    ts.isCallExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === "require" &&
+    node.arguments.length === 1 &&
+    ts.isStringLiteral(node.arguments[0])
+  ) {
+    return node.arguments[0].text;
+  }
+  return null;
+}
+
+/**
+ * `exports.foo` / `module.exports.foo` → "foo"; `module.exports` → "default"
+ */
+function commonJsExportName(node: ts.Expression): string | null {
+  if (!ts.isPropertyAccessExpression(node)) return null;
+  const target = node.expression;
+  if (ts.isIdentifier(target) && target.text === "exports") return node.name.text;
+  if (ts.isIdentifier(target) && target.text === "module" && node.name.text === "exports") {
+    return "default";
+  }
+  if (
+    ts.isPropertyAccessExpression(target) &&
+    ts.isIdentifier(target.expression) &&
+    target.expression.text === "module" &&
+    target.name.text === "exports"
+  ) {
+    return node.name.text;
+  }
+  return null;
+}
+
+/**
+ * Collect the exports of one file: ESM syntax plus the CommonJS shapes tsc emits
+ */
+function readModuleInfo(
+  filePath: string,
+  content: string,
+  resolve: (specifier: string) => string | null,
+): ModuleInfo {
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+  const named = new Map<string, ExportTarget>();
+  const stars: string[] = [];
+  const imports = new Map<string, ExportTarget>();
+
+  const importTarget = (file: string, name: string): ExportTarget =>
+    name === "*" ? { kind: "namespace", file } : { kind: "from", file, name };
+  const localOrImport = (name: string): ExportTarget =>
+    imports.get(name) ?? { kind: "local", name };
+
+  // Imports first, so `export { x }` can follow bindings declared later in the file
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const file = resolve(statement.moduleSpecifier.text);
+      const clause = statement.importClause;
+      if (!file || !clause) continue;
+
+      if (clause.name) imports.set(clause.name.text, importTarget(file, "default"));
+      const bindings = clause.namedBindings;
+      if (bindings && ts.isNamespaceImport(bindings)) {
+        imports.set(bindings.name.text, importTarget(file, "*"));
+      } else if (bindings) {
+        for (const element of bindings.elements) {
+          const imported = (element.propertyName ?? element.name).text;
+          imports.set(element.name.text, importTarget(file, imported));
+        }
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      // const x_1 = require("./x")
+      for (const declaration of statement.declarationList.declarations) {
+        const specifier = requireSpecifier(declaration.initializer);
+        const file = specifier ? resolve(specifier) : null;
+        if (file && ts.isIdentifier(declaration.name)) {
+          imports.set(declaration.name.text, importTarget(file, "*"));
+        }
+      }
+    }
+  }
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportDeclaration(statement)) {
+      const specifier =
+        statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+          ? statement.moduleSpecifier.text
+          : null;
+      const file = specifier ? resolve(specifier) : null;
+      // Re-exports from other packages aren't ours to index
+      if (specifier && !file) continue;
+
+      const clause = statement.exportClause;
+      if (!clause) {
+        stars.push(file!);
+      } else if (ts.isNamespaceExport(clause)) {
+        named.set(clause.name.text, { kind: "namespace", file: file! });
+      } else {
+        for (const element of clause.elements) {
+          const local = (element.propertyName ?? element.name).text;
+          named.set(element.name.text, file ? importTarget(file, local) : localOrImport(local));
+        }
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      // export default foo / export = foo
+      if (ts.isIdentifier(statement.expression)) {
+        named.set("default", localOrImport(statement.expression.text));
+      }
+    } else if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+      if (ts.isVariableStatement(statement)) {
+        statement.declarationList.declarations
+          .flatMap((declaration) => bindingNames(declaration.name))
+          .forEach((name) => named.set(name, { kind: "local", name }));
+      } else {
+        const name = (statement as ts.DeclarationStatement).name;
+        if (name && ts.isIdentifier(name)) {
+          named.set(isDefault ? "default" : name.text, { kind: "local", name: name.text });
+        }
+      }
+    } else if (ts.isExpressionStatement(statement)) {
+      readCommonJsExport(statement.expression, named, stars, localOrImport, resolve);
+    }
+  }
+
+  return { named, stars };
+}
+
+/**
+ * exports.foo = foo, module.exports = { a, b }, __exportStar(require("./x"), exports)
+ * and Object.defineProperty(exports, "foo", { get: () => x_1.foo })
+ */
+function readCommonJsExport(
+  expression: ts.Expression,
+  named: Map<string, ExportTarget>,
+  stars: string[],
+  localOrImport: (name: string) => ExportTarget,
+  resolve: (specifier: string) => string | null,
+): void {
+  const toTarget = (value: ts.Expression): ExportTarget | null => {
+    if (ts.isIdentifier(value)) return localOrImport(value.text);
+    if (ts.isPropertyAccessExpression(value) && ts.isIdentifier(value.expression)) {
+      const base = localOrImport(value.expression.text);
+      if (base.kind === "namespace") {
+        return { kind: "from", file: base.file, name: value.name.text };
+      }
+    }
+    const specifier = requireSpecifier(value);
+    const file = specifier ? resolve(specifier) : null;
+    return file ? { kind: "namespace", file } : null;
+  };
+
+  if (
+    ts.isBinaryExpression(expression) &&
+    expression.operatorToken.kind === ts.SyntaxKind.EqualsToken
+  ) {
+    const exportName = commonJsExportName(expression.left);
+    if (!exportName) return;
+
+    if (exportName === "default" && ts.isObjectLiteralExpression(expression.right)) {
+      for (const property of expression.right.properties) {
+        if (ts.isShorthandPropertyAssignment(property)) {
+          named.set(property.name.text, localOrImport(property.name.text));
+        } else if (ts.isPropertyAssignment(property) && ts.isIdentifier(property.name)) {
+          const target = toTarget(property.initializer);
+          if (target) named.set(property.name.text, target);
+        }
+      }
+      return;
+    }
+
+    const target = toTarget(expression.right);
+    if (target) named.set(exportName, target);
+    return;
+  }
+
+  if (!ts.isCallExpression(expression)) return;
+  const callee = expression.expression;
+  const [first, second, third] = expression.arguments;
+
+  if (ts.isIdentifier(callee) && /^_*exportStar$/.test(callee.text)) {
+    const specifier = requireSpecifier(first);
+    const file = specifier ? resolve(specifier) : null;
+    if (file) stars.push(file);
+    return;
+  }
+
+  if (
+    ts.isPropertyAccessExpression(callee) &&
+    callee.getText() === "Object.defineProperty" &&
+    first &&
+    ts.isIdentifier(first) &&
+    first.text === "exports" &&
+    second &&
+    ts.isStringLiteral(second) &&
+    third &&
+    ts.isObjectLiteralExpression(third)
+  ) {
+    for (const property of third.properties) {
+      if (!property.name || property.name.getText() !== "get") continue;
+      const getter =
+        ts.isPropertyAssignment(property) &&
+        (ts.isFunctionExpression(property.initializer) || ts.isArrowFunction(property.initializer))
+          ? property.initializer
+          : ts.isMethodDeclaration(property)
+            ? property
+            : null;
+      const body = getter?.body;
+      const returned =
+        body && ts.isBlock(body)
+          ? body.statements.find(ts.isReturnStatement)?.expression
+          : (body as ts.Expression | undefined);
+      const target = returned ? toTarget(returned) : null;
+      if (target) named.set(second.text, target);
+    }
+  }
+}
+
+/**
+ * Build the export graph of a package: follow every entry file's exports
+ * through re-exports and barrels to the declaring file.
+ */
+export function buildExportGraph(files: SourceFile[], entryFiles: string[]): ExportGraph {
+  const contents = new Map(files.map((file) => [file.path, file.content]));
+  const known = new Set(contents.keys());
+
+  const moduleInfos = new Map<string, ModuleInfo>();
+  const moduleInfo = (filePath: string): ModuleInfo => {
+    let info = moduleInfos.get(filePath);
+    if (!info) {
+      info = readModuleInfo(filePath, contents.get(filePath) ?? "", (specifier) =>
+        specifier.startsWith(".") ? resolveImport(filePath, specifier, known) : null,
+      );
+      moduleInfos.set(filePath, info);
+    }
+    return info;
+  };
+
+  const resolvedExports = new Map<string, Map<string, ResolvedExport>>();
+  const resolving = new Set<string>();
+
+  const resolveExports = (filePath: string): Map<string, ResolvedExport> => {
+    const cached = resolvedExports.get(filePath);
+    if (cached) return cached;
+    // Circular re-exports contribute nothing on the second visit
+    if (resolving.has(filePath)) return new Map();
+    resolving.add(filePath);
+
+    const info = moduleInfo(filePath);
+    const exports = new Map<string, ResolvedExport>();
+    for (const [exportName, target] of info.named) {
+      const resolved =
+        target.kind === "local"
+          ? { file: filePath, name: target.name }
+          : target.kind === "namespace"
+            ? { namespace: target.file }
+            : resolveExports(target.file).get(target.name);
+      if (resolved) exports.set(exportName, resolved);
+    }
+    for (const star of info.stars) {
+      for (const [exportName, resolved] of resolveExports(star)) {
+        // Explicit exports win over `export *`, which never re-exports default
+        if (exportName !== "default" && !exports.has(exportName)) {
+          exports.set(exportName, resolved);
+        }
+      }
+    }
+
+    resolving.delete(filePath);
+    resolvedExports.set(filePath, exports);
+    return exports;
+  };
+
+  const publicNames = new Map<string, Set<string>>();
+  const visitedNamespaces = new Set<string>();
+  const markPublic = (filePath: string, prefix: string) => {
+    for (const [exportName, resolved] of resolveExports(filePath)) {
+      const publicName = `${prefix}${exportName}`;
+      if ("namespace" in resolved) {
+        const namespaceKey = `${resolved.namespace}@${publicName}`;
+        if (visitedNamespaces.has(namespaceKey)) continue;
+        visitedNamespaces.add(namespaceKey);
+        markPublic(resolved.namespace, `${publicName}.`);
+        continue;
+      }
+      const key = `${resolved.file}#${resolved.name}`;
+      const names = publicNames.get(key) ?? new Set<string>();
+      names.add(publicName);
+      publicNames.set(key, names);
+    }
+  };
+
+  const entries = entryFiles.filter((entry) => known.has(entry));
+  entries.forEach((entry) => markPublic(entry, ""));
+
+  // Every file the entries pull in, through imports and re-exports alike
+  const reachableFiles = new Set<string>(entries);
+  const queue = [...entries];
+  while (queue.length > 0) {
+    const filePath = queue.shift()!;
+    const { importedFiles } = ts.preProcessFile(contents.get(filePath) ?? "", true, true);
+    for (const imported of importedFiles) {
+      if (!imported.fileName.startsWith(".")) continue;
+      const resolved = resolveImport(filePath, imported.fileName, known);
+      if (resolved && !reachableFiles.has(resolved)) {
+        reachableFiles.add(resolved);
+        queue.push(resolved);
+      }
+    }
+  }
+
+  return { publicNames, reachableFiles };
+}
+
+/**
+ * Mark each symbol with the public names it is exported under and whether its
+ * file is reachable from an entry file. Replaces the per-declaration `export`
+ * modifier check when the package's entry files are known and among `files`;
+ * otherwise (screening may drop a minified entry) the parser's flags stay.
+ */
+export function applyExportGraph(
+  symbols: ParsedSymbol[],
+  files: SourceFile[],
+  entryFiles: string[],
+): ExportGraph | null {
+  if (!entryFiles.some((entry) => files.some((file) => file.path === entry))) return null;
+
+  const graph = buildExportGraph(files, entryFiles);
+
+  for (const symbol of symbols) {
+    const ownerNames = graph.publicNames.get(`${symbol.filePath}#${symbol.parent ?? symbol.name}`);
+    let names = [...(ownerNames ?? [])];
+    if (symbol.parent) {
+      // "Client.send" reads better than "default.send" when the class has a name
+      const owners = names.length > 1 ? names.filter((name) => name !== "default") : names;
+      names =
+        symbol.visibility === "public" ? owners.map((owner) => `${owner}.${symbol.name}`) : [];
+    }
+
+    symbol.exportedNames = names.length > 0 ? names.sort() : undefined;
+    symbol.reachability =
+      names.length > 0
+        ? "public"
+        : graph.reachableFiles.has(symbol.filePath)
+          ? "internal"
+          : "unreachable";
+    symbol.isExported = symbol.reachability === "public";
+  }
+
+  return graph;
+}
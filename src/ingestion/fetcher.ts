@@ -1,8 +1,12 @@
 import * as dotenv from "dotenv";
+import * as path from "path";
+import * as ts from "typescript";
+import semver from "semver";
 
 dotenv.config();
 
 const UNPKG_BASE = "https://unpkg.com";
+const NPM_REGISTRY = "https://registry.npmjs.org";
 
 export interface PackageJson {
   name: string;
@@ -15,7 +19,20 @@ export interface PackageJson {
 export interface PackageData {
   pkgJson: PackageJson;
   readme: string;
-  dts: string;
+  typeEntries: TypeEntry[];
+  /** Every declaration file reachable from the entry points, keyed by package path */
+  declarationFiles: Record<string, string>;
+}
+
+/**
+ * A declaration file reached through one of the package's type entry points
+ */
+export interface TypeEntry {
+  /** Subpath the declarations are published under ("." for the package root) */
+  entry: string;
+  /** Path of the declaration file inside the package */
+  path: string;
+  content: string;
 }
 
 export interface ExportInfo {
@@ -23,6 +40,373 @@ export interface ExportInfo {
   name: string;
   signature: string;
   jsdoc?: string;
+  entry?: string;
+  /** Import specifier for the entry ("hono/cors") */
+  import_path?: string;
+  /** Declared name when the export is renamed (`export { a as b }`) */
+  original_name?: string;
+  /** Declaration file the export resolves to */
+  file_path?: string;
+}
+
+// Packages like hono declare dozens of subpaths; cap how many we pull from unpkg
+const MAX_TYPE_ENTRIES = 40;
+
+const DTS_FALLBACKS = ["index.d.ts", "dist/index.d.ts", "lib/index.d.ts"];
+
+// Upper bound on declaration files followed through relative imports
+const MAX_DECLARATION_FILES = 200;
+
+function normalizePackagePath(filePath: string): string {
+  return filePath.replace(/^\.\//, "").replace(/^\//, "");
+}
+
+/**
+ * Map a JS file path to the declaration file TypeScript would look for next to it
+ */
+function toDeclarationPath(filePath: string): string | null {
+  if (/\.d\.[cm]?ts$/.test(filePath)) return filePath;
+  if (/\.[cm]?js$/.test(filePath)) {
+    return filePath
+      .replace(/\.mjs$/, ".d.mts")
+      .replace(/\.cjs$/, ".d.cts")
+      .replace(/\.js$/, ".d.ts");
+  }
+  return null;
+}
+
+/**
+ * Find the `types` target inside a (possibly nested) conditional exports value
+ */
+function findTypesCondition(value: unknown): string | null {
+  if (!value) return null;
+  if (typeof value === "string") return toDeclarationPath(value);
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findTypesCondition(item);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (typeof value === "object") {
+    const conditions = value as Record<string, unknown>;
+    if (typeof conditions.types === "string") return conditions.types;
+    if (typeof conditions.typings === "string") return conditions.typings;
+    // Prefer the ESM declarations, then whatever else is declared
+    for (const key of ["import", "module", "default", "require", "node"]) {
+      const found = findTypesCondition(conditions[key]);
+      if (found) return found;
+    }
+    for (const [key, nested] of Object.entries(conditions)) {
+      if (key.startsWith(".")) continue;
+      const found = findTypesCondition(nested);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a conditional exports value names its declarations with a `types`
+ * condition, rather than leaving them to be guessed from the JS path
+ */
+function declaresTypes(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(declaresTypes);
+  if (!value || typeof value !== "object") return false;
+  const conditions = value as Record<string, unknown>;
+  return (
+    typeof conditions.types === "string" ||
+    typeof conditions.typings === "string" ||
+    Object.values(conditions).some(declaresTypes)
+  );
+}
+
+/**
+ * Resolve every declaration entry point the package declares, ordered root
+ * first, then subpaths with a `types` condition in `exports`, then those only
+ * typesVersions maps. Each entry may carry several candidate paths; the first
+ * one that exists wins. Entries past MAX_TYPE_ENTRIES are dropped and logged.
+ */
+export function resolveTypeEntryPoints(
+  pkgJson: PackageJson,
+): Array<{ entry: string; candidates: string[] }> {
+  const entries = new Map<string, string[]>();
+  // Subpaths with a `types` condition in `exports`
+  const declared = new Set<string>();
+
+  const addCandidate = (entry: string, candidate: string | null | undefined) => {
+    if (!candidate) return;
+    const normalized = normalizePackagePath(candidate);
+    const candidates = entries.get(entry) ?? [];
+    if (!candidates.includes(normalized)) candidates.push(normalized);
+    entries.set(entry, candidates);
+  };
+
+  addCandidate(".", pkgJson.types);
+  addCandidate(".", pkgJson.typings);
+
+  const exportsField = pkgJson.exports;
+  if (typeof exportsField === "string" || Array.isArray(exportsField)) {
+    addCandidate(".", findTypesCondition(exportsField));
+  } else if (exportsField && typeof exportsField === "object") {
+    const keys = Object.keys(exportsField);
+    if (keys.some((key) => key.startsWith("."))) {
+      for (const [subpath, value] of Object.entries(exportsField)) {
+        // Wildcard subpaths can't be enumerated without a file listing
+        if (!subpath.startsWith(".") || subpath.includes("*")) continue;
+        if (subpath.endsWith("package.json")) continue;
+        addCandidate(subpath, findTypesCondition(value));
+        if (declaresTypes(value)) declared.add(subpath);
+      }
+    } else {
+      addCandidate(".", findTypesCondition(exportsField));
+    }
+  }
+
+  // typesVersions remaps subpaths for matching TS versions; use the first range
+  const typesVersions = pkgJson.typesVersions as
+    | Record<string, Record<string, string[]>>
+    | undefined;
+  const mappings = typesVersions ? Object.values(typesVersions)[0] : undefined;
+  if (mappings) {
+    // Targets may omit the extension or point at a directory
+    const addMappedTarget = (entry: string, target: string) => {
+      if (/\.d\.[cm]?ts$/.test(target)) {
+        addCandidate(entry, target);
+        return;
+      }
+      addCandidate(entry, `${target}.d.ts`);
+      addCandidate(entry, `${target}/index.d.ts`);
+    };
+
+    const wildcard = mappings["*"]?.[0];
+    for (const [pattern, targets] of Object.entries(mappings)) {
+      if (pattern.includes("*") || !targets?.[0]) continue;
+      addMappedTarget(`./${pattern.replace(/^\.\//, "")}`, targets[0]);
+    }
+    if (wildcard) {
+      for (const entry of [...entries.keys()]) {
+        if (entry === ".") continue;
+        addMappedTarget(entry, wildcard.replace("*", entry.slice(2)));
+      }
+    }
+  }
+
+  addCandidate(".", toDeclarationPath(pkgJson.module ?? ""));
+  addCandidate(".", toDeclarationPath(pkgJson.main ?? ""));
+  for (const fallback of DTS_FALLBACKS) {
+    addCandidate(".", fallback);
+  }
+
+  const root = entries.get(".") ?? [];
+  entries.delete(".");
+
+  const resolved = [
+    { entry: ".", candidates: root },
+    ...[...entries.entries()]
+      .sort(([a], [b]) => Number(declared.has(b)) - Number(declared.has(a)) || a.localeCompare(b))
+      .map(([entry, candidates]) => ({ entry, candidates })),
+  ];
+  if (resolved.length > MAX_TYPE_ENTRIES) {
+    const dropped = resolved.slice(MAX_TYPE_ENTRIES).map(({ entry }) => entry);
+    console.log(
+      `     ⚠️  ${pkgJson.name} declares ${resolved.length} type entry points; skipping the last ${dropped.length} (${dropped.slice(0, 5).join(", ")}${dropped.length > 5 ? ", ..." : ""})`,
+    );
+  }
+  return resolved.slice(0, MAX_TYPE_ENTRIES);
+}
+
+async function fetchFirstAvailable(
+  base: string,
+  candidates: string[],
+  signal?: AbortSignal,
+): Promise<{ path: string; content: string } | null> {
+  for (const candidate of candidates) {
+    signal?.throwIfAborted();
+    try {
+      const res = await fetch(`${base}/${candidate}`, { signal });
+      if (!res.ok) continue;
+      const content = await res.text();
+      if (content) return { path: candidate, content };
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
+
+/**
+ * Fetch the declaration file behind every type entry point of a package
+ */
+export async function fetchTypeEntries(
+  pkg: string,
+  version: string,
+  pkgJson: PackageJson,
+  signal?: AbortSignal,
+): Promise<TypeEntry[]> {
+  const base = `${UNPKG_BASE}/${pkg}@${version}`;
+  const resolved = resolveTypeEntryPoints(pkgJson);
+
+  const results = await Promise.all(
+    resolved.map(async ({ entry, candidates }) => {
+      const file = await fetchFirstAvailable(base, candidates, signal);
+      return file ? { entry, path: file.path, content: file.content } : null;
+    }),
+  );
+
+  // Several subpaths can share one declaration file; keep the first entry for it
+  const seen = new Set<string>();
+  return results.filter((result): result is TypeEntry => {
+    if (!result || seen.has(result.path)) return false;
+    seen.add(result.path);
+    return true;
+  });
+}
+
+/**
+ * Candidate declaration paths for a relative module specifier
+ */
+function resolveDeclarationImport(fromPath: string, specifier: string): string[] {
+  const target = path.posix.normalize(
+    path.posix.join(path.posix.dirname(fromPath), specifier),
+  );
+  if (target.startsWith("..")) return [];
+  if (/\.d\.[cm]?ts$/.test(target)) return [target];
+
+  const asDeclaration = toDeclarationPath(target);
+  if (asDeclaration) return [asDeclaration];
+
+  return [`${target}.d.ts`, `${target}/index.d.ts`];
+}
+
+/**
+ * Follow relative imports and re-exports out of the entry declaration files so
+ * barrels (`export * from "./x"`) can be resolved against real declarations
+ */
+export async function fetchDeclarationFiles(
+  pkg: string,
+  version: string,
+  typeEntries: TypeEntry[],
+  signal?: AbortSignal,
+): Promise<Record<string, string>> {
+  const base = `${UNPKG_BASE}/${pkg}@${version}`;
+  const files: Record<string, string> = {};
+  const attempted = new Set<string>();
+
+  let queue = typeEntries.map((entry) => {
+    files[entry.path] = entry.content;
+    attempted.add(entry.path);
+    return entry.path;
+  });
+
+  while (queue.length > 0 && Object.keys(files).length < MAX_DECLARATION_FILES) {
+    const pending: string[][] = [];
+
+    for (const filePath of queue) {
+      const { importedFiles } = ts.preProcessFile(files[filePath], true, true);
+      for (const imported of importedFiles) {
+        if (!imported.fileName.startsWith(".")) continue;
+        const candidates = resolveDeclarationImport(filePath, imported.fileName);
+        if (candidates.length === 0 || candidates.some((c) => attempted.has(c))) {
+          continue;
+        }
+        candidates.forEach((candidate) => attempted.add(candidate));
+        pending.push(candidates);
+      }
+    }
+
+    const budget = MAX_DECLARATION_FILES - Object.keys(files).length;
+    const fetched = await Promise.all(
+      pending.slice(0, budget).map((candidates) => fetchFirstAvailable(base, candidates, signal)),
+    );
+
+    queue = [];
+    for (const file of fetched) {
+      if (!file || files[file.path] !== undefined) continue;
+      files[file.path] = file.content;
+      queue.push(file.path);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Split an install spec ("zod@^3", "@scope/pkg@1.2.3") into name and version
+ */
+export function parsePackageSpec(spec: string): { name: string; version: string } {
+  const separator = spec.indexOf("@", spec.startsWith("@") ? 1 : 0);
+  if (separator === -1) {
+    return { name: spec, version: "latest" };
+  }
+  return {
+    name: spec.slice(0, separator),
+    version: spec.slice(separator + 1) || "latest",
+  };
+}
+
+export interface RegistryVersionMetadata {
+  name: string;
+  version: string;
+  gitHead?: string;
+  repository?: string | { type?: string; url?: string; directory?: string };
+  dist?: {
+    tarball?: string;
+    integrity?: string;
+    shasum?: string;
+  };
+}
+
+/**
+ * Fetch the registry manifest of one published version
+ */
+export async function fetchRegistryVersion(
+  pkg: string,
+  version: string,
+  signal?: AbortSignal,
+): Promise<RegistryVersionMetadata> {
+  const semverVersion = version.replace(/^v/, "");
+  const res = await fetch(`${NPM_REGISTRY}/${pkg}/${semverVersion}`, { signal });
+  if (!res.ok) {
+    throw new Error(`Failed to fetch metadata: ${res.status}`);
+  }
+  return (await res.json()) as RegistryVersionMetadata;
+}
+
+/**
+ * Resolve a dist-tag, exact version or semver range to a published version
+ */
+export async function resolvePackageVersion(
+  pkg: string,
+  versionOrRange: string = "latest",
+  signal?: AbortSignal,
+): Promise<string> {
+  const res = await fetch(`${NPM_REGISTRY}/${pkg}`, {
+    signal,
+    // The abbreviated packument is enough to resolve versions and dist-tags
+    headers: { Accept: "application/vnd.npm.install-v1+json" },
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to fetch registry metadata for ${pkg}: ${res.status}`);
+  }
+
+  const packument = (await res.json()) as {
+    "dist-tags"?: Record<string, string>;
+    versions?: Record<string, unknown>;
+  };
+  const published = Object.keys(packument.versions ?? {});
+
+  const tagged = packument["dist-tags"]?.[versionOrRange];
+  if (tagged) return tagged;
+
+  const exact = semver.valid(versionOrRange.replace(/^v/, ""));
+  if (exact && published.includes(exact)) return exact;
+
+  const resolved = semver.maxSatisfying(published, versionOrRange);
+  if (!resolved) {
+    throw new Error(`No published version of ${pkg} matches "${versionOrRange}"`);
+  }
+  return resolved;
 }
 
 /**
@@ -30,86 +414,53 @@ export interface ExportInfo {
  */
 export async function fetchPackage(
   pkg: string,
-  version: string = "latest"
+  version: string = "latest",
+  signal?: AbortSignal,
 ): Promise<PackageData> {
   const base = `${UNPKG_BASE}/${pkg}@${version}`;
 
   console.log(`  📦 Fetching ${pkg}@${version}...`);
 
   try {
-    const [pkgJsonRes, readmeRes, dtsRes] = await Promise.allSettled([
-      fetch(`${base}/package.json`).then((r) => {
+    const [pkgJsonRes, readmeRes] = await Promise.allSettled([
+      fetch(`${base}/package.json`, { signal }).then((r) => {
         if (!r.ok) throw new Error(`Failed to fetch package.json: ${r.status}`);
         return r.json();
       }),
-      fetch(`${base}/README.md`).then((r) => {
-        if (!r.ok) return "";
-        return r.text();
-      }),
-      fetch(`${base}/dist/index.d.ts`).then((r) => {
+      fetch(`${base}/README.md`, { signal }).then((r) => {
         if (!r.ok) return "";
         return r.text();
       }),
     ]);
+    // Otherwise an aborted download would read as a missing package.json
+    signal?.throwIfAborted();
 
     const pkgJson =
       pkgJsonRes.status === "fulfilled"
         ? (pkgJsonRes.value as PackageJson)
         : { name: pkg, version: "unknown" };
     const readme = readmeRes.status === "fulfilled" ? readmeRes.value : "";
-    const dts = dtsRes.status === "fulfilled" ? dtsRes.value : "";
+    const typeEntries = await fetchTypeEntries(pkg, version, pkgJson, signal);
+    const declarationFiles = await fetchDeclarationFiles(pkg, version, typeEntries, signal);
 
     console.log(`     ✓ package.json: ${pkgJsonRes.status}`);
     console.log(`     ✓ README.md: ${readme ? `${readme.length} chars` : "not found"}`);
-    console.log(`     ✓ index.d.ts: ${dts ? `${dts.length} chars` : "not found"}`);
+    console.log(
+      `     ✓ Type entries: ${
+        typeEntries.length > 0
+          ? typeEntries.map((entry) => `${entry.entry} → ${entry.path}`).join(", ")
+          : "not found"
+      }`,
+    );
+    console.log(`     ✓ Declaration files: ${Object.keys(declarationFiles).length}`);
 
-    return { pkgJson, readme, dts };
+    return { pkgJson, readme, typeEntries, declarationFiles };
   } catch (error: any) {
     console.error(`     ✗ Error fetching ${pkg}:`, error.message);
     throw error;
   }
 }
 
-/**
- * Extract exports (functions, classes, interfaces, types, consts) from .d.ts file
- * Uses simple regex - good enough for MVP
- */
-export function extractExportsSimple(dts?: string): ExportInfo[] {
-  if (!dts) return [];
-
-  const exports: ExportInfo[] = [];
-
-  // Match: export function/class/interface/type/const name
-  const exportRegex =
-    /export\s+(function|class|interface|type|const|enum)\s+([A-Za-z0-9_$]+)/g;
-
-  let match;
-  while ((match = exportRegex.exec(dts)) !== null) {
-    const kind = match[1];
-    const name = match[2];
-    const startIndex = match.index;
-
-    // Extract a reasonable signature snippet (up to 400 chars or 6 lines)
-    const snippet = dts.slice(startIndex, startIndex + 400);
-    const lines = snippet.split("\n").slice(0, 6);
-    const signature = lines.join("\n").trim();
-
-    // Try to find JSDoc comment before the export
-    const beforeExport = dts.slice(Math.max(0, startIndex - 500), startIndex);
-    const jsdocMatch = beforeExport.match(/\/\*\*([\s\S]*?)\*\//g);
-    const jsdoc = jsdocMatch ? jsdocMatch[jsdocMatch.length - 1] : undefined;
-
-    exports.push({
-      kind,
-      name,
-      signature,
-      jsdoc,
-    });
-  }
-
-  return exports;
-}
-
 /**
  * Extract code blocks from markdown (ts/js/typescript/javascript fenced blocks)
  */
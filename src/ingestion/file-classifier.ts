@@ -0,0 +1,129 @@
+import type { SourceFile } from "./source-fetcher.js";
+
+export type FileClassification = "source" | "minified" | "bundled" | "generated";
+
+/**
+ * What ingestion did with a file that isn't plain hand-written source
+ */
+export interface FileDecision {
+  path: string;
+  classification: Exclude<FileClassification, "source">;
+  /** Minified files are unreadable and skipped; bundles and generated code are kept at a lower score */
+  action: "skipped" | "downweighted";
+  /** The heuristics that fired ("average line length 812") */
+  signals: string[];
+}
+
+const GENERATED_BANNER =
+  /@generated\b|\bDO NOT EDIT\b|\bCode generated by\b|\bauto-?generated\b|\bautomatically generated\b/i;
+const GENERATED_PATH = /(^|\/)(__generated__|generated)\/|(_pb|\.pb|_grpc_pb|\.gen|\.generated)\.[cm]?[jt]sx?$/;
+const MINIFIED_PATH = /[.-]min\.[cm]?js$/;
+
+// Module loaders that only bundler output contains
+const BUNDLER_RUNTIME: Array<[RegExp, string]> = [
+  [/__webpack_require__|__webpack_modules__|webpackChunk/, "webpack runtime"],
+  [/\bparcelRequire\b/, "parcel runtime"],
+  [/\bSystem\.register\(/, "SystemJS bundle"],
+  [/\b__commonJS\(|\b__toESM\(|\b__toCommonJS\(/, "esbuild module wrappers"],
+  [/\bfunction\s*\w?\(\s*e\s*,\s*n\s*,\s*t\s*\)\s*\{\s*function\s+o\(/, "browserify prelude"],
+];
+
+const BANNER_WINDOW = 2048;
+const MIN_IDENTIFIERS = 200;
+const MAX_AVERAGE_LINE_LENGTH = 300;
+const MAX_LINE_LENGTH = 2000;
+const MIN_IDENTIFIER_ENTROPY = 1.6;
+
+/**
+ * Mean Shannon entropy, in bits, of the characters of each identifier.
+ * Mangled names ("e", "t", "nr") score near 1; descriptive names well above 2.
+ */
+function identifierEntropy(identifiers: string[]): number {
+  let total = 0;
+  for (const identifier of identifiers) {
+    const counts = new Map<string, number>();
+    for (const char of identifier) counts.set(char, (counts.get(char) ?? 0) + 1);
+    let entropy = 0;
+    for (const count of counts.values()) {
+      const p = count / identifier.length;
+      entropy -= p * Math.log2(p);
+    }
+    total += entropy;
+  }
+  return total / identifiers.length;
+}
+
+/**
+ * Decide whether a file is hand-written source, minified, a bundle or
+ * generated code, and which signals said so
+ */
+export function classifySourceFile(
+  filePath: string,
+  content: string,
+): { classification: FileClassification; signals: string[] } {
+  // Minified: one-line files, long lines, mangled identifiers
+  const minified: string[] = [];
+  if (MINIFIED_PATH.test(filePath)) minified.push("minified file name");
+
+  const lines = content.split("\n");
+  const averageLineLength = content.length / lines.length;
+  const longestLine = lines.reduce((longest, line) => Math.max(longest, line.length), 0);
+  if (averageLineLength > MAX_AVERAGE_LINE_LENGTH) {
+    minified.push(`average line length ${Math.round(averageLineLength)}`);
+  }
+  if (longestLine > MAX_LINE_LENGTH) minified.push(`longest line ${longestLine} characters`);
+
+  const identifiers = (content.match(/[A-Za-z_$][\w$]*/g) ?? []).filter(
+    (identifier) => !/^(var|let|const|function|return|if|else|for|new|this|in|of|do)$/.test(identifier),
+  );
+  if (identifiers.length >= MIN_IDENTIFIERS) {
+    const entropy = identifierEntropy(identifiers);
+    if (entropy < MIN_IDENTIFIER_ENTROPY) {
+      minified.push(`identifier entropy ${entropy.toFixed(2)} bits`);
+    }
+  }
+
+  // A long line alone can be a data table; it takes two signals (or the name)
+  if (minified.length >= 2 || MINIFIED_PATH.test(filePath)) {
+    return { classification: "minified", signals: minified };
+  }
+
+  const bundled = BUNDLER_RUNTIME.filter(([pattern]) => pattern.test(content)).map(
+    ([, signal]) => signal,
+  );
+  if (bundled.length > 0) return { classification: "bundled", signals: bundled };
+
+  const generated: string[] = [];
+  const banner = content.slice(0, BANNER_WINDOW).match(GENERATED_BANNER);
+  if (banner) generated.push(`"${banner[0]}" banner`);
+  if (GENERATED_PATH.test(filePath)) generated.push("generated file path");
+  if (generated.length > 0) return { classification: "generated", signals: generated };
+
+  return { classification: "source", signals: [] };
+}
+
+/**
+ * Drop minified files and flag bundled or generated ones, so their symbols
+ * can be scored lower
+ */
+export function screenSourceFiles(files: SourceFile[]): {
+  files: SourceFile[];
+  decisions: FileDecision[];
+} {
+  const kept: SourceFile[] = [];
+  const decisions: FileDecision[] = [];
+
+  for (const file of files) {
+    const { classification, signals } = classifySourceFile(file.path, file.content);
+    if (classification === "source") {
+      kept.push(file);
+      continue;
+    }
+
+    const action = classification === "minified" ? "skipped" : "downweighted";
+    decisions.push({ path: file.path, classification, action, signals });
+    if (action === "downweighted") kept.push(file);
+  }
+
+  return { files: kept, decisions };
+}
@@ -0,0 +1,242 @@
+import * as path from "path";
+import * as ts from "typescript";
+import type { PackageJson } from "./fetcher.js";
+import { resolveRuntimeEntryPoints, toModuleStem } from "./entry-points.js";
+import type { SourceFile } from "./source-fetcher.js";
+
+export const DEFAULT_BYTE_BUDGET = Number(process.env.SOURCE_BYTE_BUDGET || 512 * 1024);
+
+export interface CandidateFile {
+  path: string;
+  /** Listed size in bytes; undefined when unknown, and then checked after loading */
+  size?: number;
+}
+
+export interface SkippedFile {
+  path: string;
+  /** "unlisted": a directory the host couldn't list completely, so its files were never seen */
+  reason: "too-large" | "budget" | "load-failed" | "unlisted";
+  /** Import hops from the nearest entry file, when the file is reachable */
+  depth?: number;
+}
+
+export interface FileSelection {
+  files: SourceFile[];
+  skipped: SkippedFile[];
+  totalSize: number;
+  entryFiles: string[];
+}
+
+export interface FileSelectionOptions {
+  pkgJson?: PackageJson;
+  byteBudget?: number;
+  maxFileSize?: number;
+  /** Read one candidate; null when it can't be fetched */
+  load: (filePath: string) => Promise<string | null>;
+}
+
+const SOURCE_FILE = /\.(ts|js|tsx|jsx|mts|cts|mjs|cjs)$/;
+const SOURCE_DIRECTORIES = /(^|\/)(src|lib|dist)\//;
+const ADDITIONAL_DIRECTORIES = /(^|\/)(types?|definitions?|esm|cjs)\//;
+const TOP_LEVEL_FILE = /^[^/]+\.(ts|js|tsx|jsx|mts|cts|mjs|cjs)$/;
+const EXCLUDED_FILE = /\.(test|spec|stories)\.[cm]?(ts|js)$/; // Exclude tests and story files
+
+/**
+ * Whether a package-relative path looks like indexable source
+ */
+export function isSourceCandidate(filePath: string): boolean {
+  return (
+    !filePath.includes("node_modules/") &&
+    SOURCE_FILE.test(filePath) &&
+    (SOURCE_DIRECTORIES.test(filePath) ||
+      ADDITIONAL_DIRECTORIES.test(filePath) ||
+      TOP_LEVEL_FILE.test(filePath)) &&
+    !EXCLUDED_FILE.test(filePath)
+  );
+}
+
+/**
+ * Whether a path is a test or story file
+ */
+export function isExcludedSource(filePath: string): boolean {
+  return EXCLUDED_FILE.test(filePath);
+}
+
+const RESOLVE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+const FALLBACK_ENTRIES = ["src/index", "index", "lib/index", "src/main", "dist/index"];
+
+/**
+ * Prefer TypeScript sources over compiled output when several files share a stem
+ */
+export function sourcePreference(filePath: string): number {
+  if (/\.d\.[cm]?ts$/.test(filePath)) return 3;
+  if (/\.[cm]?tsx?$/.test(filePath)) return /(^|\/)src\//.test(filePath) ? 0 : 1;
+  return 2;
+}
+
+/**
+ * Candidate files behind the package's main/module/exports entries
+ */
+export function resolveEntryFiles(
+  candidates: CandidateFile[],
+  pkgJson?: PackageJson,
+): string[] {
+  const byStem = new Map<string, CandidateFile[]>();
+  for (const candidate of candidates) {
+    const stem = toModuleStem(candidate.path);
+    const group = byStem.get(stem) ?? [];
+    group.push(candidate);
+    byStem.set(stem, group);
+  }
+
+  const pickBest = (group: CandidateFile[]) =>
+    [...group].sort((a, b) => sourcePreference(a.path) - sourcePreference(b.path))[0];
+
+  const entryFiles: string[] = [];
+  if (pkgJson) {
+    for (const stems of resolveRuntimeEntryPoints(pkgJson).values()) {
+      for (const stem of stems) {
+        const group = byStem.get(stem);
+        if (group) entryFiles.push(pickBest(group).path);
+      }
+    }
+  }
+
+  if (entryFiles.length === 0) {
+    const byPath = new Map(candidates.map((candidate) => [candidate.path, candidate]));
+    for (const fallback of FALLBACK_ENTRIES) {
+      const match = RESOLVE_EXTENSIONS.map((ext) => byPath.get(`${fallback}${ext}`)).find(Boolean);
+      if (match) {
+        entryFiles.push(match.path);
+        break;
+      }
+    }
+  }
+
+  return [...new Set(entryFiles)];
+}
+
+/**
+ * Resolve a relative import to one of the candidate files
+ */
+export function resolveImport(
+  fromPath: string,
+  specifier: string,
+  known: Set<string>,
+): string | null {
+  const target = path.posix.normalize(path.posix.join(path.posix.dirname(fromPath), specifier));
+  if (known.has(target)) return target;
+
+  // TS sources import "./x.js" while the file on disk is "./x.ts"
+  const withoutExtension = target.replace(/\.[cm]?[jt]sx?$/, "");
+  for (const base of [withoutExtension, `${withoutExtension}/index`]) {
+    for (const ext of RESOLVE_EXTENSIONS) {
+      if (known.has(`${base}${ext}`)) return `${base}${ext}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Pick which source files to index: start at the entry files, follow relative
+ * imports outward breadth-first, then fill any remaining byte budget with
+ * unreachable files. Everything left out is reported with a reason.
+ */
+export async function selectSourceFiles(
+  candidates: CandidateFile[],
+  options: FileSelectionOptions,
+): Promise<FileSelection> {
+  const byteBudget = options.byteBudget ?? DEFAULT_BYTE_BUDGET;
+  const maxFileSize = options.maxFileSize ?? 100000;
+
+  const skipped: SkippedFile[] = [];
+  const eligible = candidates.filter((candidate) => {
+    if (candidate.size === undefined || candidate.size < maxFileSize) return true;
+    skipped.push({ path: candidate.path, reason: "too-large" });
+    return false;
+  });
+
+  const known = new Set(eligible.map((candidate) => candidate.path));
+  const sizes = new Map(eligible.map((candidate) => [candidate.path, candidate.size]));
+  const entryFiles = resolveEntryFiles(eligible, options.pkgJson);
+
+  const files: SourceFile[] = [];
+  const visited = new Set<string>();
+  let totalSize = 0;
+
+  const tryInclude = async (filePath: string, depth?: number): Promise<string | null> => {
+    visited.add(filePath);
+    // Listed sizes skip a download that can't fit; unknown ones are checked once loaded
+    const listedSize = sizes.get(filePath);
+    if (listedSize !== undefined && totalSize + listedSize > byteBudget) {
+      skipped.push({ path: filePath, reason: "budget", depth });
+      return null;
+    }
+
+    const content = await options.load(filePath);
+    if (content === null) {
+      skipped.push({ path: filePath, reason: "load-failed", depth });
+      return null;
+    }
+
+    // Hosts may list no size or a wrong one; the content is what counts
+    const size = Buffer.byteLength(content);
+    if (size >= maxFileSize) {
+      skipped.push({ path: filePath, reason: "too-large", depth });
+      return null;
+    }
+    if (totalSize + size > byteBudget) {
+      skipped.push({ path: filePath, reason: "budget", depth });
+      return null;
+    }
+
+    files.push({ path: filePath, content, size });
+    totalSize += size;
+    return content;
+  };
+
+  // Breadth-first over the import graph so shallow, public modules win the budget
+  let frontier = entryFiles;
+  let depth = 0;
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const filePath of frontier) {
+      if (visited.has(filePath)) continue;
+      const content = await tryInclude(filePath, depth);
+      if (content === null) continue;
+
+      const { importedFiles } = ts.preProcessFile(content, true, true);
+      for (const imported of importedFiles) {
+        if (!imported.fileName.startsWith(".")) continue;
+        const resolved = resolveImport(filePath, imported.fileName, known);
+        if (resolved && !visited.has(resolved)) next.push(resolved);
+      }
+    }
+    frontier = [...new Set(next)];
+    depth++;
+  }
+
+  // Unreachable files: shallow paths first, sources before build output
+  const unreachable = eligible
+    .filter((candidate) => !visited.has(candidate.path))
+    .sort(
+      (a, b) =>
+        a.path.split("/").length - b.path.split("/").length ||
+        sourcePreference(a.path) - sourcePreference(b.path) ||
+        a.path.localeCompare(b.path),
+    );
+  for (const candidate of unreachable) {
+    await tryInclude(candidate.path);
+  }
+
+  return { files, skipped, totalSize, entryFiles };
+}
+
+/**
+ * Summarize skipped files by reason for logging ("budget: 12, too-large: 1")
+ */
+export function summarizeSkipped(skipped: SkippedFile[]): string {
+  const counts = new Map<string, number>();
+  skipped.forEach((file) => counts.set(file.reason, (counts.get(file.reason) ?? 0) + 1));
+  return [...counts.entries()].map(([reason, count]) => `${reason}: ${count}`).join(", ");
+}
@@ -0,0 +1,442 @@
+import type { Client, estypes } from "@elastic/elasticsearch";
+import type { IndexReport } from "@npm-intel/shared/ingestion";
+import {
+  PACKAGE_INDEX_ALIAS,
+  PACKAGE_WRITE_ALIAS,
+  SYMBOL_INDEX_ALIAS,
+  SYMBOL_WRITE_ALIAS,
+  parseIndexVersion,
+  versionedIndexName,
+} from "@npm-intel/shared/indices";
+import {
+  PACKAGE_INDEX_MAPPINGS,
+  SCHEMA_VERSION,
+  SYMBOL_INDEX_MAPPINGS,
+} from "./index-schema.js";
+
+/** Documents per reindex batch; each one is re-embedded on the way in */
+const REINDEX_BATCH_SIZE = Number(process.env.REINDEX_BATCH_SIZE || 100);
+/** How often a running reindex task is polled */
+const REINDEX_POLL_MS = 5000;
+
+/**
+ * Versioned indices behind one read alias and one write alias
+ */
+export interface IndexFamily {
+  alias: string;
+  writeAlias: string;
+  mappings: estypes.MappingTypeMapping;
+}
+
+export const INDEX_FAMILIES: IndexFamily[] = [
+  { alias: PACKAGE_INDEX_ALIAS, writeAlias: PACKAGE_WRITE_ALIAS, mappings: PACKAGE_INDEX_MAPPINGS },
+  { alias: SYMBOL_INDEX_ALIAS, writeAlias: SYMBOL_WRITE_ALIAS, mappings: SYMBOL_INDEX_MAPPINGS },
+];
+
+/**
+ * Where the aliases of one family point, and which versions exist
+ */
+export interface IndexFamilyState {
+  family: IndexFamily;
+  /** Physical index behind the read alias */
+  readIndex?: string;
+  /** Physical index behind the write alias */
+  writeIndex?: string;
+  /** The alias name is still a plain index, from before versioned indices */
+  legacy: boolean;
+  /** Schema versions with a physical index, ascending */
+  versions: number[];
+}
+
+/** How documents get into the new indices */
+export type MigrationMode = "reindex" | "reingest";
+
+export interface MigrationOptions {
+  mode: MigrationMode;
+  /** Re-ingest these package specs through the write aliases (reingest mode) */
+  reingest?: (specs: string[]) => Promise<IndexReport>;
+}
+
+export interface IndexCopyResult {
+  source: string;
+  target: string;
+  sourceCount: number;
+  targetCount: number;
+}
+
+export interface MigrationResult {
+  fromVersion?: number;
+  toVersion: number;
+  mode: MigrationMode;
+  indices: IndexCopyResult[];
+  /** Plain indices removed when the alias took their name */
+  removedLegacyIndices: string[];
+  /** Indices of families that had none to migrate from, created empty */
+  createdEmptyIndices: string[];
+}
+
+export interface RollbackResult {
+  fromVersion: number;
+  toVersion: number;
+}
+
+async function aliasTargets(client: Client, alias: string): Promise<string[]> {
+  if (!(await client.indices.existsAlias({ name: alias }))) return [];
+  return Object.keys(await client.indices.getAlias({ name: alias }));
+}
+
+/**
+ * Current alias targets and schema versions of every index family
+ */
+export async function describeIndices(client: Client): Promise<IndexFamilyState[]> {
+  return Promise.all(
+    INDEX_FAMILIES.map(async (family) => {
+      const [readIndex] = await aliasTargets(client, family.alias);
+      const [writeIndex] = await aliasTargets(client, family.writeAlias);
+      const legacy = !readIndex && (await client.indices.exists({ index: family.alias }));
+      const physical = await client.indices.get({ index: `${family.alias}-v*` });
+      const versions = Object.keys(physical)
+        .map((name) => parseIndexVersion(family.alias, name))
+        .filter((version): version is number => version !== undefined)
+        .sort((a, b) => a - b);
+
+      return { family, readIndex, writeIndex, legacy, versions };
+    }),
+  );
+}
+
+/**
+ * Schema version both read aliases point at, or undefined before the first
+ * migration. Throws when the families disagree.
+ */
+function currentVersion(states: IndexFamilyState[]): number | undefined {
+  // A family with no index at all doesn't hold the others back
+  const present = states.filter((state) => state.readIndex || state.legacy);
+  const versions = new Set(
+    present.map((state) =>
+      state.readIndex ? parseIndexVersion(state.family.alias, state.readIndex) : undefined,
+    ),
+  );
+  if (versions.size > 1) {
+    const targets = present.map((state) => `${state.family.alias} → ${state.readIndex ?? "unversioned"}`);
+    throw new Error(`Read aliases point at different schema versions (${targets.join(", ")})`);
+  }
+  return [...versions][0];
+}
+
+/**
+ * Create the indices for `version` and point both aliases of every family at
+ * them. Only for a cluster that has none of them yet; existing data moves
+ * with `migrateIndices`.
+ */
+export async function createIndices(client: Client, version: number = SCHEMA_VERSION): Promise<string[]> {
+  const states = await describeIndices(client);
+  const existing = states.filter((state) => state.readIndex || state.legacy);
+  if (existing.length > 0) {
+    throw new Error(
+      `Indices already exist (${existing.map((state) => state.readIndex ?? state.family.alias).join(", ")}); run npm run migrate:index instead`,
+    );
+  }
+
+  const created: string[] = [];
+  for (const { family } of states) {
+    const index = versionedIndexName(family.alias, version);
+    await client.indices.create({ index, mappings: family.mappings });
+    created.push(index);
+  }
+
+  await client.indices.updateAliases({
+    actions: INDEX_FAMILIES.flatMap((family, i) => [
+      { add: { index: created[i], alias: family.alias } },
+      { add: { index: created[i], alias: family.writeAlias, is_write_index: true } },
+    ]),
+  });
+  return created;
+}
+
+/**
+ * Point the write aliases at `targets` (or back where they were), in one
+ * atomic update
+ */
+async function moveWriteAliases(
+  client: Client,
+  states: IndexFamilyState[],
+  targets: Array<string | undefined>,
+): Promise<void> {
+  const actions: estypes.IndicesUpdateAliasesAction[] = [];
+  states.forEach((state, i) => {
+    const target = targets[i];
+    const current = state.writeIndex;
+    if (current === target) return;
+    if (current) actions.push({ remove: { index: current, alias: state.family.writeAlias } });
+    if (target) {
+      actions.push({ add: { index: target, alias: state.family.writeAlias, is_write_index: true } });
+    }
+  });
+  if (actions.length > 0) await client.indices.updateAliases({ actions });
+}
+
+/**
+ * Copy every document of `source` into `target` with a reindex task. Documents
+ * already written to `target` through the write alias win over the copies.
+ */
+async function reindexInto(client: Client, source: string, target: string): Promise<void> {
+  const { task } = await client.reindex({
+    source: { index: source, size: REINDEX_BATCH_SIZE },
+    dest: { index: target, op_type: "create" },
+    conflicts: "proceed",
+    wait_for_completion: false,
+  });
+  if (!task) throw new Error(`Reindex of ${source} didn't start a task`);
+
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, REINDEX_POLL_MS));
+    const status: any = await client.tasks.get({ task_id: String(task) });
+    const progress = status.task?.status ?? {};
+
+    if (!status.completed) {
+      console.log(`     ⏳ ${source} → ${target}: ${progress.created ?? 0}/${progress.total ?? "?"} documents`);
+      continue;
+    }
+
+    if (status.error) {
+      throw new Error(`Reindex of ${source} failed: ${status.error.reason ?? status.error.type}`);
+    }
+    const failures = status.response?.failures ?? [];
+    if (failures.length > 0) {
+      const reasons = failures.slice(0, 3).map((failure: any) => `${failure.id}: ${failure.cause?.reason}`);
+      throw new Error(`Reindex of ${source} dropped ${failures.length} documents (${reasons.join("; ")})`);
+    }
+
+    const response = status.response ?? {};
+    console.log(
+      `     ✓ ${source} → ${target}: ${response.created ?? 0} copied, ${response.version_conflicts ?? 0} already rewritten`,
+    );
+    return;
+  }
+}
+
+/** "name@version" of every package document in `index` */
+async function listPackageSpecs(client: Client, index: string): Promise<string[]> {
+  const specs: string[] = [];
+  const documents = client.helpers.scrollDocuments<{ name: string; version: string }>({
+    index,
+    _source: ["name", "version"],
+    query: { match_all: {} },
+    size: 500,
+  });
+  for await (const document of documents) {
+    specs.push(`${document.name}@${document.version}`);
+  }
+  return specs;
+}
+
+async function countDocuments(client: Client, index: string, query?: estypes.QueryDslQueryContainer) {
+  const { count } = await client.count({ index, query });
+  return count;
+}
+
+/**
+ * Fail unless `target` holds at least what `source` did. Packages written
+ * during the migration land in the new index only, so it may hold more.
+ */
+async function verifyCounts(client: Client, source: string, target: string): Promise<IndexCopyResult> {
+  await client.indices.refresh({ index: target });
+  const sourceCount = await countDocuments(client, source);
+  const targetCount = await countDocuments(client, target);
+  if (targetCount < sourceCount) {
+    throw new Error(`${target} has ${targetCount} documents, ${source} had ${sourceCount}`);
+  }
+  console.log(`     ✓ ${target}: ${targetCount} documents (${source}: ${sourceCount})`);
+  return { source, target, sourceCount, targetCount };
+}
+
+/**
+ * Every package document with symbols must have symbol documents next to it
+ */
+async function verifySymbolCoverage(client: Client, packageIndex: string, symbolIndex: string) {
+  const withSymbols = await countDocuments(client, packageIndex, {
+    range: { total_symbols: { gt: 0 } },
+  });
+  const response: any = await client.search({
+    index: symbolIndex,
+    size: 0,
+    aggs: {
+      packages: { cardinality: { field: "package_version", precision_threshold: 40000 } },
+    },
+  });
+  const covered = response.aggregations?.packages?.value ?? 0;
+  if (covered < withSymbols) {
+    throw new Error(
+      `${symbolIndex} has symbols for ${covered} package versions, ${packageIndex} lists ${withSymbols} with symbols`,
+    );
+  }
+  console.log(`     ✓ Symbols present for ${covered} package versions`);
+}
+
+/**
+ * Build the indices for SCHEMA_VERSION from the current ones and swap the
+ * aliases over, without taking search down
+ *
+ * The write aliases move first, so packages ingested meanwhile land in the
+ * new indices. Documents are then reindexed (or re-ingested from npm), counts
+ * are checked, and both read aliases swap in one atomic update. Until then
+ * readers keep using the old indices, and a failed migration moves the write
+ * aliases back. Old indices are kept for `rollbackIndices`. A family
+ * without any index (a cluster from before the symbol index) gets an empty
+ * one, with nothing to copy or verify.
+ */
+export async function migrateIndices(client: Client, options: MigrationOptions): Promise<MigrationResult> {
+  const states = await describeIndices(client);
+  const fromVersion = currentVersion(states);
+  const sources = states.map((state) => state.readIndex ?? (state.legacy ? state.family.alias : undefined));
+
+  if (sources.every((source) => !source)) {
+    throw new Error("No index to migrate from; run npm run setup:index first");
+  }
+  if (fromVersion === SCHEMA_VERSION) {
+    throw new Error(`Indices are already at schema version ${SCHEMA_VERSION}`);
+  }
+  if (fromVersion !== undefined && fromVersion > SCHEMA_VERSION) {
+    throw new Error(
+      `Indices are at schema version ${fromVersion}, newer than this code's ${SCHEMA_VERSION}`,
+    );
+  }
+  if (options.mode === "reingest" && !options.reingest) {
+    throw new Error("Re-ingest migration needs a reingest function");
+  }
+
+  const targets = states.map((state) => versionedIndexName(state.family.alias, SCHEMA_VERSION));
+  const symbolFamily = INDEX_FAMILIES.findIndex((family) => family.alias === SYMBOL_INDEX_ALIAS);
+  const packageFamily = INDEX_FAMILIES.findIndex((family) => family.alias === PACKAGE_INDEX_ALIAS);
+
+  console.log(`\n🔀 Migrating schema v${fromVersion ?? "0 (unversioned)"} → v${SCHEMA_VERSION} by ${options.mode}\n`);
+
+  // Leftovers of an earlier attempt never had the read alias; start them over
+  for (const [i, state] of states.entries()) {
+    if (state.versions.includes(SCHEMA_VERSION)) {
+      console.log(`   ⚠️  Deleting unfinished ${targets[i]} from an earlier migration`);
+      if (state.writeIndex === targets[i]) {
+        await moveWriteAliases(client, [state], [sources[i]]);
+        state.writeIndex = sources[i];
+      }
+      await client.indices.delete({ index: targets[i] });
+    }
+    await client.indices.create({ index: targets[i], mappings: state.family.mappings });
+    const note = sources[i] ? "" : ` (no ${state.family.alias} index to migrate from)`;
+    console.log(`   ✓ Created ${targets[i]}${note}`);
+  }
+
+  await moveWriteAliases(client, states, targets);
+  console.log(`   ✓ Write aliases now point at v${SCHEMA_VERSION}\n`);
+
+  const result: MigrationResult = {
+    fromVersion,
+    toVersion: SCHEMA_VERSION,
+    mode: options.mode,
+    indices: [],
+    removedLegacyIndices: [],
+    createdEmptyIndices: targets.filter((_, i) => !sources[i]),
+  };
+
+  try {
+    if (options.mode === "reindex") {
+      for (const [i, source] of sources.entries()) {
+        if (source) await reindexInto(client, source, targets[i]);
+      }
+    } else {
+      const packageSource = sources[packageFamily];
+      const specs = packageSource ? await listPackageSpecs(client, packageSource) : [];
+      console.log(`   📦 Re-ingesting ${specs.length} package versions`);
+      const report = await options.reingest!(specs);
+      if (report.failed > 0) {
+        const failed = report.packages.filter((result) => result.status !== "indexed");
+        throw new Error(
+          `${report.failed} packages failed to re-ingest (${failed
+            .slice(0, 5)
+            .map((result) => `${result.spec}: ${result.error}`)
+            .join("; ")})`,
+        );
+      }
+    }
+
+    console.log(`\n   🔎 Verifying document counts`);
+    for (const [i, source] of sources.entries()) {
+      if (!source) continue;
+      // Re-ingestion may legitimately find more or fewer symbols than before
+      if (options.mode === "reingest" && i === symbolFamily) continue;
+      result.indices.push(await verifyCounts(client, source, targets[i]));
+    }
+    await client.indices.refresh({ index: targets });
+    // Packages listing symbols that were never stored can't have them now
+    if (sources[symbolFamily]) {
+      await verifySymbolCoverage(client, targets[packageFamily], targets[symbolFamily]);
+    }
+  } catch (error: any) {
+    await moveWriteAliases(
+      client,
+      states.map((state, i) => ({ ...state, writeIndex: targets[i] })),
+      states.map((state) => state.writeIndex ?? (state.legacy ? state.family.alias : undefined)),
+    );
+    console.log(`\n   ⚠️  Write aliases restored; ${targets.join(", ")} kept for inspection`);
+    throw error;
+  }
+
+  // A plain index holding the alias name has to go in the same update
+  const actions: estypes.IndicesUpdateAliasesAction[] = [];
+  states.forEach((state, i) => {
+    if (state.legacy) {
+      actions.push({ remove_index: { index: state.family.alias } });
+      result.removedLegacyIndices.push(state.family.alias);
+    } else if (state.readIndex) {
+      actions.push({ remove: { index: state.readIndex, alias: state.family.alias } });
+    }
+    actions.push({ add: { index: targets[i], alias: state.family.alias } });
+  });
+  await client.indices.updateAliases({ actions });
+  console.log(`\n   ✅ Read aliases now point at ${targets.join(", ")}`);
+
+  return result;
+}
+
+/**
+ * Point both aliases of every family back at an earlier schema version:
+ * `toVersion`, or the newest one before the current. Documents written since
+ * the migration exist only in the newer indices.
+ */
+export async function rollbackIndices(client: Client, toVersion?: number): Promise<RollbackResult> {
+  const states = await describeIndices(client);
+  const fromVersion = currentVersion(states);
+  if (fromVersion === undefined) {
+    throw new Error("Read aliases don't point at versioned indices; nothing to roll back");
+  }
+
+  const previous =
+    toVersion ??
+    Math.max(
+      ...states.flatMap((state) => state.versions.filter((version) => version < fromVersion)),
+    );
+  if (!Number.isFinite(previous) || previous === fromVersion) {
+    throw new Error(`No earlier schema version to roll back to from v${fromVersion}`);
+  }
+
+  const actions: estypes.IndicesUpdateAliasesAction[] = [];
+  for (const state of states) {
+    if (!state.versions.includes(previous)) {
+      throw new Error(`${versionedIndexName(state.family.alias, previous)} doesn't exist`);
+    }
+    const target = versionedIndexName(state.family.alias, previous);
+    actions.push(
+      { remove: { index: state.readIndex!, alias: state.family.alias } },
+      { add: { index: target, alias: state.family.alias } },
+    );
+    if (state.writeIndex === target) continue;
+    if (state.writeIndex) {
+      actions.push({ remove: { index: state.writeIndex, alias: state.family.writeAlias } });
+    }
+    actions.push({ add: { index: target, alias: state.family.writeAlias, is_write_index: true } });
+  }
+
+  await client.indices.updateAliases({ actions });
+  return { fromVersion, toVersion: previous };
+}
@@ -0,0 +1,304 @@
+import type { estypes } from "@elastic/elasticsearch";
+
+/**
+ * Version of the mappings below. Bump it with any mapping change, then run
+ * `npm run migrate:index` to build the new indices and swap the aliases.
+ */
+export const SCHEMA_VERSION = 1;
+
+/**
+ * Fields of one parsed symbol: nested under `symbols` in the package index,
+ * top-level in the symbols index
+ */
+const SYMBOL_PROPERTIES = {
+  kind: {
+    type: "keyword",
+  },
+  name: {
+    type: "keyword",
+  },
+  signature: {
+    type: "text",
+  },
+  implementation: {
+    type: "text",
+  },
+  jsdoc: {
+    type: "text",
+  },
+  // Structured doc comment tags
+  param_docs: {
+    properties: {
+      name: { type: "keyword" },
+      type: { type: "text" },
+      description: { type: "text" },
+    },
+  },
+  returns_doc: {
+    type: "text",
+  },
+  throws: {
+    type: "text",
+  },
+  examples: {
+    type: "text",
+  },
+  deprecated: {
+    type: "boolean",
+  },
+  deprecation_reason: {
+    type: "text",
+  },
+  since: {
+    type: "keyword",
+  },
+  see: {
+    type: "text",
+  },
+  file_path: {
+    type: "keyword",
+  },
+  start_line: {
+    type: "integer",
+  },
+  end_line: {
+    type: "integer",
+  },
+  is_exported: {
+    type: "boolean",
+  },
+  parameters: {
+    type: "text",
+  },
+  return_type: {
+    type: "text",
+  },
+  overloads: {
+    type: "text",
+  },
+  // Checker-inferred types, next to the ones written in source
+  inferred_signature: {
+    type: "text",
+  },
+  inferred_parameters: {
+    type: "text",
+  },
+  inferred_return_type: {
+    type: "text",
+  },
+  relevance_score: {
+    type: "integer",
+  },
+  entry_points: {
+    type: "keyword",
+  },
+  source_url: {
+    type: "keyword",
+    index: false,
+  },
+  // Class and namespace members link back to their container
+  parent: {
+    type: "keyword",
+  },
+  visibility: {
+    type: "keyword",
+  },
+  is_static: {
+    type: "boolean",
+  },
+  members: {
+    type: "keyword",
+  },
+  // Public names from the package entry files, and public/internal/unreachable
+  exported_names: {
+    type: "keyword",
+  },
+  reachability: {
+    type: "keyword",
+  },
+  // Pieces of a large implementation, linked by group and ordered by index
+  chunk_index: {
+    type: "integer",
+  },
+  chunk_count: {
+    type: "integer",
+  },
+  chunk_header: {
+    type: "text",
+    index: false,
+  },
+  chunk_group: {
+    type: "keyword",
+  },
+  // Edges to other symbols of the package, by symbol_id ("src/client.ts#Client.request")
+  symbol_id: {
+    type: "keyword",
+  },
+  // Files holding other build copies of the symbol (dist/esm, dist/cjs)
+  alternate_paths: {
+    type: "keyword",
+  },
+  calls: {
+    type: "keyword",
+  },
+  called_by: {
+    type: "keyword",
+  },
+  extends: {
+    type: "keyword",
+  },
+  implements: {
+    type: "keyword",
+  },
+  references_types: {
+    type: "keyword",
+  },
+} as const;
+
+/** Mappings of the package index, one document per package version */
+export const PACKAGE_INDEX_MAPPINGS: estypes.MappingTypeMapping = {
+  _meta: { schema_version: SCHEMA_VERSION },
+  properties: {
+    name: {
+      type: "keyword",
+    },
+    version: {
+      type: "keyword",
+    },
+    description: {
+      type: "text",
+    },
+    readme_content: {
+      type: "semantic_text",
+      inference_id: "gemini-embeddings",
+    },
+    keywords: {
+      type: "keyword",
+    },
+
+    // Repository metadata
+    repository_url: {
+      type: "keyword",
+    },
+    source_strategy: {
+      type: "keyword",
+    },
+    source_ref: {
+      type: "keyword",
+    },
+    source_ref_type: {
+      type: "keyword",
+    },
+    source_commit: {
+      type: "keyword",
+    },
+    source_directory: {
+      type: "keyword",
+    },
+    entry_points: {
+      type: "keyword",
+    },
+
+    // Legacy exports (from .d.ts)
+    exports: {
+      type: "nested",
+      properties: {
+        kind: {
+          type: "keyword",
+        },
+        name: {
+          type: "keyword",
+        },
+        signature: {
+          type: "text",
+        },
+        jsdoc: {
+          type: "text",
+        },
+        entry: {
+          type: "keyword",
+        },
+        import_path: {
+          type: "keyword",
+        },
+        original_name: {
+          type: "keyword",
+        },
+        file_path: {
+          type: "keyword",
+        },
+      },
+    },
+
+    // NEW: Actual source code symbols with implementations!
+    symbols: {
+      type: "nested",
+      properties: SYMBOL_PROPERTIES,
+    },
+
+    // Minified files skipped, bundled/generated files downweighted
+    file_decisions: {
+      type: "object",
+      enabled: false,
+    },
+
+    // Source files left out by the byte budget, size cap or failed loads
+    skipped_files: {
+      type: "object",
+      enabled: false,
+    },
+
+    // Concatenated source code for semantic search
+    source_code_content: {
+      type: "semantic_text",
+      inference_id: "gemini-embeddings",
+    },
+
+    code_examples: {
+      type: "text",
+    },
+
+    // Statistics
+    total_symbols: {
+      type: "integer",
+    },
+    total_source_files: {
+      type: "integer",
+    },
+    total_source_size: {
+      type: "integer",
+    },
+    scoring_profile: {
+      type: "keyword",
+    },
+    indexed_at: {
+      type: "date",
+    },
+  },
+};
+
+/** Mappings of the symbols index, one document per symbol (or chunk) */
+export const SYMBOL_INDEX_MAPPINGS: estypes.MappingTypeMapping = {
+  _meta: { schema_version: SCHEMA_VERSION },
+  properties: {
+    package: {
+      type: "keyword",
+    },
+    version: {
+      type: "keyword",
+    },
+    // "name@version", the id of the package document
+    package_version: {
+      type: "keyword",
+    },
+    ...SYMBOL_PROPERTIES,
+    // Doc comment, signature and implementation, embedded per symbol
+    search_text: {
+      type: "semantic_text",
+      inference_id: "gemini-embeddings",
+    },
+    indexed_at: {
+      type: "date",
+    },
+  },
+};
@@ -1,49 +1,172 @@
 import { Client } from "@elastic/elasticsearch";
+import { Client as OpenSearchClient } from "@opensearch-project/opensearch";
 import * as dotenv from "dotenv";
+import { createSearchBackend } from "@npm-intel/shared/search";
+import type {
+  IndexReport,
+  IndexStage,
+  PackageIndexResult,
+} from "@npm-intel/shared/ingestion";
+import type { IndexedVersion } from "@npm-intel/shared/versions";
 import {
   fetchPackage,
-  extractExportsSimple,
+  parsePackageSpec,
+  resolvePackageVersion,
   extractCodeBlocks,
   prepareReadmeContent,
   type ExportInfo,
 } from "./fetcher.js";
-import { fetchSourceCode, type SourceCodeResult } from "./source-fetcher.js";
+import { extractDeclarationExports } from "./dts-extractor.js";
+import {
+  listImportSpecifiers,
+  tagSymbolEntryPoints,
+  toImportSpecifier,
+} from "./entry-points.js";
+import { dedupeSymbols } from "./dedup.js";
+import { applyExportGraph } from "./export-graph.js";
+import { screenSourceFiles, type FileDecision } from "./file-classifier.js";
+import type { SkippedFile } from "./file-selector.js";
+import { calculateRelevanceScore, getScoringProfile } from "./scoring.js";
+import { linkSymbolRelations, symbolId } from "./symbol-graph.js";
+import {
+  fetchSourceCode,
+  type SourceCodeResult,
+  type SourceProvenance,
+} from "./source-fetcher.js";
 import {
   parseSourceFiles,
   filterRelevantSymbols,
-  calculateRelevanceScore,
   createSymbolSearchText,
   type ParsedSymbol,
 } from "./code-parser.js";
 
 dotenv.config();
 
-const ELASTIC_CLOUD_ID = process.env.ELASTIC_CLOUD_ID;
-const ELASTIC_ENDPOINT = process.env.ELASTIC_ENDPOINT;
-const ELASTIC_API_KEY = process.env.ELASTIC_API_KEY;
+/**
+ * Client for the elasticsearch backend, built only when that one is selected
+ */
+function createElasticClient(): Client {
+  const ELASTIC_CLOUD_ID = process.env.ELASTIC_CLOUD_ID;
+  const ELASTIC_ENDPOINT = process.env.ELASTIC_ENDPOINT;
+  const ELASTIC_API_KEY = process.env.ELASTIC_API_KEY;
+
+  if (!ELASTIC_API_KEY) {
+    throw new Error("Missing ELASTIC_API_KEY environment variable");
+  }
 
-if (!ELASTIC_API_KEY) {
-  throw new Error("Missing ELASTIC_API_KEY environment variable");
+  if (!ELASTIC_CLOUD_ID && !ELASTIC_ENDPOINT) {
+    throw new Error(
+      "Missing ELASTIC_CLOUD_ID or ELASTIC_ENDPOINT environment variable",
+    );
+  }
+
+  // Support both Cloud ID and direct endpoint URL
+  return ELASTIC_CLOUD_ID
+    ? new Client({
+        cloud: { id: ELASTIC_CLOUD_ID },
+        auth: { apiKey: ELASTIC_API_KEY },
+      })
+    : new Client({
+        node: ELASTIC_ENDPOINT!,
+        auth: { apiKey: ELASTIC_API_KEY },
+      });
 }
 
-if (!ELASTIC_CLOUD_ID && !ELASTIC_ENDPOINT) {
-  throw new Error(
-    "Missing ELASTIC_CLOUD_ID or ELASTIC_ENDPOINT environment variable",
-  );
+/**
+ * Client for the opensearch backend; basic auth when OPENSEARCH_USERNAME is set
+ */
+function createOpenSearchClient(): OpenSearchClient {
+  const OPENSEARCH_NODE = process.env.OPENSEARCH_NODE;
+  const OPENSEARCH_USERNAME = process.env.OPENSEARCH_USERNAME;
+  const OPENSEARCH_PASSWORD = process.env.OPENSEARCH_PASSWORD;
+
+  if (!OPENSEARCH_NODE) {
+    throw new Error("Missing OPENSEARCH_NODE environment variable");
+  }
+
+  return new OpenSearchClient({
+    node: OPENSEARCH_NODE,
+    ...(OPENSEARCH_USERNAME
+      ? { auth: { username: OPENSEARCH_USERNAME, password: OPENSEARCH_PASSWORD ?? "" } }
+      : {}),
+  });
 }
 
-// Support both Cloud ID and direct endpoint URL
-const client = ELASTIC_CLOUD_ID
-  ? new Client({
-      cloud: { id: ELASTIC_CLOUD_ID },
-      auth: { apiKey: ELASTIC_API_KEY },
-    })
-  : new Client({
-      node: ELASTIC_ENDPOINT!,
-      auth: { apiKey: ELASTIC_API_KEY },
-    });
+// SEARCH_BACKEND picks Elasticsearch or OpenSearch (through the write
+// aliases) or the local index under LOCAL_INDEX_DIR
+const backend = createSearchBackend({
+  elasticsearch: createElasticClient,
+  opensearch: createOpenSearchClient,
+});
+
+/** Packages indexPackages works on at once (INDEX_CONCURRENCY) */
+const DEFAULT_CONCURRENCY = Number(process.env.INDEX_CONCURRENCY || 3);
+/** Time one package may take before it's reported as timed out; 0 disables (INDEX_TIMEOUT_MS) */
+const DEFAULT_PACKAGE_TIMEOUT_MS = Number(process.env.INDEX_TIMEOUT_MS || 300000);
+
+export type { IndexReport, PackageIndexResult };
+
+/**
+ * One parsed symbol as stored: nested in the package document and as its
+ * own document in the symbols index
+ */
+export interface SymbolFields {
+  kind: string;
+  name: string;
+  signature: string;
+  implementation: string;
+  jsdoc?: string;
+  param_docs?: Array<{ name: string; type?: string; description?: string }>;
+  returns_doc?: string;
+  throws?: string[];
+  examples?: string[];
+  deprecated?: boolean;
+  deprecation_reason?: string;
+  since?: string;
+  see?: string[];
+  file_path: string;
+  start_line: number;
+  end_line: number;
+  is_exported: boolean;
+  parameters?: string[];
+  return_type?: string;
+  overloads?: string[];
+  inferred_signature?: string;
+  inferred_parameters?: string[];
+  inferred_return_type?: string;
+  relevance_score?: number;
+  entry_points?: string[];
+  source_url?: string;
+  parent?: string;
+  visibility?: string;
+  is_static?: boolean;
+  members?: string[];
+  exported_names?: string[];
+  reachability?: string;
+  chunk_index?: number;
+  chunk_count?: number;
+  chunk_header?: string;
+  chunk_group?: string;
+  symbol_id: string;
+  alternate_paths?: string[];
+  calls?: string[];
+  called_by?: string[];
+  extends?: string[];
+  implements?: string[];
+  references_types?: string[];
+}
 
-const INDEX_NAME = "npm-packages";
+/**
+ * A symbol in the symbols index, with its own embedding
+ */
+export interface SymbolDocument extends SymbolFields {
+  package: string;
+  version: string;
+  /** Id of the package document ("zod@3.23.8") */
+  package_version: string;
+  search_text: string;
+  indexed_at: string;
+}
 
 export interface PackageDocument {
   name: string;
@@ -53,43 +176,102 @@ export interface PackageDocument {
   readme_content: string;
   repository_url?: string;
   source_strategy?: string;
+  source_ref?: string;
+  source_ref_type?: SourceProvenance["resolvedFrom"];
+  source_commit?: string;
+  source_directory?: string;
+  entry_points: string[];
   exports: ExportInfo[];
-  symbols: Array<{
-    kind: string;
-    name: string;
-    signature: string;
-    implementation: string;
-    jsdoc?: string;
-    file_path: string;
-    start_line: number;
-    end_line: number;
-    is_exported: boolean;
-    parameters?: string[];
-    return_type?: string;
-    relevance_score?: number;
-  }>;
+  symbols: SymbolFields[];
+  /** Files flagged as minified, bundled or generated, and what was done with them */
+  file_decisions: FileDecision[];
+  /** Source files the selection left out, and why */
+  skipped_files: SkippedFile[];
   source_code_content: string; // Concatenated implementations for embedding
   code_examples: string;
   total_symbols: number;
   total_source_files: number;
   total_source_size: number;
+  /** Scoring profile the symbols' relevance_score was computed with */
+  scoring_profile: string;
+  indexed_at: string;
+}
+
+export interface IndexOptions {
+  /** Name of the scoring profile for relevance_score (default: SCORING_PROFILE or "default") */
+  scoringProfile?: string;
+  /** Packages indexed at once by indexPackages (default: INDEX_CONCURRENCY or 3) */
+  concurrency?: number;
+  /** Per-package time limit in ms for indexPackages (default: INDEX_TIMEOUT_MS or 5 minutes) */
+  timeoutMs?: number;
+  /** Cancels the run's downloads; an aborted run stops before writing to the index */
+  signal?: AbortSignal;
 }
 
 /**
  * Index a single package with ACTUAL SOURCE CODE
+ *
+ * `version` may be a dist-tag, an exact version or a semver range; ranges
+ * resolve to the highest published version that satisfies them.
  */
 export async function indexPackage(
   packageName: string,
   version: string = "latest",
+  options: IndexOptions = {},
+): Promise<PackageIndexResult> {
+  const result = newPackageResult(
+    version === "latest" ? packageName : `${packageName}@${version}`,
+    packageName,
+  );
+  const startedAt = Date.now();
+  await runIndexPackage(result, packageName, version, options);
+  result.durationMs = Date.now() - startedAt;
+  return result;
+}
+
+function newPackageResult(spec: string, name: string): PackageIndexResult {
+  return { spec, name, status: "indexed", durationMs: 0, stages: {}, warnings: [] };
+}
+
+/**
+ * The work of indexPackage. Progress is recorded in `result` as it happens,
+ * so a run that fails or times out still reports the stages it got through.
+ */
+async function runIndexPackage(
+  result: PackageIndexResult,
+  packageName: string,
+  version: string,
+  options: IndexOptions,
 ): Promise<void> {
+  let stageStartedAt = Date.now();
+  const endStage = (stage: IndexStage) => {
+    result.stages[stage] = Date.now() - stageStartedAt;
+    stageStartedAt = Date.now();
+  };
+
   try {
-    console.log(`\n📥 Indexing ${packageName}@${version}...`);
+    const scoringProfile = getScoringProfile(options.scoringProfile);
+    const resolvedVersion = await resolvePackageVersion(packageName, version, options.signal);
+    result.version = resolvedVersion;
+    console.log(
+      `\n📥 Indexing ${packageName}@${resolvedVersion}${
+        resolvedVersion !== version ? ` (from "${version}")` : ""
+      }...`,
+    );
 
     // Step 1: Fetch package metadata (README, package.json)
-    const { pkgJson, readme, dts } = await fetchPackage(packageName, version);
-
-    // Step 2: Extract legacy exports from .d.ts (if available)
-    const exports = extractExportsSimple(dts);
+    const { pkgJson, readme, typeEntries, declarationFiles } =
+      await fetchPackage(packageName, resolvedVersion, options.signal);
+
+    // Step 2: Extract the public API of every declared .d.ts entry point
+    const exports = extractDeclarationExports(declarationFiles, typeEntries).map(
+      (exported) => ({
+        ...exported,
+        import_path: exported.entry
+          ? toImportSpecifier(pkgJson.name, exported.entry)
+          : undefined,
+      }),
+    );
     const codeBlocks = extractCodeBlocks(readme);
     const readmeContent = prepareReadmeContent(readme, codeBlocks);
 
@@ -101,29 +283,86 @@ export async function indexPackage(
       typeof pkgJson.repository === "string"
         ? pkgJson.repository
         : pkgJson.repository?.url;
+    const repoDirectory =
+      typeof pkgJson.repository === "object"
+        ? pkgJson.repository?.directory
+        : undefined;
 
     console.log(`     🔍 Fetching source code...`);
     const sourceCode = await fetchSourceCode(
       packageName,
       pkgJson.version,
-      repoUrl,
+      repoUrl ? { url: repoUrl, directory: repoDirectory } : undefined,
+      { pkgJson, signal: options.signal },
     );
+    endStage("fetch");
+    options.signal?.throwIfAborted();
 
     let symbols: ParsedSymbol[] = [];
     let sourceStrategy = "none";
     let totalSourceFiles = 0;
     let totalSourceSize = 0;
+    let provenance: SourceProvenance | undefined;
+    let fileDecisions: FileDecision[] = [];
+    const skippedFiles = sourceCode?.skipped ?? [];
+    let chunkedCount = 0;
 
     if (sourceCode && sourceCode.files.length > 0) {
-      // Step 4: Parse source files to extract functions, classes, etc.
-      console.log(`     🔬 Parsing ${sourceCode.files.length} source files...`);
+      // Minified files are dropped; bundles and generated code are flagged
+      const screened = screenSourceFiles(sourceCode.files);
+      fileDecisions = screened.decisions;
+      for (const decision of fileDecisions) {
+        console.log(
+          `     ${decision.action === "skipped" ? "⏭️ " : "⚠️ "} ${decision.path}: ${decision.classification}, ${decision.action} (${decision.signals.join(", ")})`,
+        );
+      }
 
-      const allSymbols = parseSourceFiles(sourceCode.files);
-      symbols = filterRelevantSymbols(allSymbols);
+      // Step 4: Parse source files to extract functions, classes, etc.
+      console.log(`     🔬 Parsing ${screened.files.length} source files...`);
+
+      // Shipped .d.ts files let the checker resolve types the sources import
+      const allSymbols = parseSourceFiles(screened.files, declarationFiles);
+      const flagged = new Map(
+        fileDecisions.flatMap((decision) =>
+          decision.classification === "minified" ? [] : [[decision.path, decision.classification] as const],
+        ),
+      );
+      for (const symbol of allSymbols) {
+        symbol.fileClassification = flagged.get(symbol.filePath);
+      }
+
+      // Public vs internal comes from what the entry files actually export;
+      // the filter below keeps public symbols however small they are
+      const exportGraph = applyExportGraph(allSymbols, screened.files, sourceCode.entryFiles ?? []);
+      if (exportGraph) {
+        console.log(
+          `     ✓ Export graph: ${exportGraph.publicNames.size} public declarations across ${exportGraph.reachableFiles.size} reachable files`,
+        );
+      }
+
+      // The same declaration often ships as src, esm, cjs and dist copies. This
+      // runs after the export graph so the copy that stays inherits the export
+      // status of whichever copy the entry files load.
+      const deduped = dedupeSymbols(allSymbols);
+      if (deduped.collapsed > 0) {
+        console.log(`     ✓ Collapsed ${deduped.collapsed} duplicate symbols from other builds`);
+      }
+
+      symbols = filterRelevantSymbols(deduped.symbols);
+      chunkedCount = new Set(
+        symbols.flatMap((symbol) => (symbol.chunk ? [symbol.chunk.group] : [])),
+      ).size;
+      if (chunkedCount > 0) {
+        console.log(`     ✓ Split ${chunkedCount} large symbols into chunks`);
+      }
+      const edgeCount = linkSymbolRelations(symbols);
+      console.log(`     ✓ Linked ${edgeCount} call, inheritance and type references`);
+      tagSymbolEntryPoints(symbols, exports, pkgJson);
 
       sourceStrategy = sourceCode.strategy;
-      totalSourceFiles = sourceCode.files.length;
+      totalSourceFiles = screened.files.length;
       totalSourceSize = sourceCode.totalSize;
+      provenance = sourceCode.provenance;
 
       // Calculate stats
       const exportedCount = symbols.filter((s) => s.isExported).length;
@@ -134,8 +373,25 @@ export async function indexPackage(
         `     ✓ Filtered to ${symbols.length} relevant symbols (${exportedCount} exported, ${internalCount} internal)`,
       );
       console.log(`     ✓ Source strategy: ${sourceStrategy}`);
+      if (provenance) {
+        console.log(
+          `     ✓ Source ref: ${provenance.ref} (${provenance.resolvedFrom}, ${provenance.commitSha.slice(0, 7)})`,
+        );
+      }
     } else {
       console.log(`     ⚠️  No source code found, using README only`);
+      result.warnings.push("No source code found, using README only");
+    }
+
+    // @example blocks from doc comments sit next to the README examples
+    const docExamples = symbols.flatMap((symbol) =>
+      (symbol.docs?.examples ?? []).map(
+        (example) =>
+          `// ${symbol.parent ? `${symbol.parent}.${symbol.name}` : symbol.name}\n${example}`,
+      ),
+    );
+    if (docExamples.length > 0) {
+      console.log(`     ✓ Extracted ${docExamples.length} JSDoc @example blocks`);
     }
 
     // Step 5: Create concatenated source code content for embedding
@@ -143,6 +399,55 @@ export async function indexPackage(
       .map((symbol) => createSymbolSearchText(symbol))
       .join("\n\n---\n\n");
 
+    // 🆕 NEW: Actual source code symbols with implementations!
+    const symbolFields: SymbolFields[] = symbols.map((symbol) => ({
+      kind: symbol.kind,
+      name: symbol.name,
+      signature: symbol.signature,
+      implementation: symbol.implementation, // ← ACTUAL CODE!
+      jsdoc: symbol.jsdoc,
+      param_docs: symbol.docs?.params,
+      returns_doc: symbol.docs?.returns,
+      throws: symbol.docs?.throws,
+      examples: symbol.docs?.examples,
+      deprecated: symbol.docs?.deprecated,
+      deprecation_reason: symbol.docs?.deprecationReason,
+      since: symbol.docs?.since,
+      see: symbol.docs?.see,
+      file_path: symbol.filePath,
+      start_line: symbol.startLine,
+      end_line: symbol.endLine,
+      is_exported: symbol.isExported,
+      parameters: symbol.parameters,
+      return_type: symbol.returnType,
+      overloads: symbol.overloads,
+      inferred_signature: symbol.inferredSignature,
+      inferred_parameters: symbol.inferredParameters,
+      inferred_return_type: symbol.inferredReturnType,
+      relevance_score: calculateRelevanceScore(symbol, scoringProfile),
+      entry_points: symbol.entryPoints,
+      parent: symbol.parent,
+      visibility: symbol.visibility,
+      is_static: symbol.isStatic,
+      members: symbol.members,
+      exported_names: symbol.exportedNames,
+      reachability: symbol.reachability,
+      chunk_index: symbol.chunk?.index,
+      chunk_count: symbol.chunk?.count,
+      chunk_header: symbol.chunk?.header,
+      chunk_group: symbol.chunk?.group,
+      symbol_id: symbolId(symbol),
+      alternate_paths: symbol.alternatePaths,
+      calls: symbol.relations?.calls,
+      called_by: symbol.relations?.calledBy,
+      extends: symbol.relations?.extends,
+      implements: symbol.relations?.implements,
+      references_types: symbol.relations?.referencesTypes,
+      source_url: provenance?.browseUrl
+        ? `${provenance.browseUrl}/${symbol.filePath}#L${symbol.startLine}-L${symbol.endLine}`
+        : undefined,
+    }));
+
     // Step 6: Prepare document for Elasticsearch
     const doc: PackageDocument = {
       name: pkgJson.name,
@@ -152,51 +457,75 @@ export async function indexPackage(
       readme_content: readmeContent,
       repository_url: repoUrl,
       source_strategy: sourceStrategy,
+      source_ref: provenance?.ref,
+      source_ref_type: provenance?.resolvedFrom,
+      source_commit: provenance?.commitSha,
+      source_directory: provenance?.directory,
+      entry_points: listImportSpecifiers(exports, pkgJson),
 
       // Legacy exports from .d.ts
       exports,
 
-      // 🆕 NEW: Actual source code symbols with implementations!
-      symbols: symbols.map((symbol) => ({
-        kind: symbol.kind,
-        name: symbol.name,
-        signature: symbol.signature,
-        implementation: symbol.implementation, // ← ACTUAL CODE!
-        jsdoc: symbol.jsdoc,
-        file_path: symbol.filePath,
-        start_line: symbol.startLine,
-        end_line: symbol.endLine,
-        is_exported: symbol.isExported,
-        parameters: symbol.parameters,
-        return_type: symbol.returnType,
-        relevance_score: calculateRelevanceScore(symbol),
-      })),
+      symbols: symbolFields,
+
+      file_decisions: fileDecisions,
+      skipped_files: skippedFiles,
 
       // Concatenated source code for semantic search
       source_code_content: sourceCodeContent,
 
-      code_examples: codeBlocks.join("\n\n"),
+      code_examples: [...codeBlocks, ...docExamples].join("\n\n"),
       total_symbols: symbols.length,
       total_source_files: totalSourceFiles,
       total_source_size: totalSourceSize,
+      scoring_profile: scoringProfile.name,
+      indexed_at: new Date().toISOString(),
     };
 
-    // Step 7: Index to Elasticsearch
+    // Step 7: Write to the search backend
     // Elasticsearch will automatically generate embeddings for:
     // - readme_content (semantic_text) - README + usage docs
     // - source_code_content (semantic_text) - ALL FUNCTION/CLASS IMPLEMENTATIONS!
+    // The local backend hashes the same text into vectors itself
     const docId = `${doc.name}@${doc.version}`;
-    await client.index({
-      index: INDEX_NAME,
-      id: docId,
-      document: doc,
-    });
+    endStage("parse");
+
+    const symbolDocuments: SymbolDocument[] = symbolFields.map((fields, i) => ({
+      ...fields,
+      package: doc.name,
+      version: doc.version,
+      package_version: docId,
+      search_text: createSymbolSearchText(symbols[i]),
+      indexed_at: doc.indexed_at,
+    }));
+    options.signal?.throwIfAborted();
+    const written = await backend.upsertPackage(docId, doc, symbolDocuments, options.signal);
+
+    console.log(`     ✓ Wrote ${written.symbolsWritten} symbol documents to ${backend.location}`);
+    if (written.failedSymbols.length > 0) {
+      const failedSymbols = written.failedSymbols;
+      console.log(`     ⚠️  ${failedSymbols.length} symbol documents failed (${failedSymbols.slice(0, 3).join("; ")})`);
+      result.warnings.push(
+        `${failedSymbols.length} symbol documents failed to index (${failedSymbols.slice(0, 3).join("; ")})`,
+      );
+    }
+    endStage("index");
 
     const exportedCount = symbols.filter((s) => s.isExported).length;
+    result.symbols = {
+      total: symbols.length,
+      exported: exportedCount,
+      chunked: chunkedCount,
+    };
+    result.sourceStrategy = sourceStrategy;
+    result.sourceFiles = totalSourceFiles;
+    result.fileDecisions = fileDecisions;
+    result.skippedFiles = skippedFiles;
+
     const avgRelevance =
       symbols.length > 0
         ? (
-            symbols.reduce((sum, s) => sum + calculateRelevanceScore(s), 0) /
+            symbols.reduce((sum, s) => sum + calculateRelevanceScore(s, scoringProfile), 0) /
             symbols.length
           ).toFixed(1)
         : 0;
@@ -206,7 +535,7 @@ export async function indexPackage(
       `        📊 Stats: ${symbols.length} symbols (${exportedCount} public, ${symbols.length - exportedCount} internal)`,
     );
     console.log(
-      `        📈 Quality: Avg relevance ${avgRelevance}, ${totalSourceFiles} files, ${Math.round(totalSourceSize / 1024)}KB`,
+      `        📈 Quality: Avg relevance ${avgRelevance} (${scoringProfile.name} profile), ${totalSourceFiles} files, ${Math.round(totalSourceSize / 1024)}KB`,
     );
   } catch (error: any) {
     console.error(`     ❌ Failed to index ${packageName}:`, error.message);
@@ -215,33 +544,123 @@ export async function indexPackage(
 }
 
 /**
- * Index multiple packages
+ * Index one package spec under a time limit. When time is up the run's
+ * downloads are cancelled and it's abandoned before it writes; a write
+ * already under way is waited for, and reported as it ended.
  */
-export async function indexPackages(packages: string[]): Promise<void> {
-  console.log(`\n🚀 Starting ingestion for ${packages.length} packages...\n`);
-  console.log(`🆕 NOW WITH ACTUAL SOURCE CODE INDEXING!\n`);
+async function indexWithTimeout(
+  spec: string,
+  options: IndexOptions,
+  timeoutMs: number,
+): Promise<PackageIndexResult> {
+  const result = newPackageResult(spec, spec);
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
 
-  let successful = 0;
-  let failed = 0;
-  let totalSymbols = 0;
+  try {
+    const { name, version } = parsePackageSpec(spec);
+    result.name = name;
 
-  for (const pkg of packages) {
-    try {
-      await indexPackage(pkg);
-      successful++;
+    const run = runIndexPackage(result, name, version, { ...options, signal: controller.signal });
+    // An abandoned run rejects later, when nobody is waiting for it
+    run.catch(() => {});
 
-      // Track total symbols (rough estimate from console output)
-      // In production, we'd return this from indexPackage
-    } catch (error) {
-      failed++;
-      console.error(`Skipping ${pkg} due to errors`);
+    const timeout = new Promise<"timed_out">((resolve) => {
+      if (timeoutMs <= 0) return;
+      timer = setTimeout(() => resolve("timed_out"), timeoutMs);
+    });
+    if ((await Promise.race([run, timeout])) === "timed_out") {
+      const error = new Error(`Timed out after ${timeoutMs}ms`);
+      controller.abort(error);
+
+      // Past parsing the backend is writing; the abort stops it at its next step
+      const writing = result.stages.parse !== undefined;
+      if (writing) await run.catch(() => {});
+      if (result.stages.index === undefined) {
+        if (writing) {
+          result.warnings.push("Write interrupted; symbol documents may be replaced without the package document");
+        }
+        throw error;
+      }
+      result.warnings.push(`Written to ${backend.location} after the ${timeoutMs}ms time limit`);
     }
+  } catch (error: any) {
+    result.status = controller.signal.aborted ? "timed_out" : "failed";
+    result.error = error.message;
+    console.error(`Skipping ${spec} due to errors: ${error.message}`);
+  } finally {
+    clearTimeout(timer);
   }
 
+  result.durationMs = Date.now() - startedAt;
+  // Detach from an abandoned run that may still be filling it in
+  return structuredClone(result);
+}
+
+/**
+ * Index multiple packages, `concurrency` at a time
+ *
+ * Each entry is an install spec: "zod", "zod@3.23.8" or "zod@^3". A package
+ * that fails or times out doesn't stop the others; the report says which.
+ */
+export async function indexPackages(
+  packages: string[],
+  options: IndexOptions = {},
+): Promise<IndexReport> {
+  // Fail before fetching anything if the profile doesn't exist
+  const scoringProfile = getScoringProfile(options.scoringProfile);
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? DEFAULT_CONCURRENCY));
+  const timeoutMs = options.timeoutMs ?? DEFAULT_PACKAGE_TIMEOUT_MS;
+  const startedAt = new Date();
+
+  console.log(`\n🚀 Starting ingestion for ${packages.length} packages...\n`);
+  console.log(`🎯 Scoring profile: ${scoringProfile.name}`);
+  console.log(`⚙️  Concurrency: ${concurrency}, timeout: ${timeoutMs > 0 ? `${timeoutMs}ms` : "none"} per package\n`);
+  console.log(`🆕 NOW WITH ACTUAL SOURCE CODE INDEXING!\n`);
+
+  const results: PackageIndexResult[] = new Array(packages.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < packages.length) {
+      const index = next++;
+      results[index] = await indexWithTimeout(
+        packages[index],
+        { ...options, scoringProfile: scoringProfile.name },
+        timeoutMs,
+      );
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, packages.length) }, worker));
+
+  const finishedAt = new Date();
+  const succeeded = results.filter((result) => result.status === "indexed").length;
+  const report: IndexReport = {
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    concurrency,
+    timeoutMs,
+    scoringProfile: scoringProfile.name,
+    succeeded,
+    failed: results.length - succeeded,
+    packages: results,
+  };
+
   console.log("\n" + "=".repeat(60));
   console.log(`\n📊 Ingestion Summary:`);
-  console.log(`   ✅ Successful: ${successful}/${packages.length}`);
-  console.log(`   ❌ Failed: ${failed}/${packages.length}`);
+  console.log(`   ✅ Successful: ${report.succeeded}/${packages.length}`);
+  console.log(`   ❌ Failed: ${report.failed}/${packages.length}`);
+  for (const result of results) {
+    const label = result.version ? `${result.name}@${result.version}` : result.spec;
+    const detail =
+      result.status === "indexed"
+        ? `${result.symbols?.total ?? 0} symbols, ${result.sourceStrategy ?? "none"}`
+        : result.error;
+    console.log(
+      `   ${result.status === "indexed" ? "✓" : "✗"} ${label} (${(result.durationMs / 1000).toFixed(1)}s): ${detail}`,
+    );
+  }
   console.log(`\n💡 What's Indexed:`);
   console.log(`   - Package metadata (name, version, description)`);
   console.log(`   - README documentation`);
@@ -251,16 +670,27 @@ export async function indexPackages(packages: string[]): Promise<void> {
   console.log(`   - TypeScript/JavaScript implementations`);
   console.log(`   - Embeddings for both README AND code!`);
   console.log("\n" + "=".repeat(60) + "\n");
+
+  return report;
+}
+
+/**
+ * List the versions of a package currently in the index, newest first
+ */
+export async function listIndexedVersions(
+  packageName: string,
+): Promise<IndexedVersion[]> {
+  return backend.listVersions(packageName);
 }
 
 /**
- * Close the Elasticsearch client
+ * Close the search backend
  */
 export async function closeClient(): Promise<void> {
-  await client.close();
+  await backend.close();
 }
 
 /**
- * Export client for use in other modules
+ * Export the backend for use in other modules
  */
-export { client };
+export { backend };
@@ -0,0 +1,125 @@
+import * as ts from "typescript";
+
+/**
+ * The tags of a doc comment, parsed by the compiler
+ */
+export interface SymbolDocs {
+  /** Comment text before the first tag */
+  description?: string;
+  params?: Array<{ name: string; type?: string; description?: string }>;
+  returns?: string;
+  throws?: string[];
+  /** Code of each `@example` block, without markdown fences */
+  examples?: string[];
+  deprecated?: boolean;
+  deprecationReason?: string;
+  since?: string;
+  see?: string[];
+}
+
+/**
+ * The doc comment closest to a declaration. Variable declarations pick up the
+ * comment on their statement.
+ */
+function closestJSDoc(node: ts.Node): ts.JSDoc | undefined {
+  const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  return docs[docs.length - 1];
+}
+
+function tagText(tag: ts.JSDocTag): string | undefined {
+  return ts.getTextOfJSDocComment(tag.comment)?.trim() || undefined;
+}
+
+/**
+ * `@example` bodies often wrap the code in a markdown fence and may start
+ * with a `<caption>`; keep just the code
+ */
+function exampleCode(tag: ts.JSDocTag): string | undefined {
+  const text = ts.getTextOfJSDocComment(tag.comment);
+  if (!text) return undefined;
+
+  const code = text
+    .replace(/^\s*<caption>[\s\S]*?<\/caption>/, "")
+    .replace(/^\s*```[\w-]*\s*\n/, "")
+    .replace(/\n?\s*```\s*$/, "")
+    .replace(/^\s*\n/, "")
+    .trimEnd();
+  return code.trim() ? code : undefined;
+}
+
+/**
+ * `@see` targets are parsed as entity names, which splits URLs; keep the tag as written
+ */
+function seeText(tag: ts.JSDocSeeTag, sourceFile: ts.SourceFile): string | undefined {
+  return (
+    tag
+      .getText(sourceFile)
+      .replace(/^@see\s*/, "")
+      .replace(/\s*\n\s*\*\s?/g, " ")
+      .trim() || undefined
+  );
+}
+
+/**
+ * "{Type} description", from whichever of the two the tag has
+ */
+function typedTagText(tag: ts.JSDocReturnTag | ts.JSDocThrowsTag): string | undefined {
+  const type = tag.typeExpression?.type.getText();
+  return [type && `{${type}}`, tagText(tag)].filter(Boolean).join(" ") || undefined;
+}
+
+function parseTags(doc: ts.JSDoc, sourceFile: ts.SourceFile): SymbolDocs {
+  const docs: SymbolDocs = {
+    description: ts.getTextOfJSDocComment(doc.comment)?.trim() || undefined,
+  };
+
+  for (const tag of doc.tags ?? []) {
+    const tagName = tag.tagName.text;
+
+    if (ts.isJSDocParameterTag(tag)) {
+      (docs.params ??= []).push({
+        name: tag.name.getText(),
+        type: tag.typeExpression?.type.getText(),
+        // "@param name - description" keeps the dash in the comment
+        description: tagText(tag)?.replace(/^-\s*/, "") || undefined,
+      });
+    } else if (ts.isJSDocReturnTag(tag)) {
+      docs.returns = typedTagText(tag);
+    } else if (ts.isJSDocThrowsTag(tag)) {
+      const text = typedTagText(tag);
+      if (text) (docs.throws ??= []).push(text);
+    } else if (ts.isJSDocDeprecatedTag(tag)) {
+      docs.deprecated = true;
+      docs.deprecationReason = tagText(tag);
+    } else if (ts.isJSDocSeeTag(tag)) {
+      const text = seeText(tag, sourceFile);
+      if (text) (docs.see ??= []).push(text);
+    } else if (tagName === "example") {
+      const code = exampleCode(tag);
+      if (code) (docs.examples ??= []).push(code);
+    } else if (tagName === "since") {
+      docs.since = tagText(tag);
+    }
+  }
+
+  return docs;
+}
+
+/**
+ * Raw doc comment of a declaration plus its structured tags
+ */
+export function extractJSDoc(
+  node: ts.Node,
+  sourceFile: ts.SourceFile,
+): { jsdoc?: string; docs?: SymbolDocs } {
+  const doc = closestJSDoc(node);
+  if (!doc) return {};
+
+  const docs = parseTags(doc, sourceFile);
+  const hasContent = Object.values(docs).some((value) => value !== undefined);
+
+  return {
+    jsdoc: doc.getText(sourceFile).trim(),
+    docs: hasContent ? docs : undefined,
+  };
+}
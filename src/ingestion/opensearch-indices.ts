@@ -0,0 +1,94 @@
+import type { estypes } from "@elastic/elasticsearch";
+import type { API, Client } from "@opensearch-project/opensearch";
+import { versionedIndexName } from "@npm-intel/shared/indices";
+import {
+  PACKAGE_VECTOR_FIELD,
+  SYMBOL_VECTOR_FIELD,
+  type Embedder,
+} from "@npm-intel/shared/search";
+import { INDEX_FAMILIES } from "./index-migration.js";
+import { SCHEMA_VERSION } from "./index-schema.js";
+
+/** k-NN field of each index family, in INDEX_FAMILIES order */
+const VECTOR_FIELDS = [PACKAGE_VECTOR_FIELD, SYMBOL_VECTOR_FIELD];
+
+/**
+ * semantic_text fields as plain text, recursively: OpenSearch has no
+ * inference endpoints, so their embeddings move to the k-NN field
+ */
+function withoutSemanticText(properties: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(properties).map(([name, property]) => {
+      if (property.type === "semantic_text") return [name, { type: "text" }];
+      if (property.properties) {
+        return [name, { ...property, properties: withoutSemanticText(property.properties) }];
+      }
+      return [name, property];
+    }),
+  );
+}
+
+/**
+ * An index family's Elasticsearch mappings for OpenSearch, with a k-NN field
+ * sized for `embedder` and the embedding model recorded in `_meta`
+ */
+export function openSearchMappings(
+  mappings: estypes.MappingTypeMapping,
+  vectorField: string,
+  embedder: Embedder,
+): NonNullable<API.Indices_Create_RequestBody["mappings"]> {
+  return {
+    _meta: {
+      ...mappings._meta,
+      embedding_model: embedder.model,
+      embedding_dimensions: embedder.dimensions,
+    },
+    properties: {
+      ...withoutSemanticText(mappings.properties ?? {}),
+      [vectorField]: {
+        type: "knn_vector",
+        dimension: embedder.dimensions,
+        // The lucene engine applies k-NN filters during the search
+        method: { name: "hnsw", engine: "lucene", space_type: "cosinesimil" },
+      },
+    },
+  };
+}
+
+/**
+ * Create the versioned OpenSearch indices with their read and write
+ * aliases, on a cluster without them
+ */
+export async function createOpenSearchIndices(
+  client: Client,
+  embedder: Embedder,
+  version: number = SCHEMA_VERSION,
+): Promise<string[]> {
+  for (const family of INDEX_FAMILIES) {
+    const { body: exists } = await client.indices.exists({ index: family.alias });
+    if (exists) {
+      throw new Error(`${family.alias} already exists; delete its indices first to recreate them`);
+    }
+  }
+
+  const created: string[] = [];
+  for (const [i, family] of INDEX_FAMILIES.entries()) {
+    const index = versionedIndexName(family.alias, version);
+    const body: API.Indices_Create_RequestBody = {
+      settings: { index: { knn: true } },
+      mappings: openSearchMappings(family.mappings, VECTOR_FIELDS[i], embedder),
+    };
+    await client.indices.create({ index, body });
+    created.push(index);
+  }
+
+  await client.indices.updateAliases({
+    body: {
+      actions: INDEX_FAMILIES.flatMap((family, i) => [
+        { add: { index: created[i], alias: family.alias } },
+        { add: { index: created[i], alias: family.writeAlias, is_write_index: true } },
+      ]),
+    },
+  });
+  return created;
+}
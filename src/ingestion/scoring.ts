@@ -0,0 +1,223 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { ParsedSymbol } from "./code-parser.js";
+
+/**
+ * Points a symbol gains (or loses, when negative) for each trait
+ */
+export interface ScoringWeights {
+  /** Exported from its module */
+  exported: number;
+  /** In a file the entry points never load */
+  unreachable: number;
+  /** From bundler output or generated code */
+  flaggedFile: number;
+  /** Doc comment longer than `jsdocMinLength` */
+  jsdoc: number;
+  /** Has `@example` blocks */
+  examples: number;
+  deprecated: number;
+  /** Name not prefixed with `_` */
+  publicName: number;
+  /** Implementation length within `size` */
+  reasonableSize: number;
+  /** Uses async/await */
+  async: number;
+  /** Uses try/catch/throw */
+  errorHandling: number;
+  /** Implementation mentions one of `keywords` */
+  keywords: number;
+}
+
+/**
+ * A named set of weights used to compute `relevance_score` at ingest
+ */
+export interface ScoringProfile {
+  name: string;
+  description?: string;
+  weights: ScoringWeights;
+  jsdocMinLength: number;
+  size: { min: number; max: number };
+  keywords: string[];
+}
+
+/**
+ * The traits a score is computed from; symbols read back from the index
+ * carry the same fields
+ */
+export type ScoredSymbol = Pick<
+  ParsedSymbol,
+  "name" | "implementation" | "isExported" | "reachability" | "fileClassification" | "jsdoc"
+> & { docs?: Pick<NonNullable<ParsedSymbol["docs"]>, "examples" | "deprecated"> };
+
+/** Tuned for SDKs and API clients, which most of the MVP corpus is */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  name: "default",
+  description: "SDKs and API clients",
+  weights: {
+    exported: 10,
+    unreachable: -5,
+    flaggedFile: -6,
+    jsdoc: 5,
+    examples: 3,
+    deprecated: -3,
+    publicName: 3,
+    reasonableSize: 2,
+    async: 2,
+    errorHandling: 1,
+    keywords: 2,
+  },
+  jsdocMinLength: 20,
+  size: { min: 100, max: 2000 },
+  keywords: ["fetch", "request", "http", "api", "execute", "call"],
+};
+
+/** Profiles file read when SCORING_PROFILES_FILE isn't set */
+export const DEFAULT_PROFILES_FILE = "scoring-profiles.json";
+
+type ProfileOverrides = Partial<Omit<ScoringProfile, "name" | "weights">> & {
+  /** Profile this one starts from (default: "default") */
+  extends?: string;
+  weights?: Partial<ScoringWeights>;
+};
+
+function resolveProfile(
+  name: string,
+  overrides: Record<string, ProfileOverrides>,
+  resolved: Map<string, ScoringProfile>,
+  resolving: string[] = [],
+): ScoringProfile {
+  const cached = resolved.get(name);
+  if (cached) return cached;
+  if (resolving.includes(name)) {
+    throw new Error(`Scoring profile "${name}" extends itself (${[...resolving, name].join(" → ")})`);
+  }
+
+  const override = overrides[name];
+  if (!override) {
+    if (name === DEFAULT_SCORING_PROFILE.name) return DEFAULT_SCORING_PROFILE;
+    throw new Error(`Unknown scoring profile "${name}"`);
+  }
+
+  for (const weight of Object.keys(override.weights ?? {})) {
+    if (!(weight in DEFAULT_SCORING_PROFILE.weights)) {
+      throw new Error(`Unknown weight "${weight}" in scoring profile "${name}"`);
+    }
+  }
+
+  // "default" may itself be overridden; it then starts from the built-in weights
+  const base =
+    name === DEFAULT_SCORING_PROFILE.name && !override.extends
+      ? DEFAULT_SCORING_PROFILE
+      : resolveProfile(override.extends ?? DEFAULT_SCORING_PROFILE.name, overrides, resolved, [
+          ...resolving,
+          name,
+        ]);
+
+  const profile: ScoringProfile = {
+    name,
+    description: override.description ?? base.description,
+    weights: { ...base.weights, ...override.weights },
+    jsdocMinLength: override.jsdocMinLength ?? base.jsdocMinLength,
+    size: { ...base.size, ...override.size },
+    keywords: override.keywords ?? base.keywords,
+  };
+  resolved.set(name, profile);
+  return profile;
+}
+
+/**
+ * Read the scoring profiles file (SCORING_PROFILES_FILE, default
+ * scoring-profiles.json). Each profile overrides the weights of the one it
+ * extends; the built-in default is always available.
+ */
+export function loadScoringProfiles(
+  filePath: string = process.env.SCORING_PROFILES_FILE || DEFAULT_PROFILES_FILE,
+): Map<string, ScoringProfile> {
+  const fullPath = path.resolve(filePath);
+  const profiles = new Map([[DEFAULT_SCORING_PROFILE.name, DEFAULT_SCORING_PROFILE]]);
+  if (!fs.existsSync(fullPath)) return profiles;
+
+  let overrides: Record<string, ProfileOverrides>;
+  try {
+    overrides = JSON.parse(fs.readFileSync(fullPath, "utf8")).profiles ?? {};
+  } catch (error: any) {
+    throw new Error(`Invalid scoring profiles file ${filePath}: ${error.message}`);
+  }
+
+  const resolved = new Map<string, ScoringProfile>();
+  for (const name of Object.keys(overrides)) {
+    profiles.set(name, resolveProfile(name, overrides, resolved));
+  }
+  return profiles;
+}
+
+/**
+ * The profile to score with: `name`, else SCORING_PROFILE, else "default"
+ */
+export function getScoringProfile(
+  name: string = process.env.SCORING_PROFILE || DEFAULT_SCORING_PROFILE.name,
+  profiles: Map<string, ScoringProfile> = loadScoringProfiles(),
+): ScoringProfile {
+  const profile = profiles.get(name);
+  if (!profile) {
+    throw new Error(
+      `Unknown scoring profile "${name}" (available: ${[...profiles.keys()].join(", ")})`,
+    );
+  }
+  return profile;
+}
+
+/**
+ * Calculate relevance score for a symbol
+ * Higher score = more important for search results
+ */
+export function calculateRelevanceScore(
+  symbol: ScoredSymbol,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): number {
+  const { weights } = profile;
+  const implementation = symbol.implementation;
+  let score = 0;
+
+  // Exported symbols are most relevant
+  if (symbol.isExported) score += weights.exported;
+
+  // Code the entry files never load is likely tooling, examples or dead code
+  if (symbol.reachability === "unreachable") score += weights.unreachable;
+
+  // Bundler output and generated clients read poorly as examples
+  if (symbol.fileClassification) score += weights.flaggedFile;
+
+  if (symbol.jsdoc && symbol.jsdoc.length > profile.jsdocMinLength) score += weights.jsdoc;
+
+  // Documented usage is the best grounding; deprecated APIs shouldn't be suggested
+  if (symbol.docs?.examples?.length) score += weights.examples;
+  if (symbol.docs?.deprecated) score += weights.deprecated;
+
+  if (!symbol.name.startsWith("_")) score += weights.publicName;
+
+  if (implementation.length > profile.size.min && implementation.length < profile.size.max) {
+    score += weights.reasonableSize;
+  }
+
+  if (implementation.includes("async") || implementation.includes("await")) {
+    score += weights.async;
+  }
+
+  if (
+    implementation.includes("try") ||
+    implementation.includes("catch") ||
+    implementation.includes("throw")
+  ) {
+    score += weights.errorHandling;
+  }
+
+  const lowered = implementation.toLowerCase();
+  if (profile.keywords.some((keyword) => lowered.includes(keyword.toLowerCase()))) {
+    score += weights.keywords;
+  }
+
+  // relevance_score is mapped as an integer
+  return Math.round(score);
+}
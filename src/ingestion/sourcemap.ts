@@ -0,0 +1,77 @@
+import * as path from "path";
+import type { SourceFile } from "./source-fetcher.js";
+
+export interface RawSourceMap {
+  version?: number;
+  sourceRoot?: string;
+  sources?: string[];
+  sourcesContent?: Array<string | null>;
+}
+
+const TYPESCRIPT_SOURCE = /\.(ts|tsx|mts|cts)$/;
+const DECLARATION_FILE = /\.d\.[cm]?ts$/;
+
+/**
+ * Normalize a `sources` entry to a path inside the package.
+ * Bundlers prefix sources with schemes like "webpack://pkg/" and often point
+ * outside the published folder ("../../src/x.ts"), so we drop both.
+ */
+export function resolveSourcePath(
+  mapPath: string,
+  sourceRoot: string | undefined,
+  source: string,
+): string | null {
+  // webpack:// sources are relative to the project root, not to the map
+  const isProjectRelative = /^webpack:\/\//.test(source);
+  const withoutScheme = source
+    .replace(/^webpack:\/\/[^/]*\//, "")
+    .replace(/^[a-z][\w+.-]*:\/\//i, "");
+
+  const joined =
+    isProjectRelative || withoutScheme.startsWith("/")
+      ? withoutScheme.replace(/^\/+/, "")
+      : path.posix.join(path.posix.dirname(mapPath), sourceRoot || "", withoutScheme);
+
+  const normalized = path.posix.normalize(joined).replace(/^(\.\.\/)+/, "").replace(/^\.\//, "");
+  if (!normalized || normalized.includes("node_modules/")) return null;
+  return normalized;
+}
+
+/**
+ * Rebuild the original TypeScript files embedded in source maps via
+ * `sourcesContent`. Later maps never overwrite a file already recovered.
+ */
+export function recoverSourcesFromMaps(
+  mapFiles: Array<{ path: string; content: string }>,
+): SourceFile[] {
+  const recovered = new Map<string, SourceFile>();
+
+  for (const mapFile of mapFiles) {
+    let map: RawSourceMap;
+    try {
+      map = JSON.parse(mapFile.content);
+    } catch {
+      continue;
+    }
+
+    const sources = map.sources ?? [];
+    const contents = map.sourcesContent ?? [];
+
+    sources.forEach((source, index) => {
+      const content = contents[index];
+      if (typeof content !== "string" || !content) return;
+
+      const sourcePath = resolveSourcePath(mapFile.path, map.sourceRoot, source);
+      if (!sourcePath || !TYPESCRIPT_SOURCE.test(sourcePath)) return;
+      if (DECLARATION_FILE.test(sourcePath) || recovered.has(sourcePath)) return;
+
+      recovered.set(sourcePath, {
+        path: sourcePath,
+        content,
+        size: Buffer.byteLength(content),
+      });
+    });
+  }
+
+  return [...recovered.values()];
+}
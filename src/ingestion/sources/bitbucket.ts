@@ -0,0 +1,98 @@
+import type { SourceStrategy } from "../source-fetcher.js";
+import {
+  fetchFromRepository,
+  parseHostedRepository,
+  requestHostApi,
+  type RepositoryFile,
+  type RepositoryHost,
+} from "./repository.js";
+
+const BITBUCKET_API = "https://api.bitbucket.org/2.0/repositories";
+// Source listing is paginated 100 entries at a time
+const MAX_TREE_PAGES = 100;
+const MAX_TREE_DEPTH = 20;
+
+/**
+ * Extract Bitbucket Cloud workspace/repo from a repository URL
+ */
+export function parseBitbucketRepo(
+  repoUrl: string,
+): { workspace: string; repo: string } | null {
+  const parsed = parseHostedRepository(repoUrl, "bitbucket", "bitbucket.org");
+  if (!parsed || parsed.host !== "bitbucket.org") return null;
+
+  const [workspace, repo] = parsed.path.split("/");
+  return workspace && repo ? { workspace, repo } : null;
+}
+
+/**
+ * Repository access through the Bitbucket Cloud REST API (2.0)
+ */
+export function createBitbucketHost(workspace: string, repo: string, signal?: AbortSignal): RepositoryHost {
+  const apiBase = `${BITBUCKET_API}/${workspace}/${repo}`;
+  const headers: Record<string, string> = process.env.BITBUCKET_TOKEN
+    ? { Authorization: `Bearer ${process.env.BITBUCKET_TOKEN}` }
+    : {};
+  const getJson = async (url: string): Promise<any> => {
+    const res = await requestHostApi(url, headers, signal);
+    return res ? res.json() : null;
+  };
+
+  return {
+    label: `Bitbucket ${workspace}/${repo}`,
+    browseUrl: (sha) => `https://bitbucket.org/${workspace}/${repo}/src/${sha}`,
+    resolveCommit: async (sha) => {
+      const commit = await getJson(`${apiBase}/commit/${encodeURIComponent(sha)}`);
+      return commit?.hash ?? null;
+    },
+    resolveTag: async (tag) => {
+      const tagData = await getJson(`${apiBase}/refs/tags/${encodeURIComponent(tag)}`);
+      return tagData?.target?.hash ?? null;
+    },
+    defaultBranch: async () => {
+      const repoData = await getJson(apiBase);
+      const name = repoData?.mainbranch?.name;
+      if (!name) {
+        throw new Error(`No main branch for ${workspace}/${repo}`);
+      }
+      const branch = await getJson(`${apiBase}/refs/branches/${encodeURIComponent(name)}`);
+      return { name, commitSha: branch.target.hash };
+    },
+    listFiles: async (commitSha) => {
+      const files: RepositoryFile[] = [];
+      let next: string | undefined =
+        `${apiBase}/src/${commitSha}/?max_depth=${MAX_TREE_DEPTH}&pagelen=100`;
+      for (let count = 0; next && count < MAX_TREE_PAGES; count++) {
+        const page = await getJson(next);
+        if (!page) break;
+        (page.values as Array<{ type: string; path: string; size?: number }>)
+          .filter((entry) => entry.type === "commit_file")
+          .forEach((entry) => files.push({ path: entry.path, size: entry.size }));
+        next = page.next;
+      }
+      // Pages left after MAX_TREE_PAGES were never listed
+      return { files, unlisted: next ? [""] : [] };
+    },
+    readFile: async (commitSha, file) => {
+      const encodedPath = file.path.split("/").map(encodeURIComponent).join("/");
+      const res = await requestHostApi(`${apiBase}/src/${commitSha}/${encodedPath}`, headers, signal);
+      return res ? res.text() : null;
+    },
+  };
+}
+
+export const bitbucketStrategy: SourceStrategy = {
+  name: "bitbucket",
+  fetch: async ({ repository, target, options }) => {
+    const repoInfo = repository ? parseBitbucketRepo(repository.url) : null;
+    if (!repoInfo) return null;
+
+    console.log(`     📂 Fetching from Bitbucket: ${repoInfo.workspace}/${repoInfo.repo}`);
+    return fetchFromRepository(
+      createBitbucketHost(repoInfo.workspace, repoInfo.repo, options.signal),
+      "bitbucket",
+      target,
+      options,
+    );
+  },
+};
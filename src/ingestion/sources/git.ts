@@ -0,0 +1,184 @@
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { promisify } from "util";
+import type { SourceStrategy, SourceStrategyName } from "../source-fetcher.js";
+import { parseBitbucketRepo } from "./bitbucket.js";
+import { parseGitHubRepo } from "./github.js";
+import { parseGitLabRepo } from "./gitlab.js";
+import { fetchFromRepository, type RepositoryFile, type RepositoryHost } from "./repository.js";
+
+const execFileAsync = promisify(execFile);
+
+const GIT_CLONE_TIMEOUT_MS = Number(process.env.GIT_CLONE_TIMEOUT_MS || 120000);
+/** Limit for every other git command (rev-parse, ls-tree, cat-file) */
+const GIT_COMMAND_TIMEOUT_MS = Number(process.env.GIT_COMMAND_TIMEOUT_MS || 30000);
+/**
+ * `file://` remotes read the indexing host's own disk. The repository field
+ * comes from untrusted package.json files, so they need GIT_ALLOW_LOCAL_REMOTES=true.
+ */
+const GIT_ALLOW_LOCAL_REMOTES = process.env.GIT_ALLOW_LOCAL_REMOTES === "true";
+// ls-tree of a large monorepo easily exceeds the default 1MB
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+const SHORTHAND_HOSTS: Record<string, string> = {
+  github: "https://github.com",
+  gitlab: "https://gitlab.com",
+  bitbucket: "https://bitbucket.org",
+};
+
+/**
+ * Turn a package.json repository URL into something `git clone` accepts, or null
+ * when it isn't a network git remote. Local `file://` remotes are only accepted
+ * with `allowLocal` (GIT_ALLOW_LOCAL_REMOTES).
+ */
+export function toCloneUrl(repoUrl: string, allowLocal: boolean = GIT_ALLOW_LOCAL_REMOTES): string | null {
+  if (!repoUrl) return null;
+  const url = repoUrl.trim().replace(/^git\+/, "");
+
+  const shorthand = url.match(/^(github|gitlab|bitbucket):(.+)$/);
+  if (shorthand) return `${SHORTHAND_HOSTS[shorthand[1]]}/${shorthand[2]}.git`;
+
+  // npm treats a bare "user/repo" as GitHub
+  if (/^[\w.-]+\/[\w.-]+$/.test(url)) return `${SHORTHAND_HOSTS.github}/${url}.git`;
+
+  if (/^file:\/\//i.test(url)) return allowLocal ? url : null;
+  if (/^(https?|ssh|git):\/\//i.test(url) || /^[\w.-]+@[\w.-]+:/.test(url)) return url;
+  return null;
+}
+
+/**
+ * Environment for git: no credential prompts, and only the transports
+ * toCloneUrl accepts, so redirects can't reach local or helper protocols
+ */
+function gitEnv(): NodeJS.ProcessEnv {
+  return {
+    ...process.env,
+    GIT_TERMINAL_PROMPT: "0",
+    GIT_ALLOW_PROTOCOL: GIT_ALLOW_LOCAL_REMOTES ? "https:http:ssh:git:file" : "https:http:ssh:git",
+  };
+}
+
+/**
+ * Which hosted provider handles a URL through its API, if any
+ */
+function hostedProvider(repoUrl: string): SourceStrategyName | null {
+  if (parseGitHubRepo(repoUrl)) return "github";
+  if (parseGitLabRepo(repoUrl)) return "gitlab";
+  if (parseBitbucketRepo(repoUrl)) return "bitbucket";
+  return null;
+}
+
+async function git(gitDir: string, args: string[], signal?: AbortSignal): Promise<string> {
+  const { stdout } = await execFileAsync("git", [`--git-dir=${gitDir}`, ...args], {
+    maxBuffer: GIT_MAX_BUFFER,
+    timeout: GIT_COMMAND_TIMEOUT_MS,
+    env: gitEnv(),
+    signal,
+  });
+  return stdout;
+}
+
+/**
+ * Bare-clone a remote into a temp directory
+ */
+async function cloneBare(cloneUrl: string, signal?: AbortSignal): Promise<string> {
+  const gitDir = fs.mkdtempSync(path.join(os.tmpdir(), "npm-intel-git-"));
+  try {
+    await execFileAsync("git", ["clone", "--bare", "--quiet", cloneUrl, gitDir], {
+      timeout: GIT_CLONE_TIMEOUT_MS,
+      env: gitEnv(),
+      signal,
+    });
+    return gitDir;
+  } catch (error) {
+    fs.rmSync(gitDir, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+/**
+ * Repository access through the git CLI on a local bare clone
+ */
+export function createGitHost(gitDir: string, label: string, signal?: AbortSignal): RepositoryHost {
+  const revParse = async (rev: string) => {
+    try {
+      return (await git(gitDir, ["rev-parse", "--verify", "--quiet", rev], signal)).trim() || null;
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    label,
+    // Plain git remotes have no known web UI to link to
+    browseUrl: () => undefined,
+    resolveCommit: (sha) => revParse(`${sha}^{commit}`),
+    resolveTag: (tag) => revParse(`refs/tags/${tag}^{commit}`),
+    defaultBranch: async () => {
+      // A bare clone's HEAD follows the remote's default branch
+      const name = (await git(gitDir, ["symbolic-ref", "--short", "HEAD"], signal)).trim();
+      const commitSha = await revParse("HEAD^{commit}");
+      if (!commitSha) throw new Error(`Empty repository: ${label}`);
+      return { name, commitSha };
+    },
+    listFiles: async (commitSha) => {
+      // "<mode> blob <id> <size>\t<path>", NUL separated
+      const output = await git(gitDir, ["ls-tree", "-r", "-l", "-z", commitSha], signal);
+      const files: RepositoryFile[] = [];
+      for (const line of output.split("\0")) {
+        const match = line.match(/^\d+ blob ([0-9a-f]+)\s+(\d+)\t(.+)$/);
+        if (match) files.push({ path: match[3], size: Number(match[2]), id: match[1] });
+      }
+      return { files, unlisted: [] };
+    },
+    readFile: async (_commitSha, file) => {
+      try {
+        return await git(gitDir, ["cat-file", "blob", file.id!], signal);
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+/**
+ * Clone any git remote and read the package sources from it. Hosts with a
+ * dedicated API provider earlier in the ordering are left to that provider.
+ */
+export const gitStrategy: SourceStrategy = {
+  name: "git",
+  fetch: async ({ repository, target, options, strategies }) => {
+    const cloneUrl = repository ? toCloneUrl(repository.url) : null;
+    if (!cloneUrl) return null;
+
+    const provider = hostedProvider(repository!.url);
+    const providerIndex = provider ? strategies.indexOf(provider) : -1;
+    if (providerIndex !== -1 && providerIndex < strategies.indexOf("git")) return null;
+
+    console.log(`     📂 Cloning git repository: ${cloneUrl}`);
+
+    let gitDir: string | undefined;
+    try {
+      gitDir = await cloneBare(cloneUrl, options.signal);
+      return await fetchFromRepository(
+        createGitHost(gitDir, `git ${cloneUrl}`, options.signal),
+        "git",
+        target,
+        options,
+      );
+    } catch (error: any) {
+      console.log(`     ⚠️  git clone failed: ${error.message}`);
+      return null;
+    } finally {
+      if (gitDir) {
+        try {
+          fs.rmSync(gitDir, { recursive: true, force: true });
+        } catch (cleanupError) {
+          // Ignore cleanup errors
+        }
+      }
+    }
+  },
+};
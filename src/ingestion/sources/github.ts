@@ -0,0 +1,140 @@
+import { Octokit } from "@octokit/rest";
+import type { SourceStrategy } from "../source-fetcher.js";
+import { fetchFromRepository, type RepositoryFile, type RepositoryHost } from "./repository.js";
+
+/** Tree API calls one listing may make when truncated trees are split up */
+const MAX_TREE_REQUESTS = 50;
+
+/**
+ * Extract GitHub repo info from package.json repository field
+ */
+export function parseGitHubRepo(
+  repoUrl: string,
+): { owner: string; repo: string } | null {
+  if (!repoUrl) return null;
+
+  // Handle various formats:
+  // - "github:user/repo"
+  // - "git+https://github.com/user/repo.git"
+  // - "https://github.com/user/repo"
+  // - { type: "git", url: "..." }
+
+  const match =
+    repoUrl.match(/github\.com[/:]([\w.-]+)\/([\w.-]+)/i) ||
+    repoUrl.match(/^github:([\w.-]+)\/([\w.-]+)/i);
+
+  if (match) {
+    return { owner: match[1], repo: match[2].replace(/\.git$/, "") };
+  }
+
+  return null;
+}
+
+/**
+ * Repository access through the GitHub REST API
+ */
+export function createGitHubHost(owner: string, repo: string, signal?: AbortSignal): RepositoryHost {
+  const octokit = new Octokit({
+    auth: process.env.GITHUB_TOKEN, // Optional - higher rate limits if provided
+    request: { signal },
+  });
+
+  return {
+    label: `GitHub ${owner}/${repo}`,
+    browseUrl: (sha) => `https://github.com/${owner}/${repo}/blob/${sha}`,
+    resolveCommit: async (sha) => {
+      const { data: commit } = await octokit.repos.getCommit({ owner, repo, ref: sha });
+      return commit.sha;
+    },
+    resolveTag: async (tag) => {
+      const { data: tagRef } = await octokit.git.getRef({ owner, repo, ref: `tags/${tag}` });
+
+      // Annotated tags point at a tag object rather than the commit
+      if (tagRef.object.type === "tag") {
+        const { data: tagObject } = await octokit.git.getTag({
+          owner,
+          repo,
+          tag_sha: tagRef.object.sha,
+        });
+        return tagObject.object.sha;
+      }
+      return tagRef.object.sha;
+    },
+    defaultBranch: async () => {
+      // Try main branch, fallback to master
+      let branch;
+      try {
+        const { data } = await octokit.repos.getBranch({ owner, repo, branch: "main" });
+        branch = data;
+      } catch {
+        const { data } = await octokit.repos.getBranch({ owner, repo, branch: "master" });
+        branch = data;
+      }
+      return { name: branch.name, commitSha: branch.commit.sha };
+    },
+    listFiles: async (commitSha) => {
+      const files: RepositoryFile[] = [];
+      const unlisted: string[] = [];
+      let requests = 0;
+
+      // The recursive tree API truncates large trees (100,000 entries / 7MB);
+      // a truncated tree is listed again one level at a time, recursing per subtree
+      const walk = async (treeSha: string, prefix: string): Promise<void> => {
+        if (requests >= MAX_TREE_REQUESTS) {
+          unlisted.push(prefix.replace(/\/$/, ""));
+          return;
+        }
+        requests++;
+        const { data: treeData } = await octokit.git.getTree({
+          owner,
+          repo,
+          tree_sha: treeSha,
+          recursive: "true",
+        });
+        if (!treeData.truncated) {
+          for (const item of treeData.tree || []) {
+            if (item.type === "blob" && item.path && item.sha) {
+              files.push({ path: `${prefix}${item.path}`, size: item.size, id: item.sha });
+            }
+          }
+          return;
+        }
+
+        requests++;
+        const { data: level } = await octokit.git.getTree({ owner, repo, tree_sha: treeSha });
+        if (level.truncated) unlisted.push(prefix.replace(/\/$/, ""));
+        for (const item of level.tree || []) {
+          if (!item.path || !item.sha) continue;
+          if (item.type === "blob") {
+            files.push({ path: `${prefix}${item.path}`, size: item.size, id: item.sha });
+          } else if (item.type === "tree") {
+            await walk(item.sha, `${prefix}${item.path}/`);
+          }
+        }
+      };
+
+      await walk(commitSha, "");
+      return { files, unlisted };
+    },
+    readFile: async (_commitSha, file) => {
+      const { data: blob } = await octokit.git.getBlob({ owner, repo, file_sha: file.id! });
+      return Buffer.from(blob.content, "base64").toString("utf-8");
+    },
+  };
+}
+
+export const githubStrategy: SourceStrategy = {
+  name: "github",
+  fetch: async ({ repository, target, options }) => {
+    const repoInfo = repository ? parseGitHubRepo(repository.url) : null;
+    if (!repoInfo) return null;
+
+    console.log(`     📂 Fetching from GitHub: ${repoInfo.owner}/${repoInfo.repo}`);
+    return fetchFromRepository(
+      createGitHubHost(repoInfo.owner, repoInfo.repo, options.signal),
+      "github",
+      target,
+      options,
+    );
+  },
+};
@@ -0,0 +1,100 @@
+import type { SourceStrategy } from "../source-fetcher.js";
+import {
+  fetchFromRepository,
+  parseHostedRepository,
+  requestHostApi,
+  type RepositoryFile,
+  type RepositoryHost,
+} from "./repository.js";
+
+// Tree listing is paginated 100 entries at a time
+const MAX_TREE_PAGES = 100;
+
+/**
+ * Extract GitLab host and project path (nested groups allowed) from a repository URL
+ */
+export function parseGitLabRepo(repoUrl: string): { host: string; project: string } | null {
+  const parsed = parseHostedRepository(repoUrl, "gitlab", "gitlab.com");
+  if (!parsed || !parsed.host.includes("gitlab")) return null;
+
+  // Drop web UI suffixes like "/-/tree/main"
+  const project = parsed.path.replace(/\/-\/.*$/, "");
+  return project.includes("/") ? { host: parsed.host, project } : null;
+}
+
+/**
+ * Repository access through the GitLab REST API (v4)
+ */
+export function createGitLabHost(host: string, project: string, signal?: AbortSignal): RepositoryHost {
+  const apiBase = `https://${host}/api/v4/projects/${encodeURIComponent(project)}`;
+  const headers: Record<string, string> = process.env.GITLAB_TOKEN
+    ? { "PRIVATE-TOKEN": process.env.GITLAB_TOKEN }
+    : {};
+  const getJson = async (endpoint: string): Promise<any> => {
+    const res = await requestHostApi(`${apiBase}${endpoint}`, headers, signal);
+    return res ? res.json() : null;
+  };
+
+  return {
+    label: `GitLab ${project}`,
+    browseUrl: (sha) => `https://${host}/${project}/-/blob/${sha}`,
+    resolveCommit: async (sha) => {
+      const commit = await getJson(`/repository/commits/${encodeURIComponent(sha)}`);
+      return commit?.id ?? null;
+    },
+    resolveTag: async (tag) => {
+      const tagData = await getJson(`/repository/tags/${encodeURIComponent(tag)}`);
+      return tagData?.commit?.id ?? null;
+    },
+    defaultBranch: async () => {
+      const projectData = await getJson("");
+      if (!projectData?.default_branch) {
+        throw new Error(`No default branch for ${project}`);
+      }
+      const branch = await getJson(
+        `/repository/branches/${encodeURIComponent(projectData.default_branch)}`,
+      );
+      return { name: projectData.default_branch, commitSha: branch.commit.id };
+    },
+    listFiles: async (commitSha) => {
+      const files: RepositoryFile[] = [];
+      let page = "1";
+      for (let count = 0; page && count < MAX_TREE_PAGES; count++) {
+        const res = await requestHostApi(
+          `${apiBase}/repository/tree?ref=${commitSha}&recursive=true&per_page=100&page=${page}`,
+          headers,
+          signal,
+        );
+        if (!res) break;
+        const entries = (await res.json()) as Array<{ id: string; path: string; type: string }>;
+        entries
+          .filter((entry) => entry.type === "blob")
+          // The tree API doesn't report sizes; the selector measures after loading
+          .forEach((entry) => files.push({ path: entry.path, id: entry.id }));
+        page = res.headers.get("x-next-page") || "";
+      }
+      // Pages left after MAX_TREE_PAGES were never listed
+      return { files, unlisted: page ? [""] : [] };
+    },
+    readFile: async (_commitSha, file) => {
+      const res = await requestHostApi(`${apiBase}/repository/blobs/${file.id}/raw`, headers, signal);
+      return res ? res.text() : null;
+    },
+  };
+}
+
+export const gitlabStrategy: SourceStrategy = {
+  name: "gitlab",
+  fetch: async ({ repository, target, options }) => {
+    const repoInfo = repository ? parseGitLabRepo(repository.url) : null;
+    if (!repoInfo) return null;
+
+    console.log(`     📂 Fetching from GitLab: ${repoInfo.project}`);
+    return fetchFromRepository(
+      createGitLabHost(repoInfo.host, repoInfo.project, options.signal),
+      "gitlab",
+      target,
+      options,
+    );
+  },
+};
@@ -0,0 +1,306 @@
+import * as path from "path";
+import {
+  isSourceCandidate,
+  selectSourceFiles,
+  summarizeSkipped,
+  type SkippedFile,
+} from "../file-selector.js";
+import type {
+  SourceCodeResult,
+  SourceFetchOptions,
+  SourceProvenance,
+  SourceStrategyName,
+  SourceTarget,
+} from "../source-fetcher.js";
+
+/**
+ * A file in a repository tree at a given commit
+ */
+export interface RepositoryFile {
+  /** Path from the repository root */
+  path: string;
+  /** Size in bytes, undefined when the host doesn't report it */
+  size?: number;
+  /** Host-specific blob id used to read the file */
+  id?: string;
+}
+
+/**
+ * Files of a repository at a commit
+ */
+export interface RepositoryTree {
+  files: RepositoryFile[];
+  /** Directories the host couldn't list completely ("" for the root) */
+  unlisted: string[];
+}
+
+/**
+ * Read access to a hosted repository. Each provider (GitHub, GitLab, plain git, ...)
+ * implements this; ref resolution, workspace scoping and file selection are shared.
+ */
+export interface RepositoryHost {
+  /** Human-readable name for logs ("GitHub vercel/ai") */
+  label: string;
+  /** Base URL for permalinks to files at a commit, when the host has a web UI */
+  browseUrl(commitSha: string): string | undefined;
+  /** Full sha of a commit, or null when it doesn't exist */
+  resolveCommit(sha: string): Promise<string | null>;
+  /** Commit a tag points at, or null when the tag doesn't exist */
+  resolveTag(tag: string): Promise<string | null>;
+  defaultBranch(): Promise<{ name: string; commitSha: string }>;
+  listFiles(commitSha: string): Promise<RepositoryTree>;
+  /** Read one file; null when it can't be fetched */
+  readFile(commitSha: string, file: RepositoryFile): Promise<string | null>;
+}
+
+// How many workspace package.json files we read while looking for the package
+const MAX_WORKSPACE_MANIFESTS = 40;
+
+function normalizeDirectory(directory?: string): string {
+  return (directory || "").replace(/^\.?\//, "").replace(/\/+$/, "");
+}
+
+/**
+ * Strip the "git+" prefix and trailing ".git" npm allows in repository URLs
+ */
+export function normalizeRepositoryUrl(repoUrl: string): string {
+  return repoUrl.trim().replace(/^git\+/, "").replace(/\.git$/, "").replace(/\/+$/, "");
+}
+
+/**
+ * Split a repository URL into host and project path. Accepts the npm shorthand
+ * ("gitlab:group/repo"), http(s)/ssh/git URLs and scp-style "git@host:group/repo".
+ */
+export function parseHostedRepository(
+  repoUrl: string,
+  shorthand: string,
+  defaultHost: string,
+): { host: string; path: string } | null {
+  if (!repoUrl) return null;
+  const url = normalizeRepositoryUrl(repoUrl);
+
+  if (url.startsWith(`${shorthand}:`)) {
+    return { host: defaultHost, path: url.slice(shorthand.length + 1) };
+  }
+
+  const match =
+    url.match(/^(?:https?|ssh|git):\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\/(.+)$/i) ||
+    url.match(/^[\w.-]+@([^:/]+):(.+)$/);
+  if (!match) return null;
+
+  return { host: match[1].toLowerCase(), path: match[2].replace(/^\/+/, "") };
+}
+
+/**
+ * GET a host API URL; null on 404 so missing refs read as "not found"
+ */
+export async function requestHostApi(
+  url: string,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal,
+): Promise<Response | null> {
+  const res = await fetch(url, { headers, signal });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    throw new Error(`${new URL(url).host} responded ${res.status}`);
+  }
+  return res;
+}
+
+/**
+ * Tags projects commonly use for a release
+ */
+export function candidateReleaseTags(target: SourceTarget): string[] {
+  const { packageName, version } = target;
+  const unscoped = packageName.replace(/^@[^/]+\//, "");
+  return [
+    ...new Set([
+      `v${version}`,
+      version,
+      `${packageName}@${version}`,
+      `${unscoped}@${version}`,
+      `${unscoped}-v${version}`,
+    ]),
+  ];
+}
+
+/**
+ * Resolve the commit a published version was built from: the registry's
+ * gitHead first, then release tags, and only then the default branch.
+ */
+async function resolveSourceRef(
+  host: RepositoryHost,
+  target?: SourceTarget,
+): Promise<SourceProvenance> {
+  const provenance = (
+    ref: string,
+    commitSha: string,
+    resolvedFrom: SourceProvenance["resolvedFrom"],
+  ): SourceProvenance => ({ ref, commitSha, resolvedFrom, browseUrl: host.browseUrl(commitSha) });
+
+  if (target?.gitHead) {
+    const commitSha = await host.resolveCommit(target.gitHead).catch(() => null);
+    if (commitSha) return provenance(target.gitHead, commitSha, "gitHead");
+    console.log(`     ⚠️  gitHead ${target.gitHead.slice(0, 7)} not found in ${host.label}`);
+  }
+
+  if (target) {
+    for (const tag of candidateReleaseTags(target)) {
+      const commitSha = await host.resolveTag(tag).catch(() => null);
+      if (commitSha) return provenance(tag, commitSha, "tag");
+    }
+
+    console.log(
+      `     ⚠️  No release tag found for ${target.packageName}@${target.version}, using default branch`,
+    );
+  }
+
+  const branch = await host.defaultBranch();
+  return provenance(branch.name, branch.commitSha, "branch");
+}
+
+/**
+ * Find the folder of a package inside a (possibly monorepo) tree: trust
+ * `repository.directory` when it exists, otherwise read workspace manifests
+ * until one declares the package name.
+ */
+async function resolvePackageDirectory(
+  host: RepositoryHost,
+  commitSha: string,
+  tree: RepositoryFile[],
+  target?: SourceTarget,
+): Promise<string> {
+  const manifests = tree.filter(
+    (file) => /(^|\/)package\.json$/.test(file.path) && !file.path.includes("node_modules/"),
+  );
+  const manifestDir = (file: RepositoryFile) => path.posix.dirname(file.path).replace(/^\.$/, "");
+
+  const declared = normalizeDirectory(target?.directory);
+  if (declared && manifests.some((file) => manifestDir(file) === declared)) {
+    return declared;
+  }
+  if (declared) {
+    console.log(`     ⚠️  repository.directory "${declared}" not found in tree`);
+  }
+
+  // Single-package repo
+  if (!target || manifests.length <= 1) return "";
+
+  const unscoped = target.packageName.replace(/^@[^/]+\//, "").toLowerCase();
+  const rank = (file: RepositoryFile) => {
+    const dir = manifestDir(file).toLowerCase();
+    const segment = dir.split("/").pop() || "";
+    if (/(^|\/)(examples?|fixtures?|tests?|__tests__|templates?)(\/|$)/.test(dir)) return 4;
+    if (segment === unscoped) return 0;
+    if (segment.includes(unscoped) || unscoped.includes(segment)) return 1;
+    if (dir === "") return 2;
+    return 3;
+  };
+
+  const candidates = [...manifests]
+    .sort((a, b) => rank(a) - rank(b))
+    .slice(0, MAX_WORKSPACE_MANIFESTS);
+
+  for (const manifest of candidates) {
+    try {
+      const content = await host.readFile(commitSha, manifest);
+      if (content && JSON.parse(content)?.name === target.packageName) {
+        return manifestDir(manifest);
+      }
+    } catch {
+      // Unreadable or invalid manifest
+    }
+  }
+
+  console.log(`     ⚠️  No workspace package named ${target.packageName} found, using repo root`);
+  return "";
+}
+
+/**
+ * Fetch source code from a repository at the ref matching the published version
+ */
+export async function fetchFromRepository(
+  host: RepositoryHost,
+  strategy: SourceStrategyName,
+  target?: SourceTarget,
+  options: SourceFetchOptions = {},
+): Promise<SourceCodeResult | null> {
+  try {
+    const provenance = await resolveSourceRef(host, target);
+
+    console.log(
+      `     ✓ Resolved ${provenance.resolvedFrom} ${provenance.ref} → ${provenance.commitSha.slice(0, 7)}`,
+    );
+
+    const { files: tree, unlisted } = await host.listFiles(provenance.commitSha);
+
+    const directory = await resolvePackageDirectory(host, provenance.commitSha, tree, target);
+    if (directory) {
+      console.log(`     ✓ Scoped to workspace package: ${directory}/`);
+      provenance.directory = directory;
+      if (provenance.browseUrl) {
+        provenance.browseUrl = `${provenance.browseUrl}/${directory}`;
+      }
+    }
+
+    // Only files inside the package folder, with paths relative to it
+    const prefix = directory ? `${directory}/` : "";
+
+    // Listing gaps that overlap the package folder may hide its sources
+    const unlistedSkips: SkippedFile[] = unlisted
+      .filter((dir) => `${dir}/`.startsWith(prefix) || prefix.startsWith(dir ? `${dir}/` : ""))
+      .map((dir) => ({ path: dir || ".", reason: "unlisted" as const }));
+    if (unlistedSkips.length > 0) {
+      console.log(
+        `     ⚠️  ${host.label} tree listing is incomplete; files under ${unlistedSkips.map((skip) => skip.path).join(", ")} may be missing`,
+      );
+    }
+    const relevantFiles = new Map(
+      tree
+        .filter((file) => file.path.startsWith(prefix))
+        .map((file) => [file.path.slice(prefix.length), file] as const)
+        .filter(([relativePath]) => isSourceCandidate(relativePath)),
+    );
+
+    console.log(`     ✓ Found ${relevantFiles.size} source files`);
+
+    // Start at the entry files and follow imports until the byte budget runs out
+    const selection = await selectSourceFiles(
+      [...relevantFiles].map(([relativePath, file]) => ({ path: relativePath, size: file.size })),
+      {
+        pkgJson: options.pkgJson,
+        byteBudget: options.byteBudget,
+        load: async (filePath) => {
+          options.signal?.throwIfAborted();
+          const content = await host
+            .readFile(provenance.commitSha, relevantFiles.get(filePath)!)
+            .catch(() => null);
+          if (content === null) console.log(`     ⚠️  Failed to fetch ${filePath}`);
+          return content;
+        },
+      },
+    );
+
+    const { files, totalSize, entryFiles } = selection;
+    const skipped = [...unlistedSkips, ...selection.skipped];
+
+    console.log(
+      `     ✓ Downloaded ${files.length} files (${Math.round(totalSize / 1024)}KB) from ${entryFiles.length} entry files`,
+    );
+    if (skipped.length > 0) {
+      console.log(`     ✓ Skipped ${skipped.length} files (${summarizeSkipped(skipped)})`);
+    }
+
+    return {
+      files,
+      strategy,
+      totalSize,
+      provenance,
+      entryFiles,
+      skipped,
+    };
+  } catch (error: any) {
+    console.log(`     ⚠️  ${host.label} fetch failed: ${error.message}`);
+    return null;
+  }
+}
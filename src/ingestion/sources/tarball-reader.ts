@@ -0,0 +1,253 @@
+import { createHash } from "crypto";
+import { Parser, type ReadEntry } from "tar";
+
+/**
+ * Caps applied while reading an untrusted package tarball
+ */
+export interface TarballLimits {
+  /** Max bytes downloaded (gzip-compressed) */
+  maxCompressedSize: number;
+  /** Max bytes across all entries once decompressed */
+  maxUncompressedSize: number;
+  maxEntries: number;
+  /** Larger files are left out of the result (not an error) */
+  maxFileSize: number;
+}
+
+export const DEFAULT_TARBALL_LIMITS: TarballLimits = {
+  maxCompressedSize: Number(process.env.TARBALL_MAX_COMPRESSED_SIZE || 25 * 1024 * 1024),
+  maxUncompressedSize: Number(process.env.TARBALL_MAX_UNCOMPRESSED_SIZE || 100 * 1024 * 1024),
+  maxEntries: Number(process.env.TARBALL_MAX_ENTRIES || 10000),
+  maxFileSize: Number(process.env.TARBALL_MAX_FILE_SIZE || 5 * 1024 * 1024),
+};
+
+/**
+ * Base class for everything that makes a tarball unsafe or unusable
+ */
+export class TarballError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TarballError";
+  }
+}
+
+/**
+ * The tarball exceeded one of the configured limits
+ */
+export class TarballLimitError extends TarballError {
+  constructor(
+    readonly limit: "compressed-size" | "uncompressed-size" | "entry-count",
+    readonly actual: number,
+    readonly max: number,
+  ) {
+    super(`Tarball exceeds ${limit} limit (${actual} > ${max})`);
+    this.name = "TarballLimitError";
+  }
+}
+
+/**
+ * An entry that could write outside the package or isn't a plain file
+ */
+export class TarballEntryError extends TarballError {
+  constructor(
+    readonly entryPath: string,
+    readonly reason: "absolute-path" | "path-traversal" | "link" | "special-file",
+  ) {
+    super(`Rejected tarball entry ${entryPath} (${reason})`);
+    this.name = "TarballEntryError";
+  }
+}
+
+/**
+ * The downloaded bytes don't match the registry's dist.integrity / dist.shasum
+ */
+export class TarballIntegrityError extends TarballError {
+  constructor(
+    readonly expected: string,
+    readonly actual: string,
+  ) {
+    super(`Tarball integrity mismatch (expected ${expected}, got ${actual})`);
+    this.name = "TarballIntegrityError";
+  }
+}
+
+export interface TarballFile {
+  /** Path inside the package, without the "package/" root folder */
+  path: string;
+  content: string;
+  size: number;
+}
+
+export interface TarballContents {
+  files: TarballFile[];
+  /** Files matching the filter but over maxFileSize */
+  oversized: string[];
+  entryCount: number;
+  uncompressedSize: number;
+}
+
+export interface TarballReadOptions {
+  /** Which package paths to keep in memory; everything else is drained */
+  filter: (filePath: string) => boolean;
+  /** SRI string from dist.integrity ("sha512-...") */
+  integrity?: string;
+  /** Hex sha1 from dist.shasum, used when integrity is missing */
+  shasum?: string;
+  limits?: Partial<TarballLimits>;
+}
+
+const FILE_TYPES = new Set(["File", "OldFile", "ContiguousFile"]);
+const LINK_TYPES = new Set(["SymbolicLink", "Link"]);
+// Preferred first when dist.integrity lists several hashes
+const SRI_ALGORITHMS = ["sha512", "sha384", "sha256", "sha1"];
+
+/**
+ * Package-relative path of an entry, or the reason it is unsafe.
+ * npm tarballs nest everything under one root folder (usually "package/").
+ */
+function toPackagePath(
+  entryPath: string,
+): { path: string } | { reason: "absolute-path" | "path-traversal" } {
+  const normalized = entryPath.replace(/\\/g, "/");
+  if (normalized.startsWith("/") || /^[a-zA-Z]:/.test(normalized)) {
+    return { reason: "absolute-path" };
+  }
+
+  const segments = normalized.split("/").filter((segment) => segment && segment !== ".");
+  if (segments.includes("..")) return { reason: "path-traversal" };
+  return { path: segments.slice(1).join("/") };
+}
+
+/**
+ * Pick the strongest hash we can verify from an SRI string or sha1 shasum
+ */
+function expectedDigest(
+  integrity?: string,
+  shasum?: string,
+): { algorithm: string; digest: string; encoding: "base64" | "hex" } | null {
+  const hashes = (integrity || "")
+    .split(/\s+/)
+    .map((entry) => entry.match(/^(sha\d+)-([A-Za-z0-9+/=]+)/))
+    .filter((match): match is RegExpMatchArray => match !== null);
+
+  for (const algorithm of SRI_ALGORITHMS) {
+    const match = hashes.find((hash) => hash[1] === algorithm);
+    if (match) return { algorithm, digest: match[2], encoding: "base64" };
+  }
+  return shasum ? { algorithm: "sha1", digest: shasum.toLowerCase(), encoding: "hex" } : null;
+}
+
+/**
+ * Read a gzipped tarball stream entirely in memory. Nothing is written to disk;
+ * limits are enforced while streaming and the bytes are checked against the
+ * registry integrity before any file is returned.
+ */
+export async function readTarball(
+  chunks: AsyncIterable<Uint8Array>,
+  options: TarballReadOptions,
+): Promise<TarballContents> {
+  const limits = { ...DEFAULT_TARBALL_LIMITS, ...options.limits };
+  const expected = expectedDigest(options.integrity, options.shasum);
+  const hash = expected ? createHash(expected.algorithm) : null;
+
+  const files: TarballFile[] = [];
+  const oversized: string[] = [];
+  let entryCount = 0;
+  let uncompressedSize = 0;
+  let failure: Error | null = null;
+
+  const parser = new Parser({ strict: true });
+  const fail = (error: Error) => {
+    if (failure) return;
+    failure = error;
+    parser.abort(error);
+  };
+
+  parser.on("entry", (entry: ReadEntry) => {
+    if (failure) return entry.resume();
+
+    entryCount++;
+    uncompressedSize += entry.size || 0;
+    if (entryCount > limits.maxEntries) {
+      entry.resume();
+      return fail(new TarballLimitError("entry-count", entryCount, limits.maxEntries));
+    }
+    if (uncompressedSize > limits.maxUncompressedSize) {
+      entry.resume();
+      return fail(
+        new TarballLimitError("uncompressed-size", uncompressedSize, limits.maxUncompressedSize),
+      );
+    }
+
+    const resolved = toPackagePath(entry.path);
+    if ("reason" in resolved) {
+      entry.resume();
+      return fail(new TarballEntryError(entry.path, resolved.reason));
+    }
+    if (LINK_TYPES.has(entry.type)) {
+      entry.resume();
+      return fail(new TarballEntryError(entry.path, "link"));
+    }
+    if (!FILE_TYPES.has(entry.type)) {
+      entry.resume();
+      if (entry.type === "Directory") return;
+      return fail(new TarballEntryError(entry.path, "special-file"));
+    }
+
+    if (!resolved.path || !options.filter(resolved.path)) return entry.resume();
+    if (entry.size > limits.maxFileSize) {
+      oversized.push(resolved.path);
+      return entry.resume();
+    }
+
+    const parts: Buffer[] = [];
+    entry.on("data", (chunk: Buffer) => parts.push(chunk));
+    entry.on("end", () => {
+      const content = Buffer.concat(parts).toString("utf-8");
+      files.push({ path: resolved.path, content, size: Buffer.byteLength(content) });
+    });
+  });
+
+  const finished = new Promise<void>((resolve, reject) => {
+    parser.on("end", () => resolve());
+    parser.on("error", (error: Error) => {
+      failure = failure ?? error;
+      reject(
+        error instanceof TarballError ? error : new TarballError(`Invalid tarball: ${error.message}`),
+      );
+    });
+  });
+  // Settled by whichever comes first; avoid an unhandled rejection while still streaming
+  finished.catch(() => {});
+
+  let compressedSize = 0;
+  for await (const chunk of chunks) {
+    if (failure) break;
+
+    compressedSize += chunk.byteLength;
+    if (compressedSize > limits.maxCompressedSize) {
+      fail(new TarballLimitError("compressed-size", compressedSize, limits.maxCompressedSize));
+      break;
+    }
+
+    hash?.update(chunk);
+    if (!parser.write(Buffer.from(chunk))) {
+      await new Promise((resolve) => parser.once("drain", resolve));
+    }
+  }
+  if (!failure) parser.end();
+
+  await finished;
+
+  if (expected && hash) {
+    const actual = hash.digest(expected.encoding);
+    if (actual !== expected.digest) {
+      throw new TarballIntegrityError(
+        `${expected.algorithm}-${expected.digest}`,
+        `${expected.algorithm}-${actual}`,
+      );
+    }
+  }
+
+  return { files, oversized, entryCount, uncompressedSize };
+}
@@ -0,0 +1,150 @@
+import { toModuleStem } from "../entry-points.js";
+import { fetchRegistryVersion, type PackageJson } from "../fetcher.js";
+import {
+  isExcludedSource,
+  isSourceCandidate,
+  selectSourceFiles,
+  summarizeSkipped,
+  type SkippedFile,
+} from "../file-selector.js";
+import { recoverSourcesFromMaps } from "../sourcemap.js";
+import type {
+  SourceCodeResult,
+  SourceFetchOptions,
+  SourceFile,
+  SourceStrategy,
+} from "../source-fetcher.js";
+import {
+  DEFAULT_TARBALL_LIMITS,
+  readTarball,
+  TarballError,
+  TarballLimitError,
+} from "./tarball-reader.js";
+
+const SOURCE_MAP = /\.[cm]?js\.map$/;
+// Obvious non-source folders
+const IGNORED_DIRECTORY = /(^|\/)(node_modules|coverage|\.git)\//;
+
+/**
+ * Fetch source code from npm tarball, read in memory with size and path checks
+ */
+export async function fetchFromNpmTarball(
+  packageName: string,
+  version: string,
+  options: SourceFetchOptions = {},
+): Promise<SourceCodeResult | null> {
+  console.log(`     📦 Fetching tarball from npm registry`);
+
+  try {
+    // Get package metadata to find tarball URL
+    const metadata = await fetchRegistryVersion(packageName, version, options.signal);
+    const tarballUrl = metadata.dist?.tarball;
+
+    if (!tarballUrl) {
+      throw new Error("No tarball URL found");
+    }
+    if (!metadata.dist?.integrity && !metadata.dist?.shasum) {
+      console.log(`     ⚠️  No dist.integrity for ${packageName}@${version}, skipping verification`);
+    }
+
+    // Download tarball
+    const tarballRes = await fetch(tarballUrl, { signal: options.signal });
+    if (!tarballRes.ok || !tarballRes.body) {
+      throw new Error(`Failed to download tarball: ${tarballRes.status}`);
+    }
+
+    // Reject oversized downloads before reading them when the size is announced
+    const limits = { ...DEFAULT_TARBALL_LIMITS, ...options.tarballLimits };
+    const contentLength = Number(tarballRes.headers.get("content-length") || 0);
+    if (contentLength > limits.maxCompressedSize) {
+      await tarballRes.body.cancel();
+      throw new TarballLimitError("compressed-size", contentLength, limits.maxCompressedSize);
+    }
+
+    const tarball = await readTarball(tarballRes.body, {
+      integrity: metadata.dist?.integrity,
+      shasum: metadata.dist?.shasum,
+      limits,
+      filter: (filePath) =>
+        filePath === "package.json" ||
+        (!IGNORED_DIRECTORY.test(filePath) &&
+          (SOURCE_MAP.test(filePath) || isSourceCandidate(filePath))),
+    });
+
+    const candidates: SourceFile[] = [];
+    const sourceMaps: Array<{ path: string; content: string }> = [];
+    let packageJsonContent: string | undefined;
+    for (const file of tarball.files) {
+      if (file.path === "package.json") {
+        packageJsonContent = file.content;
+      } else if (SOURCE_MAP.test(file.path)) {
+        sourceMaps.push({ path: file.path, content: file.content });
+      } else {
+        candidates.push(file);
+      }
+    }
+
+    const pkgJson =
+      options.pkgJson ??
+      (packageJsonContent ? (JSON.parse(packageJsonContent) as PackageJson) : undefined);
+
+    // Prefer the original TypeScript embedded in source maps over compiled
+    // output, keeping compiled modules that no map covers
+    const recovered = recoverSourcesFromMaps(sourceMaps).filter(
+      (file) => !isExcludedSource(file.path),
+    );
+    const recoveredStems = new Set(recovered.map((file) => toModuleStem(file.path)));
+    const isUnmapped = (filePath: string) => !recoveredStems.has(toModuleStem(filePath));
+    const unmapped = candidates.filter((file) => isUnmapped(file.path));
+    const strategy = recovered.length > 0 ? "tarball-sourcemap" : "tarball";
+    const sourceFiles = [...recovered, ...unmapped];
+    if (recovered.length > 0) {
+      console.log(
+        `     ✓ Recovered ${recovered.length} TypeScript files from ${sourceMaps.length} source maps` +
+          (unmapped.length > 0 ? `, kept ${unmapped.length} compiled files without one` : ""),
+      );
+    }
+
+    const contents = new Map(sourceFiles.map((file) => [file.path, file.content]));
+    const selection = await selectSourceFiles(sourceFiles, {
+      pkgJson,
+      byteBudget: options.byteBudget,
+      load: async (filePath) => contents.get(filePath) ?? null,
+    });
+    const { files, totalSize, entryFiles } = selection;
+    const skipped: SkippedFile[] = [
+      ...tarball.oversized
+        .filter((filePath) => !SOURCE_MAP.test(filePath) && isUnmapped(filePath))
+        .map((filePath) => ({ path: filePath, reason: "too-large" as const })),
+      ...selection.skipped,
+    ];
+
+    console.log(
+      `     ✓ Extracted ${files.length} source files (${Math.round(totalSize / 1024)}KB) from ${tarball.entryCount} entries`,
+    );
+    if (skipped.length > 0) {
+      console.log(`     ✓ Skipped ${skipped.length} files (${summarizeSkipped(skipped)})`);
+    }
+
+    return {
+      files,
+      strategy,
+      totalSize,
+      entryFiles,
+      skipped,
+    };
+  } catch (error: any) {
+    if (error instanceof TarballError) {
+      console.log(`     ⚠️  Tarball rejected (${error.name}): ${error.message}`);
+    } else {
+      console.log(`     ⚠️  Tarball fetch failed: ${error.message}`);
+    }
+    return null;
+  }
+}
+
+export const tarballStrategy: SourceStrategy = {
+  name: "tarball",
+  fetch: ({ target, options }) =>
+    fetchFromNpmTarball(target.packageName, target.version, options),
+};
@@ -0,0 +1,61 @@
+import type { SourceCodeResult, SourceFile, SourceStrategy } from "../source-fetcher.js";
+
+/**
+ * Fallback: Fetch individual files from unpkg
+ */
+export async function fetchFromUnpkg(
+  packageName: string,
+  version: string,
+  signal?: AbortSignal,
+): Promise<SourceCodeResult | null> {
+  console.log(`     🌐 Fetching from unpkg CDN`);
+
+  const commonPaths = [
+    "/src/index.ts",
+    "/src/index.mts",
+    "/src/index.js",
+    "/src/client.ts",
+    "/src/main.ts",
+    "/lib/index.js",
+    "/lib/index.mjs",
+    "/lib/main.js",
+  ];
+
+  const files: SourceFile[] = [];
+  let totalSize = 0;
+
+  for (const path of commonPaths) {
+    signal?.throwIfAborted();
+    try {
+      const url = `https://unpkg.com/${packageName}@${version}${path}`;
+      const res = await fetch(url, { signal });
+
+      if (res.ok) {
+        const content = await res.text();
+        files.push({
+          path,
+          content,
+          size: content.length,
+        });
+        totalSize += content.length;
+      }
+    } catch {
+      // Silently skip missing files
+    }
+  }
+
+  if (files.length === 0) return null;
+
+  console.log(`     ✓ Found ${files.length} files on unpkg`);
+
+  return {
+    files,
+    strategy: "unpkg",
+    totalSize,
+  };
+}
+
+export const unpkgStrategy: SourceStrategy = {
+  name: "unpkg",
+  fetch: ({ target, options }) => fetchFromUnpkg(target.packageName, target.version, options.signal),
+};
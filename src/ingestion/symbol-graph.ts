@@ -0,0 +1,208 @@
+import * as ts from "typescript";
+import type { ParsedSymbol } from "./code-parser.js";
+import { fromVirtualPath, VIRTUAL_ROOT } from "./virtual-program.js";
+
+/**
+ * Edges from one symbol to others in the same package, as symbol ids
+ * ("src/client.ts#Client.request"). Before linking they may also hold
+ * "?name" placeholders for references resolved by name only.
+ */
+export interface SymbolRelations {
+  calls: string[];
+  calledBy: string[];
+  extends: string[];
+  implements: string[];
+  referencesTypes: string[];
+}
+
+/**
+ * Stable id of a symbol within its package; chunks of one symbol share it
+ */
+export function symbolId(symbol: Pick<ParsedSymbol, "filePath" | "name" | "parent">): string {
+  return `${symbol.filePath}#${symbol.parent ? `${symbol.parent}.` : ""}${symbol.name}`;
+}
+
+// Declarations the parser turns into symbols; parameters and the like have none
+const INDEXED_DECLARATION: Array<(node: ts.Node) => boolean> = [
+  ts.isFunctionDeclaration,
+  ts.isClassDeclaration,
+  ts.isInterfaceDeclaration,
+  ts.isTypeAliasDeclaration,
+  ts.isEnumDeclaration,
+  ts.isModuleDeclaration,
+  ts.isVariableDeclaration,
+  ts.isMethodDeclaration,
+  ts.isPropertyDeclaration,
+  ts.isGetAccessorDeclaration,
+  ts.isSetAccessorDeclaration,
+];
+
+/**
+ * Id of the symbol the parser creates for a declaration: class members are
+ * qualified by their class, everything else by the nearest namespace
+ */
+function declarationId(declaration: ts.Declaration): string | null {
+  if (!INDEXED_DECLARATION.some((isKind) => isKind(declaration))) return null;
+
+  const fileName = declaration.getSourceFile().fileName;
+  if (fileName.startsWith("/") && !fileName.startsWith(`${VIRTUAL_ROOT}/`)) return null; // lib.*.d.ts
+
+  const name = ts.getNameOfDeclaration(declaration);
+  if (!name || !(ts.isIdentifier(name) || ts.isPrivateIdentifier(name))) return null;
+
+  let parent: string | undefined;
+  if (ts.isClassLike(declaration.parent)) {
+    parent = declaration.parent.name?.text;
+    if (!parent) return null;
+  } else {
+    for (let node = declaration.parent; node && !ts.isSourceFile(node); node = node.parent) {
+      if (ts.isModuleDeclaration(node)) {
+        parent = node.name.getText();
+        break;
+      }
+    }
+  }
+
+  return symbolId({ filePath: fromVirtualPath(fileName), name: name.text, parent });
+}
+
+/**
+ * The name node a call, `new` or type reference points at (`b` in `a.b()`)
+ */
+function referencedName(node: ts.Node): ts.Node | null {
+  if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) return node;
+  if (ts.isPropertyAccessExpression(node)) return node.name;
+  if (ts.isQualifiedName(node)) return node.right;
+  if (ts.isParenthesizedExpression(node)) return referencedName(node.expression);
+  return null;
+}
+
+/**
+ * Ids of the declarations a name resolves to; without a checker, a "?name"
+ * placeholder matched against the package's symbols when linking
+ */
+function resolveReference(node: ts.Node, checker?: ts.TypeChecker): string[] {
+  const name = referencedName(node);
+  if (!name) return [];
+  if (!checker) return [`?${name.getText()}`];
+
+  try {
+    let symbol = checker.getSymbolAtLocation(name);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+    return (symbol?.declarations ?? [])
+      .map(declarationId)
+      .filter((id): id is string => id !== null);
+  } catch {
+    return [];
+  }
+}
+
+function emptyRelations(): SymbolRelations {
+  return { calls: [], calledBy: [], extends: [], implements: [], referencesTypes: [] };
+}
+
+/**
+ * Record what a declaration calls, extends, implements and which types it
+ * mentions. With `heritageOnly`, only its extends/implements clauses are read
+ * (a class whose members are symbols of their own).
+ */
+export function collectRelations(
+  node: ts.Node,
+  options: { checker?: ts.TypeChecker; heritageOnly?: boolean } = {},
+): SymbolRelations | undefined {
+  const { checker } = options;
+  const relations = emptyRelations();
+
+  const walk = (child: ts.Node): void => {
+    if (ts.isHeritageClause(child)) {
+      const edge =
+        child.token === ts.SyntaxKind.ExtendsKeyword ? relations.extends : relations.implements;
+      for (const type of child.types) {
+        edge.push(...resolveReference(type.expression, checker));
+        type.typeArguments?.forEach(walk);
+      }
+      return;
+    }
+    if (ts.isCallExpression(child) || ts.isNewExpression(child)) {
+      relations.calls.push(...resolveReference(child.expression, checker));
+    } else if (ts.isTypeReferenceNode(child)) {
+      relations.referencesTypes.push(...resolveReference(child.typeName, checker));
+    }
+    ts.forEachChild(child, walk);
+  };
+
+  if (options.heritageOnly) {
+    if (ts.isClassLike(node) || ts.isInterfaceDeclaration(node)) {
+      node.heritageClauses?.forEach(walk);
+    }
+  } else {
+    walk(node);
+  }
+
+  const hasEdges = Object.values(relations).some((ids) => ids.length > 0);
+  return hasEdges ? relations : undefined;
+}
+
+/**
+ * Keep only edges between the indexed symbols, resolve name placeholders
+ * when the name is unambiguous, and fill in `calledBy`. Returns the number
+ * of edges kept (not counting `calledBy`).
+ */
+export function linkSymbolRelations(symbols: ParsedSymbol[]): number {
+  const ids = new Set(symbols.map(symbolId));
+  const idsByName = new Map<string, Set<string>>();
+  for (const symbol of symbols) {
+    const byName = idsByName.get(symbol.name) ?? new Set<string>();
+    byName.add(symbolId(symbol));
+    idsByName.set(symbol.name, byName);
+  }
+
+  const link = (targets: string[], self: string) => {
+    const linked = targets.flatMap((target) => {
+      if (!target.startsWith("?")) return ids.has(target) ? [target] : [];
+      const candidates = idsByName.get(target.slice(1));
+      return candidates?.size === 1 ? [...candidates] : [];
+    });
+    return [...new Set(linked)].filter((target) => target !== self);
+  };
+
+  // Chunks of one symbol share its relations
+  const linkedById = new Map<string, SymbolRelations>();
+  for (const symbol of symbols) {
+    const id = symbolId(symbol);
+    if (!symbol.relations || linkedById.has(id)) continue;
+    linkedById.set(id, {
+      calls: link(symbol.relations.calls, id),
+      calledBy: [],
+      extends: link(symbol.relations.extends, id),
+      implements: link(symbol.relations.implements, id),
+      referencesTypes: link(symbol.relations.referencesTypes, id),
+    });
+  }
+
+  for (const [caller, relations] of linkedById) {
+    for (const callee of relations.calls) {
+      if (!linkedById.has(callee)) linkedById.set(callee, emptyRelations());
+      linkedById.get(callee)!.calledBy.push(caller);
+    }
+  }
+
+  let edgeCount = 0;
+  for (const relations of linkedById.values()) {
+    edgeCount +=
+      relations.calls.length +
+      relations.extends.length +
+      relations.implements.length +
+      relations.referencesTypes.length;
+  }
+
+  for (const symbol of symbols) {
+    const relations = linkedById.get(symbolId(symbol));
+    const hasEdges = relations && Object.values(relations).some((edge) => edge.length > 0);
+    symbol.relations = hasEdges ? relations : undefined;
+  }
+
+  return edgeCount;
+}
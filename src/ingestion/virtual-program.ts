@@ -0,0 +1,68 @@
+import * as path from "path";
+import * as ts from "typescript";
+
+// Package files are mounted under a virtual root so the compiler sees absolute paths
+export const VIRTUAL_ROOT = "/__package__";
+
+export function toVirtualPath(filePath: string): string {
+  return `${VIRTUAL_ROOT}/${filePath}`;
+}
+
+export function fromVirtualPath(fileName: string): string {
+  return fileName.startsWith(`${VIRTUAL_ROOT}/`)
+    ? fileName.slice(VIRTUAL_ROOT.length + 1)
+    : fileName;
+}
+
+// Standard library declarations are parsed once per process and shared across programs
+const libSourceFiles = new Map<string, ts.SourceFile>();
+
+/**
+ * Compiler host that serves package files from memory only. With `withLib`,
+ * the standard library declarations shipped with `typescript` are read from disk.
+ */
+export function createInMemoryHost(
+  files: Record<string, string>,
+  options: { withLib?: boolean } = {},
+): ts.CompilerHost {
+  const virtualFiles = new Map(
+    Object.entries(files).map(([filePath, content]) => [toVirtualPath(filePath), content]),
+  );
+  const libLocation = path.dirname(ts.getDefaultLibFilePath({}));
+
+  const readLibFile = (fileName: string, languageVersion: ts.ScriptTarget) => {
+    const cached = libSourceFiles.get(fileName);
+    if (cached) return cached;
+    const content = ts.sys.readFile(fileName);
+    if (content === undefined) return undefined;
+    const sourceFile = ts.createSourceFile(fileName, content, languageVersion);
+    libSourceFiles.set(fileName, sourceFile);
+    return sourceFile;
+  };
+  const isLibFile = (fileName: string) =>
+    options.withLib === true && fileName.startsWith(`${libLocation}/`);
+
+  return {
+    getSourceFile: (fileName, languageVersion) => {
+      const content = virtualFiles.get(fileName);
+      if (content !== undefined) {
+        return ts.createSourceFile(fileName, content, languageVersion, true);
+      }
+      return isLibFile(fileName) ? readLibFile(fileName, languageVersion as ts.ScriptTarget) : undefined;
+    },
+    getDefaultLibFileName: (compilerOptions) =>
+      options.withLib ? ts.getDefaultLibFilePath(compilerOptions) : `${VIRTUAL_ROOT}/lib.d.ts`,
+    getDefaultLibLocation: () => (options.withLib ? libLocation : VIRTUAL_ROOT),
+    writeFile: () => {},
+    getCurrentDirectory: () => VIRTUAL_ROOT,
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => "\n",
+    fileExists: (fileName) =>
+      virtualFiles.has(fileName) || (isLibFile(fileName) && ts.sys.fileExists(fileName)),
+    readFile: (fileName) =>
+      virtualFiles.get(fileName) ?? (isLibFile(fileName) ? ts.sys.readFile(fileName) : undefined),
+    directoryExists: (directory) =>
+      [...virtualFiles.keys()].some((fileName) => fileName.startsWith(`${directory}/`)),
+  };
+}
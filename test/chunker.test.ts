@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { splitImplementation } from "../src/ingestion/chunker.js";
+
+function statements(count: number): string {
+  return Array.from({ length: count }, (_, i) => `    const value${i} = await this.step(${i});\n`).join("");
+}
+
+describe("splitImplementation", () => {
+  it("leaves implementations within the size alone", () => {
+    assert.equal(splitImplementation("function small() {}", "src/small.ts", 100), null);
+  });
+
+  it("splits a function between statements behind its declaration", () => {
+    const implementation = `async function run(opts: Options): Promise<void> {\n${statements(20)}}`;
+
+    const split = splitImplementation(implementation, "src/run.ts", 400);
+
+    assert.ok(split);
+    assert.equal(split.header, "async function run(opts: Options): Promise<void> {");
+    assert.ok(split.bodies.length > 1);
+    assert.equal(split.header + split.bodies.join(""), implementation);
+  });
+
+  it("parses methods as class members", () => {
+    const implementation = `private async request<T>(opts: Options): Promise<T> {\n${statements(20)}  }`;
+
+    const split = splitImplementation(implementation, "src/client.ts", 400, true);
+
+    assert.ok(split);
+    assert.equal(split.header, "private async request<T>(opts: Options): Promise<T> {");
+    assert.ok(split.bodies.every((body) => body.trimStart().startsWith("const value")));
+    assert.equal(split.header + split.bodies.join(""), implementation);
+  });
+
+  it("splits the body of an overloaded method, not its signatures", () => {
+    const signatures = "send(opts: Options): Promise<Response>;\n  send(opts: Options, retry?: number) {";
+    const implementation = `${signatures}\n${statements(20)}  }`;
+
+    const split = splitImplementation(implementation, "src/client.ts", 400, true);
+
+    assert.ok(split);
+    assert.equal(split.header, signatures);
+    assert.equal(split.header + split.bodies.join(""), implementation);
+  });
+});
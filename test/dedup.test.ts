@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ParsedSymbol } from "../src/ingestion/code-parser.js";
+import { dedupeSymbols } from "../src/ingestion/dedup.js";
+
+function symbol(
+  filePath: string,
+  implementation: string,
+  overrides: Partial<ParsedSymbol> = {},
+): ParsedSymbol {
+  return {
+    kind: "function",
+    name: "parse",
+    signature: "function parse(input)",
+    implementation,
+    startLine: 1,
+    endLine: 3,
+    filePath,
+    isExported: false,
+    parameters: ["input"],
+    ...overrides,
+  };
+}
+
+describe("dedupeSymbols", () => {
+  it("collapses copies of one module from several build folders into the TypeScript source", () => {
+    const source = symbol(
+      "src/parse.ts",
+      "export function parse(input: string): string { return input.trim(); }",
+      { parameters: ["input: string"] },
+    );
+    const esm = symbol("dist/esm/parse.js", "export function parse(input) { return input.trim(); }", {
+      isExported: true,
+      exportedNames: ["parse"],
+      reachability: "public",
+    });
+    const cjs = symbol("dist/cjs/parse.js", "function parse(input) {\n  return input.trim();\n}");
+
+    const { symbols, collapsed } = dedupeSymbols([esm, source, cjs]);
+
+    assert.equal(collapsed, 2);
+    assert.deepEqual(symbols, [source]);
+    assert.deepEqual(source.alternatePaths, ["dist/cjs/parse.js", "dist/esm/parse.js"]);
+    // The copy the entry files load decides the export status
+    assert.equal(source.isExported, true);
+    assert.deepEqual(source.exportedNames, ["parse"]);
+    assert.equal(source.reachability, "public");
+  });
+
+  it("collapses identical code in differently named modules", () => {
+    const a = symbol("lib/parse.js", "function parse(input) { return input.trim(); }");
+    const b = symbol("lib/legacy/parse-v1.js", "function parse(input) {\n  return input.trim();\n}");
+
+    assert.equal(dedupeSymbols([a, b]).collapsed, 1);
+  });
+
+  it("keeps same-signature functions of different JavaScript modules apart", () => {
+    const a = symbol("lib/json.js", "function parse(input) { return JSON.parse(input); }");
+    const b = symbol("lib/yaml.js", "function parse(input) { return yaml.load(input); }");
+
+    const { symbols, collapsed } = dedupeSymbols([a, b]);
+
+    assert.equal(collapsed, 0);
+    assert.deepEqual(symbols, [a, b]);
+  });
+
+  it("matches a compiled copy in a bundle by its code once types are stripped", () => {
+    const source = symbol(
+      "src/core/parse.ts",
+      "export function parse(input: string): number { return (input as string).length; }",
+      { parameters: ["input: string"] },
+    );
+    const bundled = symbol("dist/index.js", "function parse(input) {\n  return input.length;\n}");
+
+    const { symbols, collapsed } = dedupeSymbols([bundled, source]);
+
+    assert.equal(collapsed, 1);
+    assert.deepEqual(symbols, [source]);
+    assert.deepEqual(source.alternatePaths, ["dist/index.js"]);
+  });
+
+  it("matches methods by their type-stripped code", () => {
+    const source = symbol(
+      "src/client/store.ts",
+      "private set(key: string, value: unknown): void { this.map.set(key, value); }",
+      { kind: "method", name: "set", parent: "Store", parameters: ["key: string", "value: unknown"] },
+    );
+    const compiled = symbol("dist/bundle.js", "set(key, value) { this.map.set(key, value); }", {
+      kind: "method",
+      name: "set",
+      parent: "Store",
+      parameters: ["key", "value"],
+    });
+    const unrelated = symbol("dist/cache.js", "set(key, value) { this.cache[key] = value; }", {
+      kind: "method",
+      name: "set",
+      parent: "Store",
+      parameters: ["key", "value"],
+    });
+
+    const { symbols, collapsed } = dedupeSymbols([source, compiled, unrelated]);
+
+    assert.equal(collapsed, 1);
+    assert.deepEqual(symbols, [source, unrelated]);
+  });
+
+  it("points call graph references at the copy that stays", () => {
+    const source = symbol("src/parse.ts", "export function parse(input: string) { return input; }");
+    const compiled = symbol("dist/parse.js", "function parse(input) { return input; }");
+    const caller = symbol("src/main.ts", "export function main() { return parse(''); }", {
+      name: "main",
+      parameters: [],
+      relations: {
+        calls: ["dist/parse.js#parse"],
+        calledBy: [],
+        extends: [],
+        implements: [],
+        referencesTypes: [],
+      },
+    });
+
+    dedupeSymbols([compiled, source, caller]);
+
+    assert.deepEqual(caller.relations?.calls, ["src/parse.ts#parse"]);
+  });
+});
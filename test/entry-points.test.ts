@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ParsedSymbol } from "../src/ingestion/code-parser.js";
+import { tagSymbolEntryPoints } from "../src/ingestion/entry-points.js";
+import type { ExportInfo } from "../src/ingestion/fetcher.js";
+
+const PKG = { name: "kit", version: "1.0.0" };
+
+function exported(name: string, entry: string, filePath?: string): ExportInfo {
+  return { kind: "interface", name, signature: `interface ${name} {}`, entry, file_path: filePath };
+}
+
+function symbol(filePath: string, name: string, overrides: Partial<ParsedSymbol> = {}): ParsedSymbol {
+  return {
+    kind: "interface",
+    name,
+    signature: `interface ${name}`,
+    implementation: `export interface ${name} {}`,
+    startLine: 1,
+    endLine: 1,
+    filePath,
+    isExported: true,
+    ...overrides,
+  };
+}
+
+describe("tagSymbolEntryPoints", () => {
+  it("tags same-named exports of different modules with their own subpaths", () => {
+    const client = symbol("src/client/options.ts", "Options");
+    const server = symbol("src/server/options.ts", "Options");
+
+    tagSymbolEntryPoints(
+      [client, server],
+      [
+        exported("Options", "./client", "dist/client/options.d.ts"),
+        exported("Options", "./server", "dist/server/options.d.ts"),
+      ],
+      PKG,
+    );
+
+    assert.deepEqual(client.entryPoints, ["kit/client"]);
+    assert.deepEqual(server.entryPoints, ["kit/server"]);
+  });
+
+  it("matches a build copy's module when the kept copy lives elsewhere", () => {
+    const options = symbol("src/core/options.ts", "Options", { alternatePaths: ["dist/options.js"] });
+
+    tagSymbolEntryPoints(
+      [options],
+      [
+        exported("Options", ".", "dist/options.d.ts"),
+        exported("Options", "./legacy", "dist/legacy/options.d.ts"),
+      ],
+      PKG,
+    );
+
+    assert.deepEqual(options.entryPoints, ["kit"]);
+  });
+
+  it("matches by name alone when one module declares the name", () => {
+    const options = symbol("src/options.ts", "Options");
+    const send = symbol("src/client.ts", "send", { kind: "method", parent: "Client" });
+
+    // A bundled declaration file holds every declaration
+    tagSymbolEntryPoints(
+      [options, send],
+      [
+        exported("Options", ".", "dist/index.d.ts"),
+        exported("Options", "./types", "dist/index.d.ts"),
+        exported("Client", ".", "dist/index.d.ts"),
+      ],
+      PKG,
+    );
+
+    assert.deepEqual(options.entryPoints, ["kit", "kit/types"]);
+    assert.deepEqual(send.entryPoints, ["kit"]);
+  });
+
+  it("leaves symbols that aren't exported untagged", () => {
+    const internal = symbol("src/options.ts", "Options", { isExported: false });
+
+    tagSymbolEntryPoints([internal], [exported("Options", ".", "dist/options.d.ts")], PKG);
+
+    assert.equal(internal.entryPoints, undefined);
+  });
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ParsedSymbol } from "../src/ingestion/code-parser.js";
+import { applyExportGraph } from "../src/ingestion/export-graph.js";
+import type { SourceFile } from "../src/ingestion/source-fetcher.js";
+
+function symbol(filePath: string, name: string, isExported: boolean): ParsedSymbol {
+  return {
+    kind: "function",
+    name,
+    signature: `function ${name}()`,
+    implementation: `${isExported ? "export " : ""}function ${name}() {}`,
+    startLine: 1,
+    endLine: 1,
+    filePath,
+    isExported,
+    parameters: [],
+  };
+}
+
+const FILES: SourceFile[] = [
+  { path: "src/index.ts", content: 'export { parse } from "./parse";' },
+  { path: "src/parse.ts", content: "export function parse() {}\nexport function helper() {}" },
+  { path: "src/unused.ts", content: "export function unused() {}" },
+].map((file) => ({ ...file, size: file.content.length }));
+
+describe("applyExportGraph", () => {
+  it("marks symbols public, internal or unreachable from the entry files", () => {
+    const parse = symbol("src/parse.ts", "parse", true);
+    const helper = symbol("src/parse.ts", "helper", true);
+    const unused = symbol("src/unused.ts", "unused", true);
+
+    const graph = applyExportGraph([parse, helper, unused], FILES, ["src/index.ts"]);
+
+    assert.ok(graph);
+    assert.deepEqual(parse.exportedNames, ["parse"]);
+    assert.equal(parse.reachability, "public");
+    assert.equal(helper.reachability, "internal");
+    assert.equal(helper.isExported, false);
+    assert.equal(unused.reachability, "unreachable");
+  });
+
+  it("keeps the parser's export flags when no entry file is among the files", () => {
+    const parse = symbol("src/parse.ts", "parse", true);
+
+    // The entry file was screened out as minified
+    const graph = applyExportGraph([parse], FILES.slice(1), ["src/index.ts"]);
+
+    assert.equal(graph, null);
+    assert.equal(parse.isExported, true);
+    assert.equal(parse.reachability, undefined);
+  });
+});
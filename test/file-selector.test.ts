@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { selectSourceFiles, type CandidateFile } from "../src/ingestion/file-selector.js";
+
+/** Candidates listed with their real sizes, or without any when `listSizes` is false */
+function repository(contents: Record<string, string>, listSizes = true) {
+  const loaded: string[] = [];
+  const candidates: CandidateFile[] = Object.entries(contents).map(([path, content]) => ({
+    path,
+    size: listSizes ? Buffer.byteLength(content) : undefined,
+  }));
+  const load = async (filePath: string) => {
+    loaded.push(filePath);
+    return contents[filePath] ?? null;
+  };
+  return { candidates, load, loaded };
+}
+
+describe("selectSourceFiles", () => {
+  it("follows imports from the entry file before unreachable files", async () => {
+    const { candidates, load } = repository({
+      "src/index.ts": 'export * from "./a.js";',
+      "src/a.ts": 'import { b } from "./nested/b";',
+      "src/nested/b.ts": "export const b = 1;",
+      "src/unused.ts": "export const unused = 1;",
+    });
+
+    const selection = await selectSourceFiles(candidates, {
+      load,
+      pkgJson: { name: "x", version: "1", main: "src/index.ts" },
+    });
+
+    assert.deepEqual(selection.entryFiles, ["src/index.ts"]);
+    assert.deepEqual(
+      selection.files.map((file) => file.path),
+      ["src/index.ts", "src/a.ts", "src/nested/b.ts", "src/unused.ts"],
+    );
+    assert.deepEqual(selection.skipped, []);
+  });
+
+  it("skips listed files that can't fit the budget without downloading them", async () => {
+    const { candidates, load, loaded } = repository({
+      "src/index.ts": 'import "./big";',
+      "src/big.ts": "x".repeat(200),
+    });
+
+    const selection = await selectSourceFiles(candidates, { load, byteBudget: 100 });
+
+    assert.deepEqual(
+      selection.files.map((file) => file.path),
+      ["src/index.ts"],
+    );
+    assert.deepEqual(selection.skipped, [{ path: "src/big.ts", reason: "budget", depth: 1 }]);
+    assert.deepEqual(loaded, ["src/index.ts"]);
+  });
+
+  it("skips files over maxFileSize before downloading them", async () => {
+    const { candidates, load, loaded } = repository({
+      "src/index.ts": "export {};",
+      "src/huge.ts": "x".repeat(500),
+    });
+
+    const selection = await selectSourceFiles(candidates, { load, maxFileSize: 100 });
+
+    assert.deepEqual(selection.skipped, [{ path: "src/huge.ts", reason: "too-large" }]);
+    assert.deepEqual(loaded, ["src/index.ts"]);
+  });
+
+  it("checks files without a listed size once they are loaded", async () => {
+    const { candidates, load } = repository(
+      {
+        "src/index.ts": 'import "./huge"; import "./big";',
+        "src/huge.ts": "x".repeat(500),
+        "src/big.ts": "y".repeat(90),
+        "src/small.ts": "z",
+      },
+      false,
+    );
+
+    const selection = await selectSourceFiles(candidates, { load, byteBudget: 100, maxFileSize: 400 });
+
+    assert.deepEqual(
+      selection.files.map((file) => file.path),
+      ["src/index.ts", "src/small.ts"],
+    );
+    assert.deepEqual(selection.skipped, [
+      { path: "src/huge.ts", reason: "too-large", depth: 1 },
+      { path: "src/big.ts", reason: "budget", depth: 1 },
+    ]);
+    assert.ok(selection.totalSize <= 100);
+  });
+
+  it("measures loaded content even when the listed size is wrong", async () => {
+    const { load } = repository({
+      "src/index.ts": "export {};",
+      "src/liar.ts": "x".repeat(300),
+    });
+    const candidates = [
+      { path: "src/index.ts", size: 10 },
+      { path: "src/liar.ts", size: 3 },
+    ];
+
+    const selection = await selectSourceFiles(candidates, { load, byteBudget: 100 });
+
+    assert.deepEqual(
+      selection.files.map((file) => file.path),
+      ["src/index.ts"],
+    );
+    assert.deepEqual(selection.skipped, [{ path: "src/liar.ts", reason: "budget", depth: undefined }]);
+  });
+
+  it("reports files that fail to load", async () => {
+    const { candidates, load } = repository({ "src/index.ts": 'import "./missing";' });
+    candidates.push({ path: "src/missing.ts", size: 10 });
+
+    const selection = await selectSourceFiles(candidates, { load });
+
+    assert.deepEqual(selection.skipped, [{ path: "src/missing.ts", reason: "load-failed", depth: 1 }]);
+  });
+});
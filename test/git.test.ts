@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { toCloneUrl } from "../src/ingestion/sources/git.js";
+
+describe("toCloneUrl", () => {
+  it("expands npm shorthands to https remotes", () => {
+    assert.equal(toCloneUrl("gitlab:group/repo", false), "https://gitlab.com/group/repo.git");
+    assert.equal(toCloneUrl("user/repo", false), "https://github.com/user/repo.git");
+  });
+
+  it("accepts network remotes", () => {
+    assert.equal(toCloneUrl("git+https://example.com/repo.git", false), "https://example.com/repo.git");
+    assert.equal(toCloneUrl("git+ssh://git@example.com/repo.git", false), "ssh://git@example.com/repo.git");
+    assert.equal(toCloneUrl("git@example.com:group/repo.git", false), "git@example.com:group/repo.git");
+  });
+
+  it("rejects file:// remotes unless local remotes are allowed", () => {
+    assert.equal(toCloneUrl("file:///etc", false), null);
+    assert.equal(toCloneUrl("git+file:///srv/repo", false), null);
+    assert.equal(toCloneUrl("file:///srv/repo", true), "file:///srv/repo");
+  });
+
+  it("rejects local paths and other transports", () => {
+    assert.equal(toCloneUrl("/srv/repo", false), null);
+    assert.equal(toCloneUrl("~/repo", false), null);
+    assert.equal(toCloneUrl("ext::sh -c touch% /tmp/pwned", false), null);
+    assert.equal(toCloneUrl("", false), null);
+  });
+});
@@ -0,0 +1,363 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import type { Client } from "@elastic/elasticsearch";
+import type { IndexReport, PackageIndexResult } from "@npm-intel/shared/ingestion";
+import {
+  PACKAGE_INDEX_ALIAS,
+  PACKAGE_WRITE_ALIAS,
+  SYMBOL_INDEX_ALIAS,
+  SYMBOL_WRITE_ALIAS,
+  versionedIndexName,
+} from "@npm-intel/shared/indices";
+import {
+  createIndices,
+  describeIndices,
+  migrateIndices,
+  rollbackIndices,
+} from "../src/ingestion/index-migration.js";
+import { SCHEMA_VERSION } from "../src/ingestion/index-schema.js";
+
+type Document = Record<string, any>;
+
+interface FakeIndex {
+  documents: Document[];
+  aliases: Map<string, { is_write_index?: boolean }>;
+}
+
+type AliasAction = Record<string, { index: string; alias?: string; is_write_index?: boolean }>;
+
+/**
+ * Just enough of an Elasticsearch cluster for the migration: indices with
+ * aliases updated atomically, counts, one cardinality aggregation and scrolls
+ */
+class FakeCluster {
+  indices = new Map<string, FakeIndex>();
+
+  /** Physical indices an index or alias name resolves to */
+  resolve(name: string): string[] {
+    if (this.indices.has(name)) return [name];
+    return [...this.indices].filter(([, index]) => index.aliases.has(name)).map(([indexName]) => indexName);
+  }
+
+  /** Add a document through `name`, following the write index of an alias */
+  write(name: string, document: Document): void {
+    const targets = this.resolve(name);
+    const target =
+      targets.length === 1
+        ? targets[0]
+        : targets.find((indexName) => this.indices.get(indexName)!.aliases.get(name)?.is_write_index);
+    if (!target) throw new Error(`No write index behind ${name}`);
+    this.indices.get(target)!.documents.push(document);
+  }
+
+  aliasesOf(name: string): string[] {
+    return [...this.indices.get(name)?.aliases.keys() ?? []].sort();
+  }
+
+  documentsOf(name: string): Document[] {
+    return this.resolve(name).flatMap((indexName) => this.indices.get(indexName)!.documents);
+  }
+
+  client(): Client {
+    const cluster = this;
+    const client = {
+      indices: {
+        async existsAlias({ name }: { name: string }) {
+          return [...cluster.indices.values()].some((index) => index.aliases.has(name));
+        },
+        async getAlias({ name }: { name: string }) {
+          return Object.fromEntries(
+            [...cluster.indices]
+              .filter(([, index]) => index.aliases.has(name))
+              .map(([indexName, index]) => [indexName, { aliases: Object.fromEntries(index.aliases) }]),
+          );
+        },
+        async exists({ index }: { index: string }) {
+          return cluster.resolve(index).length > 0;
+        },
+        async get({ index }: { index: string }) {
+          const prefix = index.replace(/\*$/, "");
+          return Object.fromEntries(
+            [...cluster.indices.keys()].filter((name) => name.startsWith(prefix)).map((name) => [name, {}]),
+          );
+        },
+        async create({ index }: { index: string }) {
+          if (cluster.resolve(index).length > 0) {
+            throw new Error(`resource_already_exists_exception: ${index}`);
+          }
+          cluster.indices.set(index, { documents: [], aliases: new Map() });
+          return { acknowledged: true, index };
+        },
+        async delete({ index }: { index: string }) {
+          if (!cluster.indices.delete(index)) throw new Error(`index_not_found_exception: ${index}`);
+          return { acknowledged: true };
+        },
+        async updateAliases({ actions }: { actions: AliasAction[] }) {
+          // Applied to a copy, so a failing action leaves every alias as it was
+          const next = new Map<string, FakeIndex>();
+          for (const [name, index] of cluster.indices) {
+            next.set(name, { ...index, aliases: new Map(index.aliases) });
+          }
+          for (const action of actions) {
+            const [type, { index, alias, is_write_index }] = Object.entries(action)[0];
+            const target = next.get(index);
+            if (!target) throw new Error(`index_not_found_exception: ${index}`);
+            if (type === "add") {
+              target.aliases.set(alias!, { is_write_index });
+            } else if (type === "remove") {
+              if (!target.aliases.delete(alias!)) throw new Error(`aliases_not_found_exception: ${alias}`);
+            } else if (type === "remove_index") {
+              next.delete(index);
+            }
+          }
+          cluster.indices = next;
+          return { acknowledged: true };
+        },
+        async refresh() {
+          return {};
+        },
+      },
+      async count({ index, query }: { index: string; query?: any }) {
+        const documents = cluster.documentsOf(index);
+        const threshold = query?.range?.total_symbols?.gt;
+        return {
+          count:
+            threshold === undefined
+              ? documents.length
+              : documents.filter((document) => (document.total_symbols ?? 0) > threshold).length,
+        };
+      },
+      async search({ index }: { index: string }) {
+        const packages = new Set(cluster.documentsOf(index).map((document) => document.package_version));
+        return { hits: { hits: [] }, aggregations: { packages: { value: packages.size } } };
+      },
+      helpers: {
+        async *scrollDocuments({ index }: { index: string }) {
+          yield* cluster.documentsOf(index);
+        },
+      },
+    };
+    return client as unknown as Client;
+  }
+}
+
+function packageDocument(name: string, version: string, totalSymbols = 1): Document {
+  return { name, version, total_symbols: totalSymbols };
+}
+
+function symbolDocument(name: string, version: string): Document {
+  return { package_version: `${name}@${version}`, name: "main" };
+}
+
+/** Store `specs` through the write aliases, the way ingestion does */
+function ingest(cluster: FakeCluster, specs: string[]): void {
+  for (const spec of specs) {
+    const [name, version] = spec.split("@");
+    cluster.write(SYMBOL_WRITE_ALIAS, symbolDocument(name, version));
+    cluster.write(PACKAGE_WRITE_ALIAS, packageDocument(name, version));
+  }
+}
+
+function report(results: Array<Pick<PackageIndexResult, "spec" | "status" | "error">>): IndexReport {
+  const packages = results.map((result) => ({
+    ...result,
+    name: result.spec.split("@")[0],
+    durationMs: 0,
+    stages: {},
+    warnings: [],
+  }));
+  const failed = packages.filter((result) => result.status !== "indexed").length;
+  return {
+    startedAt: "",
+    finishedAt: "",
+    durationMs: 0,
+    concurrency: 1,
+    timeoutMs: 0,
+    scoringProfile: "default",
+    succeeded: packages.length - failed,
+    failed,
+    packages,
+  };
+}
+
+const OLD_PACKAGES = versionedIndexName(PACKAGE_INDEX_ALIAS, SCHEMA_VERSION - 1);
+const OLD_SYMBOLS = versionedIndexName(SYMBOL_INDEX_ALIAS, SCHEMA_VERSION - 1);
+const NEW_PACKAGES = versionedIndexName(PACKAGE_INDEX_ALIAS, SCHEMA_VERSION);
+const NEW_SYMBOLS = versionedIndexName(SYMBOL_INDEX_ALIAS, SCHEMA_VERSION);
+
+describe("index aliases", () => {
+  beforeEach(() => {
+    mock.method(console, "log", () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("creates versioned indices behind the read and write aliases", async () => {
+    const cluster = new FakeCluster();
+
+    const created = await createIndices(cluster.client());
+
+    assert.deepEqual(created, [NEW_PACKAGES, NEW_SYMBOLS]);
+    assert.deepEqual(cluster.aliasesOf(created[0]), [PACKAGE_INDEX_ALIAS, PACKAGE_WRITE_ALIAS]);
+    assert.deepEqual(cluster.aliasesOf(created[1]), [SYMBOL_INDEX_ALIAS, SYMBOL_WRITE_ALIAS]);
+  });
+
+  it("refuses to create indices over existing ones", async () => {
+    const cluster = new FakeCluster();
+    await createIndices(cluster.client());
+
+    await assert.rejects(createIndices(cluster.client()), /already exist/);
+  });
+
+  it("re-ingests into the next schema version and swaps the aliases", async () => {
+    const cluster = new FakeCluster();
+    const client = cluster.client();
+    await createIndices(client, SCHEMA_VERSION - 1);
+    ingest(cluster, ["zod@3.23.8", "hono@4.0.0"]);
+
+    let reingested: string[] = [];
+    const result = await migrateIndices(client, {
+      mode: "reingest",
+      reingest: async (specs) => {
+        reingested = specs;
+        // Ingestion running meanwhile writes through the same aliases
+        ingest(cluster, [...specs, "axios@1.7.0"]);
+        return report(specs.map((spec) => ({ spec, status: "indexed" })));
+      },
+    });
+
+    assert.deepEqual(reingested, ["zod@3.23.8", "hono@4.0.0"]);
+    assert.equal(result.fromVersion, SCHEMA_VERSION - 1);
+    assert.equal(result.toVersion, SCHEMA_VERSION);
+    assert.deepEqual(result.indices, [
+      { source: OLD_PACKAGES, target: NEW_PACKAGES, sourceCount: 2, targetCount: 3 },
+    ]);
+
+    assert.deepEqual(cluster.aliasesOf(NEW_PACKAGES), [PACKAGE_INDEX_ALIAS, PACKAGE_WRITE_ALIAS]);
+    assert.deepEqual(cluster.aliasesOf(NEW_SYMBOLS), [SYMBOL_INDEX_ALIAS, SYMBOL_WRITE_ALIAS]);
+    assert.deepEqual(cluster.aliasesOf(OLD_PACKAGES), []);
+    assert.deepEqual(
+      cluster.documentsOf(PACKAGE_INDEX_ALIAS).map((document) => document.name),
+      ["zod", "hono", "axios"],
+    );
+  });
+
+  it("replaces plain indices from before versioned ones", async () => {
+    const cluster = new FakeCluster();
+    const client = cluster.client();
+    await client.indices.create({ index: PACKAGE_INDEX_ALIAS });
+    await client.indices.create({ index: SYMBOL_INDEX_ALIAS });
+    cluster.write(PACKAGE_INDEX_ALIAS, packageDocument("zod", "3.23.8"));
+    cluster.write(SYMBOL_INDEX_ALIAS, symbolDocument("zod", "3.23.8"));
+
+    const result = await migrateIndices(client, {
+      mode: "reingest",
+      reingest: async (specs) => {
+        ingest(cluster, specs);
+        return report(specs.map((spec) => ({ spec, status: "indexed" })));
+      },
+    });
+
+    assert.equal(result.fromVersion, undefined);
+    assert.deepEqual(result.removedLegacyIndices, [PACKAGE_INDEX_ALIAS, SYMBOL_INDEX_ALIAS]);
+    assert.deepEqual(result.createdEmptyIndices, []);
+    assert.deepEqual([...cluster.indices.keys()].sort(), [NEW_PACKAGES, NEW_SYMBOLS]);
+    assert.deepEqual(cluster.aliasesOf(NEW_PACKAGES), [PACKAGE_INDEX_ALIAS, PACKAGE_WRITE_ALIAS]);
+  });
+
+  it("migrates a plain package index from before the symbol index", async () => {
+    const cluster = new FakeCluster();
+    const client = cluster.client();
+    await client.indices.create({ index: PACKAGE_INDEX_ALIAS });
+    cluster.write(PACKAGE_INDEX_ALIAS, packageDocument("zod", "3.23.8"));
+    cluster.write(PACKAGE_INDEX_ALIAS, packageDocument("hono", "4.0.0"));
+
+    const result = await migrateIndices(client, {
+      mode: "reingest",
+      reingest: async (specs) => {
+        ingest(cluster, specs);
+        return report(specs.map((spec) => ({ spec, status: "indexed" })));
+      },
+    });
+
+    assert.deepEqual(result.removedLegacyIndices, [PACKAGE_INDEX_ALIAS]);
+    assert.deepEqual(result.createdEmptyIndices, [NEW_SYMBOLS]);
+    assert.deepEqual(
+      result.indices.map((index) => index.source),
+      [PACKAGE_INDEX_ALIAS],
+    );
+    assert.deepEqual([...cluster.indices.keys()].sort(), [NEW_PACKAGES, NEW_SYMBOLS]);
+    assert.deepEqual(cluster.aliasesOf(NEW_PACKAGES), [PACKAGE_INDEX_ALIAS, PACKAGE_WRITE_ALIAS]);
+    assert.deepEqual(cluster.aliasesOf(NEW_SYMBOLS), [SYMBOL_INDEX_ALIAS, SYMBOL_WRITE_ALIAS]);
+    assert.equal(cluster.documentsOf(SYMBOL_INDEX_ALIAS).length, 2);
+  });
+
+  it("removes the new symbol write alias when a plain package index fails to migrate", async () => {
+    const cluster = new FakeCluster();
+    const client = cluster.client();
+    await client.indices.create({ index: PACKAGE_INDEX_ALIAS });
+    cluster.write(PACKAGE_INDEX_ALIAS, packageDocument("zod", "3.23.8"));
+
+    await assert.rejects(
+      migrateIndices(client, {
+        mode: "reingest",
+        reingest: async (specs) =>
+          report(specs.map((spec) => ({ spec, status: "failed", error: "offline" }))),
+      }),
+      /failed to re-ingest/,
+    );
+
+    const [packages, symbols] = await describeIndices(client);
+    assert.equal(packages.legacy, true);
+    assert.equal(symbols.readIndex, undefined);
+    assert.equal(symbols.writeIndex, undefined);
+    assert.deepEqual(cluster.aliasesOf(PACKAGE_INDEX_ALIAS), [PACKAGE_WRITE_ALIAS]);
+  });
+
+  it("moves the write aliases back when re-ingestion fails", async () => {
+    const cluster = new FakeCluster();
+    const client = cluster.client();
+    await createIndices(client, SCHEMA_VERSION - 1);
+    ingest(cluster, ["zod@3.23.8"]);
+
+    await assert.rejects(
+      migrateIndices(client, {
+        mode: "reingest",
+        reingest: async (specs) =>
+          report(specs.map((spec) => ({ spec, status: "failed", error: "offline" }))),
+      }),
+      /1 packages failed to re-ingest \(zod@3\.23\.8: offline\)/,
+    );
+
+    const [packages, symbols] = await describeIndices(client);
+    assert.equal(packages.readIndex, OLD_PACKAGES);
+    assert.equal(packages.writeIndex, OLD_PACKAGES);
+    assert.equal(symbols.writeIndex, OLD_SYMBOLS);
+    // The unfinished indices stay for inspection, without aliases
+    assert.deepEqual(packages.versions, [SCHEMA_VERSION - 1, SCHEMA_VERSION]);
+    assert.deepEqual(cluster.aliasesOf(NEW_PACKAGES), []);
+  });
+
+  it("rolls both aliases back to the previous schema version", async () => {
+    const cluster = new FakeCluster();
+    const client = cluster.client();
+    await createIndices(client, SCHEMA_VERSION - 1);
+    ingest(cluster, ["zod@3.23.8"]);
+    await migrateIndices(client, {
+      mode: "reingest",
+      reingest: async (specs) => {
+        ingest(cluster, specs);
+        return report(specs.map((spec) => ({ spec, status: "indexed" })));
+      },
+    });
+
+    const result = await rollbackIndices(client);
+
+    assert.deepEqual(result, { fromVersion: SCHEMA_VERSION, toVersion: SCHEMA_VERSION - 1 });
+    assert.deepEqual(cluster.aliasesOf(OLD_PACKAGES), [PACKAGE_INDEX_ALIAS, PACKAGE_WRITE_ALIAS]);
+    assert.deepEqual(cluster.aliasesOf(OLD_SYMBOLS), [SYMBOL_INDEX_ALIAS, SYMBOL_WRITE_ALIAS]);
+    assert.deepEqual(cluster.aliasesOf(NEW_PACKAGES), []);
+  });
+});
@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  createLocalBackend,
+  tokenize,
+  type PackageRecord,
+  type SearchBackend,
+  type SymbolRecord,
+} from "@npm-intel/shared/search";
+
+function pkg(name: string, version: string, description: string): PackageRecord {
+  return { name, version, description, readme_content: `# ${name}\n\n${description}` };
+}
+
+function sym(
+  docId: string,
+  name: string,
+  implementation: string,
+  overrides: Partial<SymbolRecord> = {},
+): SymbolRecord {
+  const [pkgName, version] = docId.split("@");
+  return {
+    package: pkgName,
+    version,
+    package_version: docId,
+    name,
+    kind: "function",
+    file_path: "src/index.ts",
+    implementation,
+    symbol_id: `${docId}#${name}`,
+    ...overrides,
+  };
+}
+
+describe("tokenize", () => {
+  it("splits identifiers at camelCase and snake_case boundaries", () => {
+    assert.deepEqual(tokenize("createHTTPClient"), ["createhttpclient", "create", "http", "client"]);
+    assert.deepEqual(tokenize("parse_json_body!"), ["parse_json_body", "parse", "json", "body"]);
+  });
+});
+
+describe("local backend", () => {
+  let directory: string;
+  let backend: SearchBackend;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "npm-intel-local-"));
+    backend = createLocalBackend({ directory });
+
+    await backend.upsertPackage("zod@3.23.8", pkg("zod", "3.23.8", "TypeScript-first schema validation"), [
+      sym("zod@3.23.8", "parse", "function parse(schema, input) { return schema.safeParse(input); }", {
+        entry_points: ["zod"],
+      }),
+      sym("zod@3.23.8", "formatErrors", "function formatErrors(issues) { return issues.map(String); }", {
+        entry_points: ["zod/errors"],
+      }),
+    ]);
+    await backend.upsertPackage("zod@3.22.0", pkg("zod", "3.22.0", "TypeScript-first schema validation"), []);
+    await backend.upsertPackage("hono@4.0.0", pkg("hono", "4.0.0", "Web framework built on web standards"), [
+      sym("hono@4.0.0", "cors", "function cors(options) { return middleware(options); }"),
+    ]);
+    await backend.upsertPackage("axios@1.7.0", pkg("axios", "1.7.0", "Promise based HTTP client"), []);
+  });
+
+  after(async () => {
+    await backend.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("ranks the package matching the query first", async () => {
+    const hits = await backend.searchPackages({ query: "schema validation", size: 10 });
+
+    assert.equal(hits[0].package.name, "zod");
+    assert.ok(hits.every((hit) => hit.package.name !== "axios"));
+  });
+
+  it("ranks by description words across packages", async () => {
+    const [hit] = await backend.searchPackages({ query: "http client", size: 1 });
+
+    assert.equal(hit.id, "axios@1.7.0");
+  });
+
+  it("filters packages by name and version", async () => {
+    const byName = await backend.searchPackages({ query: "schema", size: 10, name: "zod" });
+    assert.deepEqual(byName.map((hit) => hit.id).sort(), ["zod@3.22.0", "zod@3.23.8"]);
+
+    const byVersion = await backend.searchPackages({
+      query: "schema",
+      size: 10,
+      name: "zod",
+      version: "3.22.0",
+    });
+    assert.deepEqual(
+      byVersion.map((hit) => hit.id),
+      ["zod@3.22.0"],
+    );
+  });
+
+  it("lists a package's versions newest first", async () => {
+    const versions = await backend.listVersions("zod");
+
+    assert.deepEqual(
+      versions.map((entry) => entry.version),
+      ["3.23.8", "3.22.0"],
+    );
+  });
+
+  it("ranks the symbol matching the query first within one package", async () => {
+    const [first] = await backend.searchSymbols({ docId: "zod@3.23.8", query: "format errors", size: 5 });
+
+    assert.equal(first.name, "formatErrors");
+  });
+
+  it("only searches symbols reachable from the entry point", async () => {
+    const symbols = await backend.searchSymbols({
+      docId: "zod@3.23.8",
+      query: "format errors",
+      size: 5,
+      entryPoint: "zod",
+    });
+
+    assert.ok(symbols.every((symbol) => symbol.name !== "formatErrors"));
+  });
+
+  it("replaces a package version on a second upsert", async () => {
+    await backend.upsertPackage("hono@4.0.0", pkg("hono", "4.0.0", "Ultrafast web framework"), []);
+
+    const stored = await backend.getPackage("hono", "4.0.0");
+    assert.equal(stored?.package.description, "Ultrafast web framework");
+    assert.deepEqual(await backend.getSymbols({ docId: "hono@4.0.0" }), []);
+  });
+});
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { reciprocalRankFusion } from "@npm-intel/shared/search";
+
+describe("reciprocalRankFusion", () => {
+  it("ranks items found by several rankings above items found by one", () => {
+    const fused = reciprocalRankFusion(
+      [
+        ["a", "b", "c"],
+        ["d", "b"],
+      ],
+      String,
+    );
+
+    assert.deepEqual(
+      fused.map((entry) => entry.item),
+      ["b", "a", "d", "c"],
+    );
+  });
+
+  it("sums 1 / (rankConstant + rank) over the rankings", () => {
+    const [first] = reciprocalRankFusion([["x"], ["y", "x"]], String);
+
+    assert.equal(first.item, "x");
+    assert.equal(first.score, 1 / 61 + 1 / 62);
+  });
+
+  it("takes a custom rank constant", () => {
+    const fused = reciprocalRankFusion([["x", "y"]], String, 1);
+
+    assert.deepEqual(
+      fused.map((entry) => entry.score),
+      [1 / 2, 1 / 3],
+    );
+  });
+
+  it("merges items by key and keeps the first one seen", () => {
+    const first = { id: "zod", source: "keyword" };
+    const second = { id: "zod", source: "vector" };
+
+    const fused = reciprocalRankFusion([[first], [second]], (item) => item.id);
+
+    assert.equal(fused.length, 1);
+    assert.equal(fused[0].item, first);
+  });
+});
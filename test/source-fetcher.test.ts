@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseStrategyOrder } from "../src/ingestion/source-fetcher.js";
+
+const DEFAULT_ORDER = ["github", "gitlab", "bitbucket", "git", "tarball", "unpkg"];
+
+describe("parseStrategyOrder", () => {
+  it("uses the default ordering when nothing is configured", () => {
+    assert.deepEqual(parseStrategyOrder(undefined), DEFAULT_ORDER);
+    assert.deepEqual(parseStrategyOrder("  "), DEFAULT_ORDER);
+  });
+
+  it("keeps the configured order, case-insensitively and without repeats", () => {
+    assert.deepEqual(parseStrategyOrder(" Tarball, git ,,tarball,GITLAB"), ["tarball", "git", "gitlab"]);
+  });
+
+  it("drops unknown names, including inherited object keys", () => {
+    assert.deepEqual(parseStrategyOrder("constructor,__proto__,toString,npm,unpkg"), ["unpkg"]);
+  });
+
+  it("falls back to the default ordering when no name is known", () => {
+    assert.deepEqual(parseStrategyOrder("hasOwnProperty,svn"), DEFAULT_ORDER);
+  });
+});
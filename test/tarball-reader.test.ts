@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { Readable } from "node:stream";
+import { describe, it } from "node:test";
+import { gzipSync } from "node:zlib";
+import { Header } from "tar";
+import {
+  readTarball,
+  TarballEntryError,
+  TarballIntegrityError,
+  TarballLimitError,
+  type TarballReadOptions,
+} from "../src/ingestion/sources/tarball-reader.js";
+
+interface Entry {
+  path: string;
+  content?: string;
+  type?: "File" | "SymbolicLink";
+}
+
+/** A gzipped tarball built in memory, so entries can carry paths no disk allows */
+function tarball(entries: Entry[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const { path, content = "", type = "File" } of entries) {
+    const body = Buffer.from(content);
+    const header = Buffer.alloc(512);
+    new Header({
+      path,
+      type,
+      size: type === "File" ? body.length : 0,
+      mode: 0o644,
+      mtime: new Date(0),
+      linkpath: type === "SymbolicLink" ? "/etc/passwd" : undefined,
+    }).encode(header, 0);
+    blocks.push(header);
+    if (type === "File") {
+      blocks.push(body, Buffer.alloc((512 - (body.length % 512)) % 512));
+    }
+  }
+  blocks.push(Buffer.alloc(1024));
+  return gzipSync(Buffer.concat(blocks));
+}
+
+function read(bytes: Buffer, options: Partial<TarballReadOptions> = {}) {
+  return readTarball(Readable.from([bytes]), { filter: () => true, ...options });
+}
+
+function sri(algorithm: string, bytes: Buffer): string {
+  return `${algorithm}-${createHash(algorithm).update(bytes).digest("base64")}`;
+}
+
+const PACKAGE = tarball([
+  { path: "package/package.json", content: '{"name":"demo"}' },
+  { path: "package/src/index.ts", content: "export const a = 1;" },
+  { path: "package/README.md", content: "# demo" },
+]);
+
+describe("readTarball", () => {
+  it("returns package-relative files that pass the filter", async () => {
+    const contents = await read(PACKAGE, { filter: (filePath) => filePath.endsWith(".ts") });
+
+    assert.deepEqual(
+      contents.files.map((file) => file.path),
+      ["src/index.ts"],
+    );
+    assert.equal(contents.files[0].content, "export const a = 1;");
+    assert.equal(contents.entryCount, 3);
+  });
+
+  it("leaves files over maxFileSize out and lists them", async () => {
+    const bytes = tarball([
+      { path: "package/small.js", content: "x" },
+      { path: "package/big.js", content: "y".repeat(100) },
+    ]);
+    const contents = await read(bytes, { limits: { maxFileSize: 50 } });
+
+    assert.deepEqual(
+      contents.files.map((file) => file.path),
+      ["small.js"],
+    );
+    assert.deepEqual(contents.oversized, ["big.js"]);
+  });
+
+  it("rejects more entries than maxEntries", async () => {
+    await assert.rejects(read(PACKAGE, { limits: { maxEntries: 2 } }), (error: unknown) => {
+      assert.ok(error instanceof TarballLimitError);
+      assert.equal(error.limit, "entry-count");
+      return true;
+    });
+  });
+
+  it("rejects contents over maxUncompressedSize", async () => {
+    await assert.rejects(read(PACKAGE, { limits: { maxUncompressedSize: 20 } }), (error: unknown) => {
+      assert.ok(error instanceof TarballLimitError);
+      assert.equal(error.limit, "uncompressed-size");
+      return true;
+    });
+  });
+
+  it("rejects downloads over maxCompressedSize", async () => {
+    await assert.rejects(read(PACKAGE, { limits: { maxCompressedSize: 10 } }), (error: unknown) => {
+      assert.ok(error instanceof TarballLimitError);
+      assert.equal(error.limit, "compressed-size");
+      return true;
+    });
+  });
+
+  it("rejects entries that escape the package folder", async () => {
+    const bytes = tarball([{ path: "package/../../evil.js", content: "x" }]);
+    await assert.rejects(read(bytes), (error: unknown) => {
+      assert.ok(error instanceof TarballEntryError);
+      assert.equal(error.reason, "path-traversal");
+      return true;
+    });
+  });
+
+  it("rejects links", async () => {
+    const bytes = tarball([{ path: "package/passwd", type: "SymbolicLink" }]);
+    await assert.rejects(read(bytes), (error: unknown) => {
+      assert.ok(error instanceof TarballEntryError);
+      assert.equal(error.reason, "link");
+      return true;
+    });
+  });
+});
+
+describe("readTarball integrity", () => {
+  it("accepts bytes matching dist.integrity", async () => {
+    const contents = await read(PACKAGE, { integrity: sri("sha512", PACKAGE) });
+    assert.equal(contents.files.length, 3);
+  });
+
+  it("rejects bytes that don't match dist.integrity", async () => {
+    const other = tarball([{ path: "package/index.js", content: "tampered" }]);
+    await assert.rejects(read(PACKAGE, { integrity: sri("sha512", other) }), TarballIntegrityError);
+  });
+
+  it("checks the strongest hash an SRI string lists", async () => {
+    const other = tarball([{ path: "package/index.js", content: "tampered" }]);
+    // A matching sha1 doesn't rescue a mismatching sha512
+    const integrity = `${sri("sha1", PACKAGE)} ${sri("sha512", other)}`;
+    await assert.rejects(read(PACKAGE, { integrity }), TarballIntegrityError);
+  });
+
+  it("falls back to the hex dist.shasum", async () => {
+    const shasum = createHash("sha1").update(PACKAGE).digest("hex");
+    const contents = await read(PACKAGE, { shasum: shasum.toUpperCase() });
+    assert.equal(contents.files.length, 3);
+
+    await assert.rejects(read(PACKAGE, { shasum: "0".repeat(40) }), TarballIntegrityError);
+  });
+});
@@ -5,7 +5,7 @@ const API_BASE_URL =
 
 export async function POST(request: Request) {
   try {
-    const { packageName } = await request.json();
+    const { packageName, version } = await request.json();
 
     if (!packageName || typeof packageName !== "string") {
     return Response.json(
@@ -22,7 +22,7 @@ export async function POST(request: Request) {
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ packageName }),
+      body: JSON.stringify({ packageName, version }),
     });
 
     console.log(`📦 UI API: Backend response status: ${backendResponse.status}`);
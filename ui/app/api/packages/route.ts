@@ -1,50 +1,30 @@
-import { getElasticsearchClient, PACKAGE_INDEX } from "@/lib/elasticsearch";
+import { getApiBaseUrl } from "@/lib/api";
 import { PACKAGES } from "@/lib/packages";
 
+// The API server lists packages through whichever search backend it runs
 async function fetchPackageNames(): Promise<string[]> {
-  const client = getElasticsearchClient();
-  const response = await client.search({
-    index: PACKAGE_INDEX,
-    size: 0,
-    aggs: {
-      names: {
-        terms: {
-          field: "name.keyword",
-          size: 1000,
-        },
-      },
-    },
+  const res = await fetch(`${getApiBaseUrl()}/packages`, {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
   });
-
-  const buckets = (response.aggregations as any)?.names?.buckets ?? [];
-  if (buckets.length > 0) {
-    return buckets.map((bucket: any) => bucket.key as string);
+  if (!res.ok) {
+    throw new Error(`Failed to list packages: ${res.status}`);
   }
 
-  // Fallback to direct hits if aggregation missing (e.g., local dev without keyword field)
-  const hitsResponse = await client.search({
-    index: PACKAGE_INDEX,
-    size: 1000,
-    query: { match_all: {} },
-    _source: ["name"],
-  });
-
-  return (hitsResponse.hits.hits ?? [])
-    .map((hit: any) => hit._source?.name as string | undefined)
-    .filter((name): name is string => Boolean(name));
+  const data: { packages?: Array<{ name: string }> } = await res.json();
+  return [...new Set((data.packages ?? []).map((pkg) => pkg.name))];
 }
 
 export async function GET() {
   try {
     const names = (await fetchPackageNames()).sort();
-    console.log("DEBUG packages", { names });
     return Response.json({
       packages: names,
       total: names.length,
-      source: "elasticsearch",
+      source: "api",
     });
   } catch (error) {
-    console.error("Error fetching packages from Elasticsearch:", error);
+    console.error("Error fetching packages:", error);
 
     const fallback = [...PACKAGES].sort();
     return Response.json({
@@ -38,6 +38,12 @@ export type AnswerSuccess = {
     jsdoc?: string;
     signature?: string;
     is_exported: boolean;
+    entry_points?: string[];
+    source_url?: string;
+    parent?: string;
+    inferred_signature?: string;
+    examples?: string[];
+    deprecated?: boolean;
   }>;
   grounded: boolean;
   note?: string;
@@ -243,11 +249,24 @@ export function PackageChat({
                       </p>
                       <ul className="space-y-2 text-xs">
                       {turn.answer.context.map((ctx) => (
-                      <li key={`${ctx.file_path}-${ctx.name}`} className="flex items-center gap-2 p-2 rounded-lg bg-white/60 dark:bg-slate-800/40 border border-border/30">
+                      <li key={`${ctx.file_path}-${ctx.parent ?? ""}-${ctx.name}`} className="flex items-center gap-2 p-2 rounded-lg bg-white/60 dark:bg-slate-800/40 border border-border/30">
                       <span className="text-sm">{ctx.is_exported ? "📤" : "🔒"}</span>
-                      <span className="font-medium text-foreground/90">{ctx.name}</span>
+                      <span className="font-medium text-foreground/90">
+                        {ctx.parent ? `${ctx.parent}.${ctx.name}` : ctx.name}
+                      </span>
+                      {ctx.entry_points?.[0] && (
+                        <span className="font-mono text-[11px] text-muted-foreground/70">
+                          from &quot;{ctx.entry_points[0]}&quot;
+                        </span>
+                      )}
                       <span className="font-mono text-[11px] text-muted-foreground/70 ml-auto">
-                        {ctx.file_path}
+                        {ctx.source_url ? (
+                          <a href={ctx.source_url} target="_blank" rel="noreferrer" className="hover:underline">
+                            {ctx.file_path}
+                          </a>
+                        ) : (
+                          ctx.file_path
+                        )}
                         </span>
                         </li>
                         ))}
@@ -16,6 +16,7 @@ export type PackageDocument = {
     snippet: string;
     is_exported: boolean;
     relevance_score?: number;
+    entry_points?: string[];
   }>;
 };
 
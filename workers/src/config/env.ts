@@ -3,8 +3,24 @@ import { z } from "zod";
 const envSchema = z.object({
   REDIS_URL: z.string().url(),
   QUEUE_NAME: z.string().default("reindex"),
-  ELASTIC_ENDPOINT: z.string().url(),
-  ELASTIC_API_KEY: z.string(),
+  // Read again by the indexer itself; validated here so a bad value fails at startup
+  SEARCH_BACKEND: z.enum(["elasticsearch", "opensearch", "local"]).default("elasticsearch"),
+  LOCAL_INDEX_DIR: z.string().optional(),
+  ELASTIC_ENDPOINT: z.string().url().optional(),
+  ELASTIC_API_KEY: z.string().optional(),
+  OPENSEARCH_NODE: z.string().url().optional(),
+}).superRefine((env, ctx) => {
+  // Settings of the cluster SEARCH_BACKEND talks to; the local backend has none
+  const required = {
+    elasticsearch: ["ELASTIC_ENDPOINT", "ELASTIC_API_KEY"] as const,
+    opensearch: ["OPENSEARCH_NODE"] as const,
+    local: [] as const,
+  }[env.SEARCH_BACKEND];
+  for (const key of required) {
+    if (!env[key]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Required when SEARCH_BACKEND=${env.SEARCH_BACKEND}` });
+    }
+  }
 });
 
 export type WorkerConfig = ReturnType<typeof buildConfig>;
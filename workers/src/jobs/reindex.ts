@@ -4,11 +4,18 @@ import { getIndexer } from "../stubs/indexer.js";
 
 type ReindexPayload = {
   packageName: string;
+  version?: string;
 };
 
 export async function handleReindexJob(job: Job<ReindexPayload>) {
-  const { packageName } = job.data;
+  const { packageName, version } = job.data;
   const { indexPackages } = await getIndexer();
-  await indexPackages([packageName]);
-  return { packageName, status: "completed" as const };
+  const report = await indexPackages([version ? `${packageName}@${version}` : packageName]);
+  const result = report.packages[0];
+  return {
+    packageName,
+    version: result?.version ?? version,
+    status: result?.status === "indexed" ? ("completed" as const) : ("failed" as const),
+    report,
+  };
 }
@@ -9,7 +9,7 @@ export function getElasticClient(config: WorkerConfig): Client {
     cachedClient = new Client({
       node: config.elasticEndpoint,
       auth: {
-        apiKey: config.elasticApiKey,
+        apiKey: config.elasticApiKey!,
       },
     });
   }
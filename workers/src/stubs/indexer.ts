@@ -1,7 +1,9 @@
+import type { IndexReport } from "@npm-intel/shared/ingestion";
+
 export async function getIndexer() {
   const moduleUrl = new URL("../../../src/ingestion/indexer.js", import.meta.url);
   const module: any = await import(moduleUrl.href);
-  const indexPackages: ((packages: string[]) => Promise<void>) = module.indexPackages ?? module.default;
+  const indexPackages: ((packages: string[]) => Promise<IndexReport>) = module.indexPackages ?? module.default;
 
   if (typeof indexPackages !== "function") {
     throw new Error("indexPackages export missing");
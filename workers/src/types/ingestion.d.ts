@@ -1,3 +1,6 @@
 declare module "../../../src/ingestion/indexer.js" {
-  export function indexPackages(packages: string[]): Promise<void>;
+  export function indexPackages(
+    packages: string[],
+    options?: { scoringProfile?: string; concurrency?: number; timeoutMs?: number },
+  ): Promise<import("@npm-intel/shared/ingestion").IndexReport>;
 }